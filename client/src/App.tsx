@@ -1,20 +1,38 @@
-import { Switch, Route } from "wouter";
+import { Switch, Route, Redirect, useRoute } from "wouter";
 import { queryClient } from "./lib/queryClient";
-import { QueryClientProvider } from "@tanstack/react-query";
+import { QueryClientProvider, useQuery } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/app-sidebar";
 import { ThemeProvider } from "@/components/theme-provider";
 import { ThemeToggle } from "@/components/theme-toggle";
+import { AuthProvider, useAuth } from "@/hooks/use-auth";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Badge } from "@/components/ui/badge";
+import type { CurrentHousehold } from "@shared/schema";
 import NotFound from "@/pages/not-found";
+import AuthPage from "@/pages/auth";
+import SharePage from "@/pages/share";
 import Dashboard from "@/pages/dashboard";
 import PetsPage from "@/pages/pets";
 import PetDetailPage from "@/pages/pet-detail";
 import EventsPage from "@/pages/events";
+import CalendarPage from "@/pages/calendar";
 import RemindersPage from "@/pages/reminders";
 import SettingsPage from "@/pages/settings";
 
+function ActiveHousehold() {
+  const { data: household } = useQuery<CurrentHousehold>({ queryKey: ["/api/household"] });
+  if (!household) return null;
+  return (
+    <div className="flex items-center gap-2 min-w-0" data-testid="text-active-household">
+      <span className="text-sm font-medium truncate">{household.name}</span>
+      {household.role === "viewer" && <Badge variant="secondary">View only</Badge>}
+    </div>
+  );
+}
+
 function Router() {
   return (
     <Switch>
@@ -22,37 +40,76 @@ function Router() {
       <Route path="/pets" component={PetsPage} />
       <Route path="/pets/:id" component={PetDetailPage} />
       <Route path="/events" component={EventsPage} />
+      <Route path="/calendar" component={CalendarPage} />
       <Route path="/reminders" component={RemindersPage} />
       <Route path="/settings" component={SettingsPage} />
+      <Route path="/auth">
+        <Redirect to="/" />
+      </Route>
       <Route component={NotFound} />
     </Switch>
   );
 }
 
-function App() {
+function AppShell() {
+  const { user, isLoading } = useAuth();
+  const [isSharePage] = useRoute("/share/:token");
   const style = {
     "--sidebar-width": "16rem",
     "--sidebar-width-icon": "3rem",
   };
 
+  // Sitter links work the same whether or not anyone is signed in.
+  if (isSharePage) {
+    return <Route path="/share/:token" component={SharePage} />;
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex h-screen items-center justify-center">
+        <Skeleton className="h-10 w-40" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return (
+      <Switch>
+        <Route path="/auth" component={AuthPage} />
+        <Route>
+          <Redirect to="/auth" />
+        </Route>
+      </Switch>
+    );
+  }
+
+  return (
+    <SidebarProvider style={style as React.CSSProperties}>
+      <div className="flex h-screen w-full">
+        <AppSidebar />
+        <div className="flex flex-col flex-1 min-w-0">
+          <header className="flex items-center justify-between gap-2 px-3 py-2 border-b sticky top-0 z-50 bg-background">
+            <SidebarTrigger data-testid="button-sidebar-toggle" />
+            <ActiveHousehold />
+            <ThemeToggle />
+          </header>
+          <main className="flex-1 overflow-y-auto">
+            <Router />
+          </main>
+        </div>
+      </div>
+    </SidebarProvider>
+  );
+}
+
+function App() {
   return (
     <ThemeProvider>
       <QueryClientProvider client={queryClient}>
         <TooltipProvider>
-          <SidebarProvider style={style as React.CSSProperties}>
-            <div className="flex h-screen w-full">
-              <AppSidebar />
-              <div className="flex flex-col flex-1 min-w-0">
-                <header className="flex items-center justify-between gap-2 px-3 py-2 border-b sticky top-0 z-50 bg-background">
-                  <SidebarTrigger data-testid="button-sidebar-toggle" />
-                  <ThemeToggle />
-                </header>
-                <main className="flex-1 overflow-y-auto">
-                  <Router />
-                </main>
-              </div>
-            </div>
-          </SidebarProvider>
+          <AuthProvider>
+            <AppShell />
+          </AuthProvider>
           <Toaster />
         </TooltipProvider>
       </QueryClientProvider>
@@ -7,10 +7,12 @@ import "@uppy/core/css/style.min.css";
 import "@uppy/dashboard/css/style.min.css";
 import AwsS3 from "@uppy/aws-s3";
 import { Button } from "@/components/ui/button";
+import type { ButtonProps } from "@/components/ui/button";
 
 interface ObjectUploaderProps {
   maxNumberOfFiles?: number;
   maxFileSize?: number;
+  allowedFileTypes?: string[];
   /**
    * Function to get upload parameters for each file.
    * IMPORTANT: This receives the file object - use file.name, file.size, file.type
@@ -27,6 +29,8 @@ interface ObjectUploaderProps {
     result: UploadResult<Record<string, unknown>, Record<string, unknown>>
   ) => void;
   buttonClassName?: string;
+  buttonVariant?: ButtonProps["variant"];
+  buttonSize?: ButtonProps["size"];
   children: ReactNode;
 }
 
@@ -49,6 +53,8 @@ interface ObjectUploaderProps {
  * @param props.maxNumberOfFiles - Maximum number of files allowed to be uploaded
  *   (default: 1)
  * @param props.maxFileSize - Maximum file size in bytes (default: 10MB)
+ * @param props.allowedFileTypes - MIME types or extensions to accept, e.g. ["image/*"]
+ *   (default: any)
  * @param props.onGetUploadParameters - Function to get upload parameters for each file.
  *   Receives the UppyFile object with file.name, file.size, file.type properties.
  *   Use these to request per-file presigned URLs from your backend. Returns method,
@@ -57,14 +63,19 @@ interface ObjectUploaderProps {
  *   used to make post-upload API calls to update server state and set object ACL
  *   policies.
  * @param props.buttonClassName - Optional CSS class name for the button
+ * @param props.buttonVariant - Optional variant for the button
+ * @param props.buttonSize - Optional size for the button
  * @param props.children - Content to be rendered inside the button
  */
 export function ObjectUploader({
   maxNumberOfFiles = 1,
   maxFileSize = 10485760, // 10MB default
+  allowedFileTypes,
   onGetUploadParameters,
   onComplete,
   buttonClassName,
+  buttonVariant,
+  buttonSize,
   children,
 }: ObjectUploaderProps) {
   const [showModal, setShowModal] = useState(false);
@@ -73,6 +84,7 @@ export function ObjectUploader({
       restrictions: {
         maxNumberOfFiles,
         maxFileSize,
+        allowedFileTypes,
       },
       autoProceed: false,
     })
@@ -87,14 +99,25 @@ export function ObjectUploader({
 
   return (
     <div>
-      <Button onClick={() => setShowModal(true)} className={buttonClassName}>
+      <Button
+        onClick={() => setShowModal(true)}
+        className={buttonClassName}
+        variant={buttonVariant}
+        size={buttonSize}
+      >
         {children}
       </Button>
 
       <DashboardModal
         uppy={uppy}
         open={showModal}
-        onRequestClose={() => setShowModal(false)}
+        onRequestClose={() => {
+          setShowModal(false);
+          // Start afresh next time once everything picked has been uploaded.
+          if (uppy.getFiles().every((file) => file.progress.uploadComplete)) {
+            uppy.clear();
+          }
+        }}
         proudlyDisplayPoweredByUppy={false}
       />
     </div>
@@ -1,5 +1,6 @@
 import { useLocation, Link } from "wouter";
-import { LayoutDashboard, PawPrint, CalendarDays, Bell, Settings } from "lucide-react";
+import { LayoutDashboard, PawPrint, CalendarDays, CalendarRange, Bell, Settings, LogOut } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
 import {
   Sidebar,
   SidebarContent,
@@ -17,6 +18,7 @@ const navItems = [
   { title: "Dashboard", url: "/", icon: LayoutDashboard },
   { title: "Pets", url: "/pets", icon: PawPrint },
   { title: "Events", url: "/events", icon: CalendarDays },
+  { title: "Calendar", url: "/calendar", icon: CalendarRange },
   { title: "Reminders", url: "/reminders", icon: Bell },
 ];
 
@@ -26,6 +28,7 @@ const bottomItems = [
 
 export function AppSidebar() {
   const [location] = useLocation();
+  const { user, logoutMutation } = useAuth();
 
   const isActive = (url: string) => {
     if (url === "/") return location === "/";
@@ -86,6 +89,17 @@ export function AppSidebar() {
               </SidebarMenuButton>
             </SidebarMenuItem>
           ))}
+          <SidebarMenuItem>
+            <SidebarMenuButton
+              onClick={() => logoutMutation.mutate()}
+              disabled={logoutMutation.isPending}
+              tooltip={user ? `Signed in as ${user.username}` : undefined}
+              data-testid="button-logout"
+            >
+              <LogOut className="h-4 w-4" />
+              <span className="truncate">Sign out{user ? ` (${user.displayName || user.username})` : ""}</span>
+            </SidebarMenuButton>
+          </SidebarMenuItem>
         </SidebarMenu>
       </SidebarFooter>
     </Sidebar>
@@ -0,0 +1,292 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import type { UploadResult } from "@uppy/core";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ObjectUploader } from "@/components/ObjectUploader";
+import { useToast } from "@/hooks/use-toast";
+import { useUpload } from "@/hooks/use-upload";
+import { authErrorMessage } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ExternalLink, FileText, Paperclip, Trash2 } from "lucide-react";
+import { uploadLimits } from "@shared/schema";
+import type { Attachment, AttachmentParentType } from "@shared/schema";
+import { format } from "date-fns";
+
+function attachmentsKey(petId: number) {
+  return ["/api/pets", petId, "attachments"];
+}
+
+function isImage(attachment: Attachment): boolean {
+  return !!attachment.contentType?.startsWith("image/");
+}
+
+function isPdf(attachment: Attachment): boolean {
+  return attachment.contentType === "application/pdf";
+}
+
+function formatSize(bytes: number | null): string | null {
+  if (bytes == null) return null;
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function usePetAttachments(petId: number) {
+  return useQuery<Attachment[]>({
+    queryKey: attachmentsKey(petId),
+    enabled: !!petId,
+  });
+}
+
+function AttachmentThumbnail({ attachment, onClick }: { attachment: Attachment; onClick: () => void }) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      title={attachment.fileName}
+      className="flex h-12 w-12 shrink-0 items-center justify-center overflow-hidden rounded-md border bg-muted hover-elevate"
+      data-testid={`button-attachment-${attachment.id}`}
+    >
+      {isImage(attachment) ? (
+        <img src={attachment.objectPath} alt={attachment.fileName} className="h-full w-full object-cover" loading="lazy" />
+      ) : (
+        <FileText className="h-5 w-5 text-muted-foreground" />
+      )}
+    </button>
+  );
+}
+
+function AttachmentPreviewDialog({
+  attachment,
+  petId,
+  onOpenChange,
+}: {
+  attachment: Attachment | undefined;
+  petId: number;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/attachments/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: attachmentsKey(petId) });
+      toast({ title: "Attachment removed" });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't remove attachment", description: authErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={!!attachment} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        {attachment && (
+          <>
+            <DialogHeader>
+              <DialogTitle className="truncate pr-6">{attachment.fileName}</DialogTitle>
+            </DialogHeader>
+            {isImage(attachment) ? (
+              <img
+                src={attachment.objectPath}
+                alt={attachment.fileName}
+                className="max-h-[60vh] w-full rounded-md object-contain bg-muted"
+              />
+            ) : isPdf(attachment) ? (
+              <iframe src={attachment.objectPath} title={attachment.fileName} className="h-[60vh] w-full rounded-md border" />
+            ) : (
+              <div className="flex flex-col items-center justify-center py-10 text-muted-foreground">
+                <FileText className="h-10 w-10 mb-2 opacity-40" />
+                <p className="text-sm">No preview for this file type</p>
+              </div>
+            )}
+            <p className="text-xs text-muted-foreground">
+              {[
+                attachment.createdAt && `Added ${format(new Date(attachment.createdAt), "MMM d, yyyy")}`,
+                formatSize(attachment.size),
+              ]
+                .filter(Boolean)
+                .join(" · ")}
+            </p>
+            <DialogFooter className="gap-2 sm:justify-between">
+              <Button
+                variant="outline"
+                onClick={() => deleteMutation.mutate(attachment.id)}
+                disabled={deleteMutation.isPending}
+                data-testid="button-delete-attachment"
+              >
+                <Trash2 className="h-3.5 w-3.5 mr-1" />
+                Remove
+              </Button>
+              <Button asChild>
+                <a href={attachment.objectPath} target="_blank" rel="noreferrer" data-testid="link-open-attachment">
+                  <ExternalLink className="h-3.5 w-3.5 mr-1" />
+                  Open
+                </a>
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Uploads through the usual request-url flow, then records each file against its parent.
+function AttachButton({
+  petId,
+  parentType,
+  parentId,
+  label = "Attach",
+}: {
+  petId: number;
+  parentType: AttachmentParentType;
+  parentId: number;
+  label?: string;
+}) {
+  const { toast } = useToast();
+  const { getUploadParameters, objectPathFor } = useUpload({ kind: "document" });
+
+  const handleComplete = async (result: UploadResult<Record<string, unknown>, Record<string, unknown>>) => {
+    const uploaded = result.successful ?? [];
+    const failures: string[] = [];
+    for (const file of uploaded) {
+      const objectPath = objectPathFor(file.id);
+      if (!objectPath) continue;
+      try {
+        await apiRequest("POST", "/api/attachments", {
+          parentType,
+          parentId,
+          objectPath,
+          fileName: file.name || "Untitled",
+          contentType: file.type || null,
+          size: file.size ?? null,
+        });
+      } catch (error: any) {
+        failures.push(authErrorMessage(error));
+      }
+    }
+    queryClient.invalidateQueries({ queryKey: attachmentsKey(petId) });
+    if (failures.length > 0) {
+      toast({ title: "Couldn't attach some files", description: failures[0], variant: "destructive" });
+    } else if (uploaded.length > 0) {
+      toast({ title: uploaded.length === 1 ? "File attached" : `${uploaded.length} files attached` });
+    }
+  };
+
+  return (
+    <ObjectUploader
+      maxNumberOfFiles={10}
+      maxFileSize={uploadLimits.document.maxBytes}
+      allowedFileTypes={uploadLimits.document.contentTypes}
+      onGetUploadParameters={getUploadParameters}
+      onComplete={handleComplete}
+      buttonVariant="outline"
+      buttonSize="sm"
+    >
+      <Paperclip className="h-3.5 w-3.5 mr-1" />
+      {label}
+    </ObjectUploader>
+  );
+}
+
+/**
+ * Thumbnails for the files attached to one record, with a button to add more.
+ * Shares the pet's attachment query, so a list of records costs one request.
+ */
+export function RecordAttachments({
+  petId,
+  parentType,
+  parentId,
+}: {
+  petId: number;
+  parentType: AttachmentParentType;
+  parentId: number;
+}) {
+  const { data: attachments = [] } = usePetAttachments(petId);
+  const [previewing, setPreviewing] = useState<Attachment | undefined>();
+  const own = attachments.filter((a) => a.parentType === parentType && a.parentId === parentId);
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 mt-2" data-testid={`attachments-${parentType}-${parentId}`}>
+      {own.map((attachment) => (
+        <AttachmentThumbnail key={attachment.id} attachment={attachment} onClick={() => setPreviewing(attachment)} />
+      ))}
+      <AttachButton petId={petId} parentType={parentType} parentId={parentId} />
+      <AttachmentPreviewDialog
+        attachment={previewing}
+        petId={petId}
+        onOpenChange={(open) => !open && setPreviewing(undefined)}
+      />
+    </div>
+  );
+}
+
+// Every document on file for a pet, whichever record it's attached to.
+export function PetDocuments({
+  petId,
+  petName,
+  describeParent,
+}: {
+  petId: number;
+  petName: string;
+  describeParent: (attachment: Attachment) => string | undefined;
+}) {
+  const { data: attachments = [] } = usePetAttachments(petId);
+  const [previewing, setPreviewing] = useState<Attachment | undefined>();
+
+  return (
+    <div>
+      <div className="flex items-center justify-between gap-2 mb-4">
+        <p className="text-sm text-muted-foreground">
+          {attachments.length} document{attachments.length !== 1 ? "s" : ""} on file
+        </p>
+        <AttachButton petId={petId} parentType="pet" parentId={petId} label="Upload" />
+      </div>
+      {attachments.length > 0 ? (
+        <div className="space-y-2 max-h-[400px] overflow-y-auto">
+          {attachments.map((attachment) => (
+            <div
+              key={attachment.id}
+              className="flex items-center gap-3 p-3 rounded-md border"
+              data-testid={`card-attachment-${attachment.id}`}
+            >
+              <AttachmentThumbnail attachment={attachment} onClick={() => setPreviewing(attachment)} />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium truncate">{attachment.fileName}</p>
+                <p className="text-xs text-muted-foreground">
+                  {[
+                    attachment.parentType === "pet" ? petName : describeParent(attachment),
+                    attachment.createdAt && format(new Date(attachment.createdAt), "MMM d, yyyy"),
+                    formatSize(attachment.size),
+                  ]
+                    .filter(Boolean)
+                    .join(" · ")}
+                </p>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="flex flex-col items-center justify-center h-[200px] text-muted-foreground">
+          <Paperclip className="h-8 w-8 mb-2 opacity-40" />
+          <p className="text-sm">No documents for {petName} yet</p>
+          <p className="text-xs mt-1">Attach invoices, lab results and certificates here or on any record</p>
+        </div>
+      )}
+      <AttachmentPreviewDialog
+        attachment={previewing}
+        petId={petId}
+        onOpenChange={(open) => !open && setPreviewing(undefined)}
+      />
+    </div>
+  );
+}
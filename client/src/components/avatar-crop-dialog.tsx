@@ -0,0 +1,186 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { RotateCcw, RotateCw, ZoomIn } from "lucide-react";
+
+// On-screen crop square and the size of the avatar it produces, in pixels.
+const VIEW_SIZE = 280;
+const OUTPUT_SIZE = 512;
+const MAX_ZOOM = 3;
+
+type Offset = { x: number; y: number };
+
+/**
+ * Square crop with zoom, pan (drag) and quarter-turn rotation. The result is
+ * drawn to a canvas and re-encoded as JPEG, which also drops the photo's
+ * EXIF metadata before it leaves the browser.
+ */
+export function AvatarCropDialog({
+  file,
+  onCancel,
+  onCropped,
+}: {
+  file: File | null;
+  onCancel: () => void;
+  onCropped: (cropped: File) => void;
+}) {
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [rotation, setRotation] = useState(0);
+  const [zoom, setZoom] = useState(1);
+  const [offset, setOffset] = useState<Offset>({ x: 0, y: 0 });
+  const drag = useRef<{ pointerX: number; pointerY: number; start: Offset } | null>(null);
+
+  useEffect(() => {
+    setImage(null);
+    setFailed(false);
+    setRotation(0);
+    setZoom(1);
+    setOffset({ x: 0, y: 0 });
+    if (!file) {
+      setImageUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(file);
+    setImageUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  const sideways = rotation % 180 !== 0;
+  const width = image?.naturalWidth ?? 0;
+  const height = image?.naturalHeight ?? 0;
+  // Scale at which the rotated image just covers the crop square, times the zoom.
+  const scale = image ? (VIEW_SIZE / Math.min(width, height)) * zoom : 1;
+  const coverWidth = (sideways ? height : width) * scale;
+  const coverHeight = (sideways ? width : height) * scale;
+
+  const clamp = (next: Offset): Offset => {
+    const maxX = Math.max(0, (coverWidth - VIEW_SIZE) / 2);
+    const maxY = Math.max(0, (coverHeight - VIEW_SIZE) / 2);
+    return {
+      x: Math.min(maxX, Math.max(-maxX, next.x)),
+      y: Math.min(maxY, Math.max(-maxY, next.y)),
+    };
+  };
+  const position = clamp(offset);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drag.current = { pointerX: e.clientX, pointerY: e.clientY, start: position };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!drag.current) return;
+    const { pointerX, pointerY, start } = drag.current;
+    setOffset(clamp({ x: start.x + e.clientX - pointerX, y: start.y + e.clientY - pointerY }));
+  };
+
+  const rotate = (quarterTurns: number) => {
+    setRotation((r) => (r + quarterTurns * 90 + 360) % 360);
+    setOffset({ x: 0, y: 0 });
+  };
+
+  const handleSave = () => {
+    if (!image || !file) return;
+    const canvas = document.createElement("canvas");
+    canvas.width = OUTPUT_SIZE;
+    canvas.height = OUTPUT_SIZE;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+    const k = OUTPUT_SIZE / VIEW_SIZE;
+    ctx.imageSmoothingQuality = "high";
+    ctx.translate(OUTPUT_SIZE / 2 + position.x * k, OUTPUT_SIZE / 2 + position.y * k);
+    ctx.rotate((rotation * Math.PI) / 180);
+    ctx.drawImage(image, (-width * scale * k) / 2, (-height * scale * k) / 2, width * scale * k, height * scale * k);
+    canvas.toBlob(
+      (blob) => {
+        if (!blob) return;
+        const name = file.name.replace(/\.[^.]*$/, "") || "avatar";
+        onCropped(new File([blob], `${name}.jpg`, { type: "image/jpeg" }));
+      },
+      "image/jpeg",
+      0.9
+    );
+  };
+
+  return (
+    <Dialog open={!!file} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Crop photo</DialogTitle>
+        </DialogHeader>
+        <div className="flex justify-center">
+          <div
+            className="relative overflow-hidden rounded-md bg-muted touch-none cursor-move select-none"
+            style={{ width: VIEW_SIZE, height: VIEW_SIZE }}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={() => (drag.current = null)}
+            onPointerCancel={() => (drag.current = null)}
+            data-testid="avatar-crop-area"
+          >
+            {imageUrl && !failed && (
+              <img
+                key={imageUrl}
+                src={imageUrl}
+                alt=""
+                draggable={false}
+                onLoad={(e) => setImage(e.currentTarget)}
+                onError={() => setFailed(true)}
+                className="absolute left-1/2 top-1/2 max-w-none"
+                style={{
+                  width: width * scale || undefined,
+                  height: height * scale || undefined,
+                  visibility: image ? "visible" : "hidden",
+                  transform: `translate(-50%, -50%) translate(${position.x}px, ${position.y}px) rotate(${rotation}deg)`,
+                }}
+              />
+            )}
+            {failed && (
+              <p className="absolute inset-0 flex items-center justify-center p-6 text-center text-sm text-muted-foreground">
+                This image can't be opened here. Try a JPEG, PNG or WebP file.
+              </p>
+            )}
+            {/* Circle guide matching how avatars are shown. */}
+            <div className="pointer-events-none absolute inset-0 rounded-full ring-[999px] ring-black/40" />
+          </div>
+        </div>
+        <div className="flex items-center gap-3">
+          <ZoomIn className="h-4 w-4 text-muted-foreground shrink-0" />
+          <Slider
+            min={1}
+            max={MAX_ZOOM}
+            step={0.01}
+            value={[zoom]}
+            onValueChange={([value]) => setZoom(value)}
+            disabled={!image}
+            aria-label="Zoom"
+            data-testid="slider-avatar-zoom"
+          />
+          <Button size="icon" variant="ghost" onClick={() => rotate(-1)} disabled={!image} title="Rotate left" data-testid="button-rotate-left">
+            <RotateCcw className="h-4 w-4" />
+          </Button>
+          <Button size="icon" variant="ghost" onClick={() => rotate(1)} disabled={!image} title="Rotate right" data-testid="button-rotate-right">
+            <RotateCw className="h-4 w-4" />
+          </Button>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!image} data-testid="button-save-crop">
+            Use Photo
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,329 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { authErrorMessage } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { AlertTriangle, Copy, FileUp } from "lucide-react";
+import { csvDateFormats, csvImportFields } from "@shared/schema";
+import type { CsvDateFormat, CsvImportKind, CsvImportResult, CsvImportRow, Pet } from "@shared/schema";
+import { weightUnits, type WeightUnit } from "@shared/weight";
+import { format, parseISO } from "date-fns";
+
+// Rows beyond this are imported but not listed.
+const MAX_LISTED_ROWS = 200;
+
+type ImportOptions = {
+  mapping?: Record<string, number | null>;
+  dateFormat?: CsvDateFormat;
+  unit?: WeightUnit;
+};
+
+const fieldLabels: Record<string, string> = {
+  recordedAt: "Date",
+  weight: "Weight",
+  unit: "Unit",
+  name: "Vaccine",
+  dateAdministered: "Date given",
+  nextDueDate: "Next due",
+  veterinarian: "Veterinarian",
+  notes: "Notes",
+};
+
+const requiredFields = new Set(["recordedAt", "weight", "name", "dateAdministered"]);
+
+const kindLabels: Record<CsvImportKind, { title: string; singular: string; plural: string }> = {
+  weights: { title: "Import Weight History", singular: "weight", plural: "weights" },
+  vaccinations: { title: "Import Vaccinations", singular: "vaccination", plural: "vaccinations" },
+};
+
+const statusOrder: Record<CsvImportRow["status"], number> = { invalid: 0, duplicate: 1, valid: 2 };
+
+function formatCell(value: string | number | null): string {
+  if (value === null) return "—";
+  if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value)) return format(parseISO(value), "MMM d, yyyy");
+  return String(value);
+}
+
+function describeRow(kind: CsvImportKind, row: CsvImportRow): { title: string; detail: string } {
+  const { values } = row;
+  if (kind === "weights") {
+    return { title: `${formatCell(values.weight)} ${values.unit}`, detail: formatCell(values.recordedAt) };
+  }
+  const detail = [
+    `Given ${formatCell(values.dateAdministered)}`,
+    values.nextDueDate && `due ${formatCell(values.nextDueDate)}`,
+    values.veterinarian,
+  ].filter(Boolean);
+  return { title: formatCell(values.name), detail: detail.join(" · ") };
+}
+
+/**
+ * Imports a spreadsheet of weights or vaccinations for one pet. Every change
+ * to the file, column mapping, date format or unit re-runs a server-side dry
+ * run, so what's listed is exactly what the import will add.
+ */
+export function CsvImportDialog({
+  pet,
+  kind,
+  open,
+  onOpenChange,
+}: {
+  pet: Pet;
+  kind: CsvImportKind;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [fileName, setFileName] = useState("");
+  const [csv, setCsv] = useState("");
+  const [options, setOptions] = useState<ImportOptions>({});
+  const [result, setResult] = useState<CsvImportResult | null>(null);
+  const labels = kindLabels[kind];
+
+  const previewMutation = useMutation({
+    mutationFn: async (input: { csv: string } & ImportOptions): Promise<CsvImportResult> => {
+      const res = await apiRequest("POST", `/api/pets/${pet.id}/import/${kind}`, { ...input, dryRun: true });
+      return res.json();
+    },
+    onSuccess: setResult,
+    onError: (error: Error) => {
+      setResult(null);
+      toast({ title: "Can't read this file", description: authErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (): Promise<CsvImportResult> => {
+      const res = await apiRequest("POST", `/api/pets/${pet.id}/import/${kind}`, { csv, ...options, dryRun: false });
+      return res.json();
+    },
+    onSuccess: (imported) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/pets", pet.id, kind] });
+      queryClient.invalidateQueries({ queryKey: ["/api/pets", pet.id, "timeline"] });
+      if (kind === "weights") {
+        queryClient.invalidateQueries({ queryKey: ["/api/weight-entries"] });
+      } else {
+        queryClient.invalidateQueries({ queryKey: ["/api/vaccinations"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/reminders"] });
+      }
+      toast({ title: `Imported ${imported.imported} ${imported.imported === 1 ? labels.singular : labels.plural}` });
+      handleOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Import failed", description: authErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setFileName("");
+      setCsv("");
+      setOptions({});
+      setResult(null);
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const text = await file.text();
+    setFileName(file.name);
+    setCsv(text);
+    setOptions({});
+    setResult(null);
+    previewMutation.mutate({ csv: text });
+  };
+
+  const updateOptions = (changes: ImportOptions) => {
+    const next = { ...options, ...changes };
+    setOptions(next);
+    previewMutation.mutate({ csv, ...next });
+  };
+
+  const updateMapping = (field: string, value: string) => {
+    updateOptions({ mapping: { ...result!.mapping, [field]: value === "none" ? null : Number(value) } });
+  };
+
+  const listedRows = result
+    ? [...result.rows].sort((a, b) => statusOrder[a.status] - statusOrder[b.status] || a.line - b.line).slice(0, MAX_LISTED_ROWS)
+    : [];
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{labels.title}</DialogTitle>
+          <DialogDescription>
+            Upload a CSV file saved from a spreadsheet, with a header row, to add {pet.name}'s {labels.plural}. Nothing is
+            added until you confirm.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-1.5">
+          <Label htmlFor={`csv-import-file-${kind}`}>CSV file</Label>
+          <Input
+            id={`csv-import-file-${kind}`}
+            type="file"
+            accept=".csv,text/csv"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+            data-testid={`input-csv-import-file-${kind}`}
+          />
+          {previewMutation.isPending && <p className="text-xs text-muted-foreground">Reading {fileName}...</p>}
+        </div>
+
+        {result && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {csvImportFields[kind].map((field) => (
+                <div key={field} className="space-y-1.5">
+                  <Label>
+                    {fieldLabels[field]}
+                    {requiredFields.has(field) && " *"}
+                  </Label>
+                  <Select
+                    value={result.mapping[field] === null ? "none" : String(result.mapping[field])}
+                    onValueChange={(value) => updateMapping(field, value)}
+                  >
+                    <SelectTrigger data-testid={`select-csv-column-${field}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Not in this file</SelectItem>
+                      {result.headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {header || `Column ${index + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+              <div className="space-y-1.5">
+                <Label>Date format</Label>
+                <Select value={result.dateFormat} onValueChange={(value) => updateOptions({ dateFormat: value as CsvDateFormat })}>
+                  <SelectTrigger data-testid="select-csv-date-format">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {csvDateFormats.map((dateFormat) => (
+                      <SelectItem key={dateFormat} value={dateFormat}>
+                        {dateFormat}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {result.dateFormatAmbiguous && !options.dateFormat && (
+                  <p className="text-xs text-chart-4">Every date reads both day-first and month-first; check this is right</p>
+                )}
+              </div>
+              {kind === "weights" && result.unit && (
+                <div className="space-y-1.5">
+                  <Label>Weights without a unit are in</Label>
+                  <Select value={result.unit} onValueChange={(value) => updateOptions({ unit: value as WeightUnit })}>
+                    <SelectTrigger data-testid="select-csv-weight-unit">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {weightUnits.map((unit) => (
+                        <SelectItem key={unit} value={unit}>
+                          {unit}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {!options.unit && (
+                    <p className="text-xs text-muted-foreground">
+                      {result.unitDetected ? "Detected from the file" : "The file doesn't say; check this is right"}
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+
+            {result.missingFields.length > 0 ? (
+              <p className="flex items-center gap-1.5 text-sm text-destructive">
+                <AlertTriangle className="h-4 w-4 shrink-0" />
+                Choose the column for {result.missingFields.map((field) => fieldLabels[field]).join(" and ")}
+              </p>
+            ) : (
+              <div className="space-y-2">
+                <div className="flex flex-wrap items-center gap-1.5 text-sm">
+                  <Badge variant="secondary">{result.counts.valid} to add</Badge>
+                  {result.counts.duplicate > 0 && <Badge variant="outline">{result.counts.duplicate} already recorded</Badge>}
+                  {result.counts.invalid > 0 && <Badge variant="destructive">{result.counts.invalid} with errors</Badge>}
+                </div>
+                <div className="rounded-md border divide-y max-h-[280px] overflow-y-auto">
+                  {listedRows.map((row) => {
+                    const { title, detail } = describeRow(kind, row);
+                    return (
+                      <div key={row.line} className="flex items-start gap-3 px-3 py-2 text-sm" data-testid={`row-csv-import-${row.line}`}>
+                        <span className="w-10 shrink-0 text-xs text-muted-foreground mt-0.5">#{row.line}</span>
+                        <div className="flex-1 min-w-0">
+                          <p className={row.status === "valid" ? "font-medium" : "font-medium text-muted-foreground"}>{title}</p>
+                          <p className="text-xs text-muted-foreground truncate">{detail}</p>
+                          {row.errors.map((error) => (
+                            <p key={error} className="flex items-center gap-1 text-xs text-destructive mt-0.5">
+                              <AlertTriangle className="h-3 w-3 shrink-0" />
+                              {error}
+                            </p>
+                          ))}
+                        </div>
+                        {row.status === "duplicate" && (
+                          <Badge variant="secondary" className="text-xs gap-1 shrink-0">
+                            <Copy className="h-3 w-3" />
+                            Already recorded
+                          </Badge>
+                        )}
+                      </div>
+                    );
+                  })}
+                  {result.rows.length === 0 && <p className="px-3 py-2 text-sm text-muted-foreground">The file has no rows below the header</p>}
+                </div>
+                {result.rows.length > listedRows.length && (
+                  <p className="text-xs text-muted-foreground">
+                    Showing {listedRows.length} of {result.rows.length} rows, problems first
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="items-center gap-2">
+          {!!result?.counts.invalid && result.counts.valid > 0 && (
+            <p className="text-xs text-muted-foreground mr-auto">Rows with errors are skipped</p>
+          )}
+          <Button
+            onClick={() => importMutation.mutate()}
+            disabled={!result || result.counts.valid === 0 || previewMutation.isPending || importMutation.isPending}
+            data-testid={`button-confirm-csv-import-${kind}`}
+          >
+            <FileUp className="h-4 w-4 mr-1" />
+            {importMutation.isPending
+              ? "Importing..."
+              : `Import ${result?.counts.valid ?? 0} ${result?.counts.valid === 1 ? labels.singular : labels.plural}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,449 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { weekdayLabels } from "@/lib/recurrence";
+import { describeReminderOffset, durationBetween, endTimeFor, reminderOffsetOptions } from "@/lib/event-time";
+import { RichTextEditor } from "@/components/rich-text-editor";
+import { todayInTimeZone } from "@shared/timezone";
+import type { Pet, EventWithPets, EventEditScope, Household, RecurrenceRule } from "@shared/schema";
+import { format, parseISO } from "date-fns";
+
+type RecurrenceEnd = "never" | "count" | "until";
+
+const scopeLabels: Record<EventEditScope, string> = {
+  occurrence: "This occurrence",
+  following: "This and following occurrences",
+  all: "All occurrences",
+};
+
+export function EventFormDialog({
+  open,
+  onOpenChange,
+  pets,
+  editEvent,
+  defaultDate,
+  defaultStartTime,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  pets: Pet[];
+  editEvent?: EventWithPets;
+  defaultDate?: string;
+  defaultStartTime?: string;
+}) {
+  const { toast } = useToast();
+  const isEditing = !!editEvent;
+  const [title, setTitle] = useState(editEvent?.title || "");
+  const [category, setCategory] = useState<string>(editEvent?.category || "vet_visit");
+  const [eventDate, setEventDate] = useState(editEvent?.eventDate || defaultDate || format(new Date(), "yyyy-MM-dd"));
+  const [startTime, setStartTime] = useState(editEvent?.startTime?.slice(0, 5) || defaultStartTime || "");
+  const [endTime, setEndTime] = useState(
+    editEvent?.startTime && editEvent.durationMinutes ? endTimeFor(editEvent.startTime, editEvent.durationMinutes) : ""
+  );
+  const [reminderOffset, setReminderOffset] = useState(String(editEvent?.reminderOffsetMinutes ?? 0));
+  const [location, setLocation] = useState(editEvent?.location || "");
+  const [notes, setNotes] = useState(editEvent?.notes || "");
+  const [selectedPetIds, setSelectedPetIds] = useState<number[]>(editEvent?.pets.map((p) => p.id) || []);
+  const rule = editEvent?.recurrence;
+  const isRecurring = !!rule;
+  const [frequency, setFrequency] = useState<string>(rule?.frequency || "none");
+  const [repeatInterval, setRepeatInterval] = useState(String(rule?.interval || 1));
+  const [byWeekday, setByWeekday] = useState<string[]>(
+    rule?.byWeekday?.map(String) || (editEvent ? [] : [String(new Date().getDay())])
+  );
+  const [ends, setEnds] = useState<RecurrenceEnd>(rule?.count ? "count" : rule?.until ? "until" : "never");
+  const [count, setCount] = useState(String(rule?.count || 10));
+  const [until, setUntil] = useState(rule?.until || "");
+  const [scope, setScope] = useState<EventEditScope>("occurrence");
+  // One-off events dated today or earlier are logged as completed unless the user picks otherwise.
+  const [initialStatus, setInitialStatus] = useState<string | null>(null);
+  const { data: household } = useQuery<Household>({ queryKey: ["/api/household"] });
+  const today = household ? todayInTimeZone(household.timezone) : format(new Date(), "yyyy-MM-dd");
+  const status = initialStatus ?? (frequency === "none" && eventDate <= today ? "completed" : "scheduled");
+
+  const mutation = useMutation({
+    mutationFn: (data: Record<string, unknown>) =>
+      isEditing
+        ? apiRequest("PATCH", `/api/events/${editEvent.id}`, data)
+        : apiRequest("POST", "/api/events", data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/events"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/pets"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reminders"] });
+      toast({ title: isEditing ? "Event updated" : "Event logged successfully" });
+      onOpenChange(false);
+      if (!isEditing) resetForm();
+    },
+    onError: (error: Error) => {
+      toast({ title: error.message, variant: "destructive" });
+    },
+  });
+
+  const resetForm = () => {
+    setTitle("");
+    setCategory("vet_visit");
+    setEventDate(format(new Date(), "yyyy-MM-dd"));
+    setStartTime("");
+    setEndTime("");
+    setReminderOffset("0");
+    setLocation("");
+    setNotes("");
+    setSelectedPetIds([]);
+    setInitialStatus(null);
+    setFrequency("none");
+    setRepeatInterval("1");
+    setByWeekday([String(new Date().getDay())]);
+    setEnds("never");
+    setCount("10");
+    setUntil("");
+  };
+
+  const buildRecurrence = (): RecurrenceRule | null => {
+    if (frequency === "none") return null;
+    return {
+      frequency: frequency as RecurrenceRule["frequency"],
+      interval: parseInt(repeatInterval) || 1,
+      count: ends === "count" ? parseInt(count) || 1 : null,
+      until: ends === "until" && until ? until : null,
+      byWeekday: frequency === "weekly" && byWeekday.length > 0 ? byWeekday.map(Number) : null,
+    };
+  };
+
+  // A single detached occurrence cannot carry its own rule.
+  const showRecurrence = !isRecurring || scope !== "occurrence";
+
+  const togglePet = (petId: number) => {
+    setSelectedPetIds((prev) =>
+      prev.includes(petId) ? prev.filter((id) => id !== petId) : [...prev, petId]
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? "Edit Event" : "Log New Event"}</DialogTitle>
+        </DialogHeader>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (selectedPetIds.length === 0) {
+              toast({ title: "Please select at least one pet", variant: "destructive" });
+              return;
+            }
+            mutation.mutate({
+              title,
+              category,
+              eventDate,
+              startTime: startTime || null,
+              durationMinutes: startTime && endTime ? durationBetween(startTime, endTime) : null,
+              reminderOffsetMinutes: parseInt(reminderOffset) || null,
+              location: location || null,
+              notes: notes || null,
+              petIds: selectedPetIds,
+              ...(!isEditing && { status }),
+              ...(showRecurrence && { recurrence: buildRecurrence() }),
+              ...(isRecurring && { scope, occurrenceDate: editEvent.eventDate }),
+            });
+          }}
+          className="space-y-4"
+        >
+          {isRecurring && (
+            <div className="space-y-1.5 rounded-md border p-3">
+              <Label>Apply changes to</Label>
+              <RadioGroup
+                value={scope}
+                onValueChange={(value) => setScope(value as EventEditScope)}
+                data-testid="radio-event-edit-scope"
+              >
+                {(Object.keys(scopeLabels) as EventEditScope[]).map((value) => (
+                  <div key={value} className="flex items-center gap-2">
+                    <RadioGroupItem value={value} id={`edit-scope-${value}`} />
+                    <Label htmlFor={`edit-scope-${value}`} className="font-normal">
+                      {scopeLabels[value]}
+                    </Label>
+                  </div>
+                ))}
+              </RadioGroup>
+              <p className="text-xs text-muted-foreground">
+                Editing the occurrence on {format(parseISO(editEvent.eventDate), "MMM d, yyyy")}
+              </p>
+            </div>
+          )}
+
+          <div className="space-y-1.5">
+            <Label htmlFor="event-title">Title *</Label>
+            <Input
+              id="event-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="e.g. Annual checkup"
+              required
+              data-testid="input-event-title"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label>Category *</Label>
+              <Select value={category} onValueChange={setCategory}>
+                <SelectTrigger data-testid="select-event-category">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="vet_visit">Vet Visit</SelectItem>
+                  <SelectItem value="medication">Medication</SelectItem>
+                  <SelectItem value="vaccination">Vaccination</SelectItem>
+                  <SelectItem value="appointment">Appointment</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="event-date">Event Date *</Label>
+              <Input
+                id="event-date"
+                type="date"
+                value={eventDate}
+                onChange={(e) => setEventDate(e.target.value)}
+                required
+                data-testid="input-event-date"
+              />
+            </div>
+          </div>
+
+          {!isEditing && (
+            <div className="space-y-1.5">
+              <Label>Status</Label>
+              <Select value={status} onValueChange={setInitialStatus}>
+                <SelectTrigger data-testid="select-event-status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="scheduled">Scheduled</SelectItem>
+                  <SelectItem value="completed">Completed</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="event-start-time">Start Time</Label>
+              <Input
+                id="event-start-time"
+                type="time"
+                value={startTime}
+                onChange={(e) => setStartTime(e.target.value)}
+                data-testid="input-event-start-time"
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="event-end-time">End Time</Label>
+              <Input
+                id="event-end-time"
+                type="time"
+                value={endTime}
+                onChange={(e) => setEndTime(e.target.value)}
+                disabled={!startTime}
+                data-testid="input-event-end-time"
+              />
+            </div>
+          </div>
+          {household && (
+            <p className="text-xs text-muted-foreground -mt-2">
+              {startTime ? `Times are in ${household.timezone}` : "Leave the start time empty for an all-day event"}
+            </p>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label>Reminder</Label>
+              <Select value={reminderOffset} onValueChange={setReminderOffset}>
+                <SelectTrigger data-testid="select-event-reminder-offset">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from(new Set([...reminderOffsetOptions, parseInt(reminderOffset) || 0])).map((minutes) => (
+                    <SelectItem key={minutes} value={String(minutes)}>
+                      {describeReminderOffset(minutes)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="event-location">Location</Label>
+              <Input
+                id="event-location"
+                value={location}
+                onChange={(e) => setLocation(e.target.value)}
+                placeholder="e.g. City Vet Clinic"
+                data-testid="input-event-location"
+              />
+            </div>
+          </div>
+
+          {showRecurrence && (
+            <div className="space-y-3">
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1.5">
+                  <Label>Repeat</Label>
+                  <Select value={frequency} onValueChange={setFrequency}>
+                    <SelectTrigger data-testid="select-event-frequency">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Does not repeat</SelectItem>
+                      <SelectItem value="daily">Daily</SelectItem>
+                      <SelectItem value="weekly">Weekly</SelectItem>
+                      <SelectItem value="monthly">Monthly</SelectItem>
+                      <SelectItem value="yearly">Yearly</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {frequency !== "none" && (
+                  <div className="space-y-1.5">
+                    <Label htmlFor="event-interval">Every</Label>
+                    <Input
+                      id="event-interval"
+                      type="number"
+                      min={1}
+                      max={99}
+                      value={repeatInterval}
+                      onChange={(e) => setRepeatInterval(e.target.value)}
+                      data-testid="input-event-interval"
+                    />
+                  </div>
+                )}
+              </div>
+
+              {frequency === "weekly" && (
+                <div className="space-y-1.5">
+                  <Label>On</Label>
+                  <ToggleGroup
+                    type="multiple"
+                    variant="outline"
+                    size="sm"
+                    value={byWeekday}
+                    onValueChange={setByWeekday}
+                    className="justify-start flex-wrap"
+                    data-testid="toggle-event-weekdays"
+                  >
+                    {weekdayLabels.map((label, day) => (
+                      <ToggleGroupItem key={label} value={String(day)} aria-label={label}>
+                        {label}
+                      </ToggleGroupItem>
+                    ))}
+                  </ToggleGroup>
+                </div>
+              )}
+
+              {frequency !== "none" && (
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-1.5">
+                    <Label>Ends</Label>
+                    <Select value={ends} onValueChange={(value) => setEnds(value as RecurrenceEnd)}>
+                      <SelectTrigger data-testid="select-event-recurrence-end">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="never">Never</SelectItem>
+                        <SelectItem value="count">After a number of times</SelectItem>
+                        <SelectItem value="until">On a date</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {ends === "count" && (
+                    <div className="space-y-1.5">
+                      <Label htmlFor="event-count">Occurrences</Label>
+                      <Input
+                        id="event-count"
+                        type="number"
+                        min={1}
+                        max={500}
+                        value={count}
+                        onChange={(e) => setCount(e.target.value)}
+                        data-testid="input-event-count"
+                      />
+                    </div>
+                  )}
+                  {ends === "until" && (
+                    <div className="space-y-1.5">
+                      <Label htmlFor="event-until">End Date</Label>
+                      <Input
+                        id="event-until"
+                        type="date"
+                        value={until}
+                        onChange={(e) => setUntil(e.target.value)}
+                        required
+                        data-testid="input-event-until"
+                      />
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-1.5">
+            <Label>Pets *</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {pets.map((pet) => (
+                <label
+                  key={pet.id}
+                  className="flex items-center gap-2 p-2 rounded-md border cursor-pointer hover-elevate"
+                  data-testid={`checkbox-pet-${pet.id}`}
+                >
+                  <Checkbox
+                    checked={selectedPetIds.includes(pet.id)}
+                    onCheckedChange={() => togglePet(pet.id)}
+                  />
+                  <span className="text-sm">{pet.name}</span>
+                </label>
+              ))}
+            </div>
+            {pets.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                No pets available. Add a pet first.
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-1.5">
+            <Label>Notes</Label>
+            <RichTextEditor content={notes} onChange={setNotes} placeholder="Add detailed notes about this event..." />
+          </div>
+
+          <Button
+            type="submit"
+            className="w-full"
+            disabled={mutation.isPending}
+            data-testid="button-submit-event"
+          >
+            {mutation.isPending ? "Saving..." : isEditing ? "Update Event" : "Log Event"}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
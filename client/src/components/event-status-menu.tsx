@@ -0,0 +1,144 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { CheckCircle2, CircleDashed, CircleSlash, RotateCcw, XCircle } from "lucide-react";
+import { eventStatusTransitions } from "@shared/schema";
+import type { EventOccurrence, EventStatus } from "@shared/schema";
+
+export const eventStatusLabels: Record<EventStatus, string> = {
+  scheduled: "Scheduled",
+  completed: "Completed",
+  cancelled: "Cancelled",
+  missed: "Missed",
+};
+
+const statusIcons: Record<EventStatus, React.ElementType> = {
+  scheduled: CircleDashed,
+  completed: CheckCircle2,
+  cancelled: XCircle,
+  missed: CircleSlash,
+};
+
+const statusVariants: Record<EventStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  scheduled: "outline",
+  completed: "default",
+  cancelled: "secondary",
+  missed: "destructive",
+};
+
+const actionLabels: Record<EventStatus, string> = {
+  scheduled: "Reopen",
+  completed: "Mark completed",
+  cancelled: "Mark cancelled",
+  missed: "Mark missed",
+};
+
+export function EventStatusBadge({ status }: { status: EventStatus }) {
+  const Icon = statusIcons[status];
+  return (
+    <Badge variant={statusVariants[status]} className="text-xs gap-1">
+      <Icon className="h-3 w-3" />
+      {eventStatusLabels[status]}
+    </Badge>
+  );
+}
+
+export function EventStatusMenu({ event }: { event: EventOccurrence }) {
+  const { toast } = useToast();
+  const [completing, setCompleting] = useState(false);
+  const [outcome, setOutcome] = useState("");
+
+  const mutation = useMutation({
+    mutationFn: (data: { status: EventStatus; outcome?: string | null }) =>
+      apiRequest("POST", `/api/events/${event.id}/status`, {
+        ...data,
+        occurrenceDate: event.recurrence ? event.eventDate : undefined,
+      }),
+    onSuccess: (_, data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/events"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/pets"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reminders"] });
+      toast({ title: `Event marked ${eventStatusLabels[data.status].toLowerCase()}` });
+      setCompleting(false);
+      setOutcome("");
+    },
+    onError: (error: Error) => {
+      toast({ title: error.message, variant: "destructive" });
+    },
+  });
+
+  const nextStatuses = eventStatusTransitions[event.status];
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" title="Change status" data-testid={`button-event-status-${event.id}`}>
+            <CheckCircle2 className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          {nextStatuses.map((status) => {
+            const Icon = status === "scheduled" ? RotateCcw : statusIcons[status];
+            return (
+              <DropdownMenuItem
+                key={status}
+                onClick={() => (status === "completed" ? setCompleting(true) : mutation.mutate({ status }))}
+                data-testid={`menu-event-status-${status}-${event.id}`}
+              >
+                <Icon className="h-4 w-4 mr-2" />
+                {actionLabels[status]}
+              </DropdownMenuItem>
+            );
+          })}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={completing} onOpenChange={setCompleting}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Complete "{event.title}"</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-1.5">
+            <Label htmlFor={`event-outcome-${event.id}`}>Outcome</Label>
+            <Textarea
+              id={`event-outcome-${event.id}`}
+              value={outcome}
+              onChange={(e) => setOutcome(e.target.value)}
+              placeholder="e.g. All vitals normal, next checkup in 6 months"
+              className="resize-none"
+              data-testid="input-event-outcome"
+            />
+          </div>
+          <DialogFooter>
+            <Button
+              onClick={() => mutation.mutate({ status: "completed", outcome: outcome || null })}
+              disabled={mutation.isPending}
+              data-testid="button-confirm-complete-event"
+            >
+              {mutation.isPending ? "Saving..." : "Mark Completed"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
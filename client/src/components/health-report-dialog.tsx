@@ -0,0 +1,107 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { FileDown } from "lucide-react";
+import type { Pet } from "@shared/schema";
+import { format, subMonths } from "date-fns";
+
+const presets = [
+  { label: "Last 6 months", months: 6 },
+  { label: "Last 12 months", months: 12 },
+  { label: "All history", months: null },
+];
+
+function reportUrl(petId: number, from: string, to: string): string {
+  const params = new URLSearchParams();
+  if (from) params.set("from", from);
+  if (to) params.set("to", to);
+  const query = params.toString();
+  return `/api/pets/${petId}/report.pdf${query ? `?${query}` : ""}`;
+}
+
+// Picks the date range for a pet's PDF health report; the server renders the file.
+export function HealthReportDialog({
+  pet,
+  open,
+  onOpenChange,
+}: {
+  pet: Pet;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const [from, setFrom] = useState(() => format(subMonths(new Date(), 12), "yyyy-MM-dd"));
+  const [to, setTo] = useState("");
+
+  const applyPreset = (months: number | null) => {
+    setFrom(months === null ? "" : format(subMonths(new Date(), months), "yyyy-MM-dd"));
+    setTo("");
+  };
+
+  const invalidRange = !!from && !!to && from > to;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Health Report</DialogTitle>
+          <DialogDescription>
+            A PDF of {pet.name}'s profile, weight, vaccinations, medications and events to hand to a vet or boarding kennel.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex flex-wrap gap-2">
+          {presets.map((preset) => (
+            <Button
+              key={preset.label}
+              type="button"
+              size="sm"
+              variant="outline"
+              onClick={() => applyPreset(preset.months)}
+              data-testid={`button-report-preset-${preset.months ?? "all"}`}
+            >
+              {preset.label}
+            </Button>
+          ))}
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1.5">
+            <Label htmlFor="report-from">From</Label>
+            <Input id="report-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} data-testid="input-report-from" />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="report-to">To</Label>
+            <Input id="report-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} data-testid="input-report-to" />
+          </div>
+        </div>
+        <p className={`text-xs ${invalidRange ? "text-destructive" : "text-muted-foreground"}`}>
+          {invalidRange
+            ? "The start date must be on or before the end date"
+            : "Leave From empty for all history and To empty for today. Vaccinations still in date are always included."}
+        </p>
+        <DialogFooter>
+          {invalidRange ? (
+            <Button disabled>
+              <FileDown className="h-4 w-4 mr-1" />
+              Download PDF
+            </Button>
+          ) : (
+            <Button asChild onClick={() => onOpenChange(false)}>
+              <a href={reportUrl(pet.id, from, to)} download data-testid="link-download-health-report">
+                <FileDown className="h-4 w-4 mr-1" />
+                Download PDF
+              </a>
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
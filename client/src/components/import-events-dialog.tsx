@@ -0,0 +1,279 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { describeRecurrence } from "@/lib/recurrence";
+import { describeEventTime } from "@/lib/event-time";
+import { AlertTriangle, Copy, FileUp } from "lucide-react";
+import type { CalendarImportCandidate, Event, Pet } from "@shared/schema";
+import { format, parseISO } from "date-fns";
+
+type ImportRow = CalendarImportCandidate & {
+  selected: boolean;
+  category: Event["category"];
+  petIds: number[];
+};
+
+const categoryLabels: Record<string, string> = {
+  vet_visit: "Vet Visit",
+  medication: "Medication",
+  vaccination: "Vaccination",
+  appointment: "Appointment",
+};
+
+export function ImportEventsDialog({
+  open,
+  onOpenChange,
+  pets,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  pets: Pet[];
+}) {
+  const { toast } = useToast();
+  const [fileName, setFileName] = useState("");
+  const [rows, setRows] = useState<ImportRow[]>([]);
+
+  const previewMutation = useMutation({
+    mutationFn: async (ics: string): Promise<CalendarImportCandidate[]> => {
+      const res = await apiRequest("POST", "/api/events/import/preview", { ics });
+      return res.json();
+    },
+    onSuccess: (candidates) => {
+      setRows(
+        candidates.map((candidate) => ({
+          ...candidate,
+          selected: !candidate.duplicateOf,
+          category: candidate.suggestedCategory,
+          petIds: candidate.suggestedPetIds,
+        }))
+      );
+    },
+    onError: (error: Error) => {
+      toast({ title: error.message, variant: "destructive" });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: (selected: ImportRow[]) =>
+      apiRequest("POST", "/api/events/import", {
+        events: selected.map((row) => ({
+          title: row.title,
+          category: row.category,
+          eventDate: row.eventDate,
+          startTime: row.startTime,
+          durationMinutes: row.durationMinutes,
+          reminderOffsetMinutes: row.reminderOffsetMinutes,
+          location: row.location,
+          notes: row.notes,
+          recurrence: row.recurrence,
+          status: row.status,
+          externalUid: row.uid,
+          petIds: row.petIds,
+        })),
+      }),
+    onSuccess: (_, selected) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/events"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/pets"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reminders"] });
+      toast({ title: `Imported ${selected.length} event${selected.length === 1 ? "" : "s"}` });
+      handleOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setRows([]);
+      setFileName("");
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileName(file.name);
+    setRows([]);
+    previewMutation.mutate(await file.text());
+  };
+
+  const updateRow = (index: number, changes: Partial<ImportRow>) => {
+    setRows((prev) => prev.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const togglePet = (index: number, petId: number) => {
+    const row = rows[index];
+    updateRow(index, {
+      petIds: row.petIds.includes(petId) ? row.petIds.filter((id) => id !== petId) : [...row.petIds, petId],
+    });
+  };
+
+  const applyPetToAll = (petId: number) => {
+    setRows((prev) =>
+      prev.map((row) => (row.selected && !row.petIds.includes(petId) ? { ...row, petIds: [...row.petIds, petId] } : row))
+    );
+  };
+
+  const selectedRows = rows.filter((row) => row.selected);
+  const missingPets = selectedRows.some((row) => row.petIds.length === 0);
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import from Calendar File</DialogTitle>
+          <DialogDescription>
+            Upload an .ics file, such as an appointment confirmation from your vet, then choose which events to add.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-1.5">
+          <Label htmlFor="import-ics-file">Calendar file</Label>
+          <Input
+            id="import-ics-file"
+            type="file"
+            accept=".ics,text/calendar"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+            data-testid="input-import-ics-file"
+          />
+          {previewMutation.isPending && (
+            <p className="text-xs text-muted-foreground">Reading {fileName}...</p>
+          )}
+        </div>
+
+        {rows.length > 0 && (
+          <div className="space-y-3">
+            {pets.length > 1 && (
+              <div className="flex flex-wrap items-center gap-1.5 text-sm">
+                <span className="text-muted-foreground mr-1">Add to all selected:</span>
+                {pets.map((pet) => (
+                  <Button
+                    key={pet.id}
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    onClick={() => applyPetToAll(pet.id)}
+                    data-testid={`button-import-apply-pet-${pet.id}`}
+                  >
+                    {pet.name}
+                  </Button>
+                ))}
+              </div>
+            )}
+
+            {rows.map((row, index) => (
+              <div
+                key={`${row.uid ?? "event"}-${index}`}
+                className="rounded-md border p-3 space-y-2"
+                data-testid={`row-import-event-${index}`}
+              >
+                <div className="flex items-start gap-3">
+                  <Checkbox
+                    checked={row.selected}
+                    onCheckedChange={(checked) => updateRow(index, { selected: !!checked })}
+                    className="mt-1"
+                    data-testid={`checkbox-import-event-${index}`}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium">{row.title}</span>
+                      {row.duplicateOf && (
+                        <Badge variant="secondary" className="text-xs gap-1">
+                          <Copy className="h-3 w-3" />
+                          Already logged
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-0.5">
+                      {format(parseISO(row.eventDate), "MMM d, yyyy")}
+                      {row.startTime && <> &middot; {describeEventTime(row)}</>}
+                      {row.location && <> &middot; {row.location}</>}
+                      {row.recurrence && <> &middot; {describeRecurrence(row.recurrence)}</>}
+                    </p>
+                    {row.duplicateOf && (
+                      <p className="text-xs text-muted-foreground mt-0.5">
+                        Matches "{row.duplicateOf.title}" on {format(parseISO(row.duplicateOf.eventDate), "MMM d, yyyy")}
+                      </p>
+                    )}
+                    {row.warnings.map((warning) => (
+                      <p key={warning} className="flex items-center gap-1 text-xs text-chart-4 mt-0.5">
+                        <AlertTriangle className="h-3 w-3" />
+                        {warning}
+                      </p>
+                    ))}
+                  </div>
+                </div>
+
+                {row.selected && (
+                  <div className="flex flex-wrap items-center gap-2 pl-7">
+                    <Select
+                      value={row.category}
+                      onValueChange={(value) => updateRow(index, { category: value as Event["category"] })}
+                    >
+                      <SelectTrigger className="w-[150px] h-8" data-testid={`select-import-category-${index}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(categoryLabels).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {pets.map((pet) => (
+                      <label
+                        key={pet.id}
+                        className="flex items-center gap-1.5 rounded-md border px-2 py-1 text-sm cursor-pointer hover-elevate"
+                        data-testid={`checkbox-import-pet-${index}-${pet.id}`}
+                      >
+                        <Checkbox checked={row.petIds.includes(pet.id)} onCheckedChange={() => togglePet(index, pet.id)} />
+                        {pet.name}
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter className="items-center gap-2">
+          {missingPets && <p className="text-xs text-destructive mr-auto">Choose at least one pet for each selected event</p>}
+          <Button
+            onClick={() => importMutation.mutate(selectedRows)}
+            disabled={selectedRows.length === 0 || missingPets || importMutation.isPending}
+            data-testid="button-confirm-import-events"
+          >
+            <FileUp className="h-4 w-4 mr-1" />
+            {importMutation.isPending
+              ? "Importing..."
+              : `Import ${selectedRows.length} Event${selectedRows.length === 1 ? "" : "s"}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,248 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import type { UploadResult } from "@uppy/core";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ObjectUploader } from "@/components/ObjectUploader";
+import { useToast } from "@/hooks/use-toast";
+import { useUpload } from "@/hooks/use-upload";
+import { authErrorMessage } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Camera, Images, Trash2, UserCircle } from "lucide-react";
+import { uploadLimits } from "@shared/schema";
+import type { Pet, PetPhoto } from "@shared/schema";
+import { format, parseISO } from "date-fns";
+
+function photosKey(petId: number) {
+  return ["/api/pets", petId, "photos"];
+}
+
+function PhotoDialog({
+  photo,
+  pet,
+  onOpenChange,
+}: {
+  photo: PetPhoto | undefined;
+  pet: Pet;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [caption, setCaption] = useState("");
+  const [takenAt, setTakenAt] = useState("");
+
+  useEffect(() => {
+    setCaption(photo?.caption ?? "");
+    setTakenAt(photo?.takenAt ?? "");
+  }, [photo]);
+
+  const onError = (error: Error) => {
+    toast({ title: "Something went wrong", description: authErrorMessage(error), variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("PATCH", `/api/photos/${id}`, { caption: caption || null, takenAt: takenAt || null }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: photosKey(pet.id) });
+      toast({ title: "Photo updated" });
+      onOpenChange(false);
+    },
+    onError,
+  });
+
+  const avatarMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("POST", `/api/photos/${id}/avatar`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/pets"] });
+      toast({ title: `New profile photo for ${pet.name}` });
+      onOpenChange(false);
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/photos/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: photosKey(pet.id) });
+      toast({ title: "Photo removed" });
+      onOpenChange(false);
+    },
+    onError,
+  });
+
+  const isAvatar = !!photo && pet.avatarUrl === photo.displayPath;
+
+  return (
+    <Dialog open={!!photo} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        {photo && (
+          <>
+            <DialogHeader>
+              <DialogTitle>{photo.caption || `${pet.name}'s photo`}</DialogTitle>
+            </DialogHeader>
+            <img
+              src={photo.displayPath}
+              alt={photo.caption || pet.name}
+              className="max-h-[55vh] w-full rounded-md object-contain bg-muted"
+            />
+            <div className="grid grid-cols-1 sm:grid-cols-[1fr_auto] gap-3">
+              <div className="space-y-1.5">
+                <Label htmlFor="photo-caption">Caption</Label>
+                <Input
+                  id="photo-caption"
+                  value={caption}
+                  onChange={(e) => setCaption(e.target.value)}
+                  placeholder="e.g. 12 weeks old, stitches after surgery"
+                  data-testid="input-photo-caption"
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="photo-taken-at">Taken</Label>
+                <Input
+                  id="photo-taken-at"
+                  type="date"
+                  value={takenAt}
+                  onChange={(e) => setTakenAt(e.target.value)}
+                  data-testid="input-photo-taken-at"
+                />
+              </div>
+            </div>
+            <DialogFooter className="gap-2 sm:justify-between">
+              <Button
+                variant="outline"
+                onClick={() => deleteMutation.mutate(photo.id)}
+                disabled={deleteMutation.isPending}
+                data-testid="button-delete-photo"
+              >
+                <Trash2 className="h-3.5 w-3.5 mr-1" />
+                Delete
+              </Button>
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => avatarMutation.mutate(photo.id)}
+                  disabled={isAvatar || avatarMutation.isPending}
+                  data-testid="button-set-avatar"
+                >
+                  <UserCircle className="h-3.5 w-3.5 mr-1" />
+                  {isAvatar ? "Profile photo" : "Set as profile photo"}
+                </Button>
+                <Button onClick={() => saveMutation.mutate(photo.id)} disabled={saveMutation.isPending} data-testid="button-save-photo">
+                  Save
+                </Button>
+              </div>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Per-pet photo grid. Thumbnails and display sizes are generated server-side on upload.
+export function PetGallery({ pet }: { pet: Pet }) {
+  const { toast } = useToast();
+  const { getUploadParameters, objectPathFor } = useUpload({ kind: "image" });
+  const [viewing, setViewing] = useState<PetPhoto | undefined>();
+
+  const { data: photos = [], isLoading } = useQuery<PetPhoto[]>({
+    queryKey: photosKey(pet.id),
+  });
+
+  const handleComplete = async (result: UploadResult<Record<string, unknown>, Record<string, unknown>>) => {
+    const uploaded = result.successful ?? [];
+    const failures: string[] = [];
+    for (const file of uploaded) {
+      const objectPath = objectPathFor(file.id);
+      if (!objectPath) continue;
+      const lastModified = file.data instanceof File ? file.data.lastModified : undefined;
+      try {
+        await apiRequest("POST", `/api/pets/${pet.id}/photos`, {
+          objectPath,
+          takenAt: lastModified ? format(new Date(lastModified), "yyyy-MM-dd") : null,
+        });
+      } catch (error: any) {
+        failures.push(authErrorMessage(error));
+      }
+    }
+    queryClient.invalidateQueries({ queryKey: photosKey(pet.id) });
+    if (failures.length > 0) {
+      toast({ title: "Couldn't add some photos", description: failures[0], variant: "destructive" });
+    } else if (uploaded.length > 0) {
+      toast({ title: uploaded.length === 1 ? "Photo added" : `${uploaded.length} photos added` });
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between gap-2 mb-4">
+        <p className="text-sm text-muted-foreground">
+          {photos.length} photo{photos.length !== 1 ? "s" : ""}
+        </p>
+        <ObjectUploader
+          maxNumberOfFiles={20}
+          maxFileSize={uploadLimits.image.maxBytes}
+          allowedFileTypes={uploadLimits.image.contentTypes}
+          onGetUploadParameters={getUploadParameters}
+          onComplete={handleComplete}
+          buttonVariant="outline"
+          buttonSize="sm"
+        >
+          <Camera className="h-3.5 w-3.5 mr-1" />
+          Add Photos
+        </ObjectUploader>
+      </div>
+      {isLoading ? (
+        <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+          {[1, 2, 3, 4].map((i) => (
+            <Skeleton key={i} className="aspect-square w-full" />
+          ))}
+        </div>
+      ) : photos.length > 0 ? (
+        <div className="grid grid-cols-3 sm:grid-cols-4 gap-2 max-h-[400px] overflow-y-auto">
+          {photos.map((photo) => (
+            <button
+              key={photo.id}
+              type="button"
+              onClick={() => setViewing(photo)}
+              className="group relative aspect-square overflow-hidden rounded-md border bg-muted hover-elevate"
+              data-testid={`button-photo-${photo.id}`}
+            >
+              <img
+                src={photo.thumbnailPath}
+                alt={photo.caption || pet.name}
+                className="h-full w-full object-cover"
+                loading="lazy"
+              />
+              {pet.avatarUrl === photo.displayPath && (
+                <Badge variant="secondary" className="absolute left-1 top-1">Profile</Badge>
+              )}
+              {(photo.caption || photo.takenAt) && (
+                <div className="absolute inset-x-0 bottom-0 bg-black/50 px-1.5 py-1 text-left text-[11px] text-white">
+                  {photo.caption && <p className="truncate">{photo.caption}</p>}
+                  {photo.takenAt && <p className="opacity-80">{format(parseISO(photo.takenAt), "MMM d, yyyy")}</p>}
+                </div>
+              )}
+            </button>
+          ))}
+        </div>
+      ) : (
+        <div className="flex flex-col items-center justify-center h-[200px] text-muted-foreground">
+          <Images className="h-8 w-8 mb-2 opacity-40" />
+          <p className="text-sm">No photos of {pet.name} yet</p>
+          <p className="text-xs mt-1">Growth photos, injuries to show the vet, favourite moments</p>
+        </div>
+      )}
+      <PhotoDialog photo={viewing} pet={pet} onOpenChange={(open) => !open && setViewing(undefined)} />
+    </div>
+  );
+}
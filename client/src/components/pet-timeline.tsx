@@ -0,0 +1,191 @@
+import { useState } from "react";
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { EventStatusBadge } from "@/components/event-status-menu";
+import { apiRequest } from "@/lib/queryClient";
+import { formatTime } from "@/lib/event-time";
+import { cn } from "@/lib/utils";
+import {
+  Activity,
+  CalendarDays,
+  History,
+  Pill,
+  Scale,
+  Shield,
+  Stethoscope,
+  Syringe,
+  UserPen,
+} from "lucide-react";
+import { timelineItemTypes } from "@shared/schema";
+import type { TimelineItem, TimelineItemType, TimelinePage } from "@shared/schema";
+import { format, parseISO } from "date-fns";
+
+const PAGE_SIZE = 30;
+
+const typeLabels: Record<TimelineItemType, string> = {
+  weight: "Weight",
+  event: "Events",
+  vaccination: "Vaccinations",
+  medication: "Medications",
+  profile: "Profile",
+};
+
+const typeIcons: Record<TimelineItemType, React.ElementType> = {
+  weight: Scale,
+  event: CalendarDays,
+  vaccination: Shield,
+  medication: Pill,
+  profile: UserPen,
+};
+
+const categoryIcons: Record<string, React.ElementType> = {
+  vet_visit: Stethoscope,
+  medication: Syringe,
+  vaccination: Activity,
+  appointment: CalendarDays,
+};
+
+const categoryColors: Record<string, string> = {
+  vet_visit: "hsl(var(--chart-1))",
+  medication: "hsl(var(--chart-2))",
+  vaccination: "hsl(var(--chart-3))",
+  appointment: "hsl(var(--chart-4))",
+};
+
+function itemIcon(item: TimelineItem): React.ElementType {
+  if (item.type === "event" && item.category) return categoryIcons[item.category] || CalendarDays;
+  return typeIcons[item.type];
+}
+
+function itemColor(item: TimelineItem): string {
+  if (item.category) return categoryColors[item.category];
+  return item.type === "weight" ? "hsl(var(--chart-5))" : "hsl(var(--muted-foreground))";
+}
+
+function groupByYear(items: TimelineItem[]): [string, TimelineItem[]][] {
+  const groups: [string, TimelineItem[]][] = [];
+  for (const item of items) {
+    const year = item.date.slice(0, 4);
+    const last = groups[groups.length - 1];
+    if (last && last[0] === year) last[1].push(item);
+    else groups.push([year, [item]]);
+  }
+  return groups;
+}
+
+export function PetTimeline({ petId, petName }: { petId: number; petName: string }) {
+  const [types, setTypes] = useState<TimelineItemType[]>([...timelineItemTypes]);
+
+  const { data, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: ["/api/pets", petId, "timeline", types],
+    queryFn: async ({ pageParam }): Promise<TimelinePage> => {
+      const params = new URLSearchParams({ types: types.join(","), offset: String(pageParam), limit: String(PAGE_SIZE) });
+      const res = await apiRequest("GET", `/api/pets/${petId}/timeline?${params}`);
+      return res.json();
+    },
+    initialPageParam: 0,
+    getNextPageParam: (lastPage) => lastPage.nextOffset ?? undefined,
+    enabled: types.length > 0,
+  });
+
+  const items = data?.pages.flatMap((page) => page.items) ?? [];
+  const total = data?.pages[0]?.total ?? 0;
+
+  const toggleType = (type: TimelineItemType) => {
+    setTypes((prev) =>
+      prev.includes(type) ? prev.filter((t) => t !== type) : timelineItemTypes.filter((t) => t === type || prev.includes(t))
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-1.5">
+        {timelineItemTypes.map((type) => {
+          const Icon = typeIcons[type];
+          const active = types.includes(type);
+          return (
+            <Button
+              key={type}
+              size="sm"
+              variant={active ? "default" : "outline"}
+              onClick={() => toggleType(type)}
+              data-testid={`button-timeline-filter-${type}`}
+            >
+              <Icon className="h-3.5 w-3.5 mr-1" />
+              {typeLabels[type]}
+            </Button>
+          );
+        })}
+        {types.length > 0 && !isLoading && (
+          <span className="ml-auto text-sm text-muted-foreground" data-testid="text-timeline-count">
+            {total} entr{total === 1 ? "y" : "ies"}
+          </span>
+        )}
+      </div>
+
+      {isLoading && types.length > 0 ? (
+        <div className="space-y-2">
+          {[1, 2, 3].map((i) => (
+            <Skeleton key={i} className="h-14 w-full" />
+          ))}
+        </div>
+      ) : items.length > 0 ? (
+        <div className="space-y-6">
+          {groupByYear(items).map(([year, yearItems]) => (
+            <div key={year} data-testid={`timeline-year-${year}`}>
+              <h3 className="mb-2 text-sm font-semibold text-muted-foreground">{year}</h3>
+              <ol className="relative ml-4 border-l">
+                {yearItems.map((item) => {
+                  const Icon = itemIcon(item);
+                  const color = itemColor(item);
+                  return (
+                    <li key={item.id} className="relative pb-4 pl-6 last:pb-0" data-testid={`timeline-item-${item.id}`}>
+                      <span
+                        className="absolute -left-3.5 flex h-7 w-7 items-center justify-center rounded-full border bg-background"
+                        style={{ color }}
+                      >
+                        <Icon className="h-3.5 w-3.5" />
+                      </span>
+                      <div className="flex flex-wrap items-center gap-2">
+                        <p className={cn("text-sm font-medium", item.status === "cancelled" && "line-through opacity-60")}>
+                          {item.title}
+                        </p>
+                        {item.status && item.status !== "completed" && <EventStatusBadge status={item.status} />}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {format(parseISO(item.date), "EEE, MMM d")}
+                        {item.time && <> &middot; {formatTime(item.time)}</>}
+                        {item.detail && <> &middot; {item.detail}</>}
+                      </p>
+                    </li>
+                  );
+                })}
+              </ol>
+            </div>
+          ))}
+          {hasNextPage && (
+            <div className="flex justify-center">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => fetchNextPage()}
+                disabled={isFetchingNextPage}
+                data-testid="button-timeline-load-more"
+              >
+                {isFetchingNextPage ? "Loading..." : `Load more (${total - items.length} remaining)`}
+              </Button>
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="flex flex-col items-center justify-center h-[200px] text-muted-foreground">
+          <History className="h-8 w-8 mb-2 opacity-40" />
+          <p className="text-sm">
+            {types.length === 0 ? "Choose at least one type to show" : `Nothing recorded for ${petName} yet`}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
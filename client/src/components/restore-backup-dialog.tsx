@@ -0,0 +1,226 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { authErrorMessage } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { AlertTriangle, Copy, DatabaseBackup } from "lucide-react";
+import type { DataImportMode, DataImportSummary, DataImportTable } from "@shared/schema";
+import { format } from "date-fns";
+
+const tableLabels: Record<DataImportTable, string> = {
+  pets: "Pets",
+  weightEntries: "Weight entries",
+  events: "Events",
+  vaccinations: "Vaccinations",
+  medications: "Medications",
+};
+
+const modeDescriptions: Record<DataImportMode, string> = {
+  merge: "Keep everything already here and add what the backup has that this household doesn't.",
+  replace: "Delete this household's pets and records first, then restore the backup exactly.",
+};
+
+export function RestoreBackupDialog({
+  open,
+  onOpenChange,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [fileName, setFileName] = useState("");
+  const [backup, setBackup] = useState<unknown>(null);
+  const [mode, setMode] = useState<DataImportMode>("merge");
+  const [summary, setSummary] = useState<DataImportSummary | null>(null);
+
+  const previewMutation = useMutation({
+    mutationFn: async (input: { mode: DataImportMode; data: unknown }): Promise<DataImportSummary> => {
+      const res = await apiRequest("POST", "/api/import/preview", input);
+      return res.json();
+    },
+    onSuccess: setSummary,
+    onError: (error: Error) => {
+      toast({ title: "Can't restore this file", description: authErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (input: { mode: DataImportMode; data: unknown }): Promise<DataImportSummary> => {
+      const res = await apiRequest("POST", "/api/import", input);
+      return res.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries();
+      const added = Object.values(result.tables).reduce((sum, table) => sum + table.added, 0);
+      toast({ title: `Restored ${added} record${added === 1 ? "" : "s"}` });
+      handleOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Restore failed", description: authErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setFileName("");
+      setBackup(null);
+      setMode("merge");
+      setSummary(null);
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileName(file.name);
+    setSummary(null);
+    let data: unknown;
+    try {
+      data = JSON.parse(await file.text());
+    } catch {
+      setBackup(null);
+      toast({ title: "Can't restore this file", description: "It isn't a JSON backup", variant: "destructive" });
+      return;
+    }
+    setBackup(data);
+    previewMutation.mutate({ mode, data });
+  };
+
+  const handleModeChange = (value: DataImportMode) => {
+    setMode(value);
+    if (backup) previewMutation.mutate({ mode: value, data: backup });
+  };
+
+  const tables = summary ? (Object.keys(tableLabels) as DataImportTable[]) : [];
+  const totalConflicts = tables.reduce((sum, table) => sum + summary!.tables[table].conflicting, 0);
+  const nothingToAdd = !!summary && tables.every((table) => summary.tables[table].added === 0);
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Restore from Backup</DialogTitle>
+          <DialogDescription>
+            Choose a JSON backup downloaded from this page. Nothing changes until you confirm.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 sm:grid-cols-[1fr_auto] gap-3">
+          <div className="space-y-1.5">
+            <Label htmlFor="restore-backup-file">Backup file</Label>
+            <Input
+              id="restore-backup-file"
+              type="file"
+              accept=".json,application/json"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              data-testid="input-restore-backup-file"
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label>Mode</Label>
+            <Select value={mode} onValueChange={(value) => handleModeChange(value as DataImportMode)}>
+              <SelectTrigger className="w-full sm:w-[150px]" data-testid="select-restore-mode">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="merge">Merge</SelectItem>
+                <SelectItem value="replace">Replace everything</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">{modeDescriptions[mode]}</p>
+        {previewMutation.isPending && <p className="text-xs text-muted-foreground">Reading {fileName}...</p>}
+
+        {summary && (
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              Backup from {format(new Date(summary.exportedAt), "MMM d, yyyy 'at' h:mm a")}
+            </p>
+            <div className="rounded-md border text-sm">
+              <div className="grid grid-cols-[1fr_repeat(3,4.5rem)] gap-2 border-b px-3 py-2 text-xs font-medium text-muted-foreground">
+                <span />
+                <span className="text-right">Add</span>
+                <span className="text-right">Already here</span>
+                <span className="text-right">Remove</span>
+              </div>
+              {tables.map((table) => {
+                const counts = summary.tables[table];
+                return (
+                  <div
+                    key={table}
+                    className="grid grid-cols-[1fr_repeat(3,4.5rem)] gap-2 px-3 py-1.5"
+                    data-testid={`row-restore-${table}`}
+                  >
+                    <span>{tableLabels[table]}</span>
+                    <span className="text-right">{counts.added}</span>
+                    <span className="text-right text-muted-foreground">{counts.conflicting}</span>
+                    <span className={`text-right ${counts.removed > 0 ? "text-destructive" : "text-muted-foreground"}`}>
+                      {counts.removed}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+
+            {summary.conflicts.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-xs font-medium">
+                  Already in this household{totalConflicts > summary.conflicts.length && ` (first ${summary.conflicts.length} of ${totalConflicts})`}
+                </p>
+                <div className="max-h-[160px] overflow-y-auto space-y-0.5">
+                  {summary.conflicts.map((conflict, index) => (
+                    <p key={index} className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                      <Copy className="h-3 w-3 shrink-0" />
+                      <span className="truncate">{conflict.description}</span>
+                    </p>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {mode === "replace" && (
+              <p className="flex items-start gap-1.5 text-xs text-destructive">
+                <AlertTriangle className="h-3.5 w-3.5 mt-px shrink-0" />
+                Photos, attachments and reminder history aren't part of backups and are deleted along with the current records.
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="items-center gap-2">
+          {nothingToAdd && mode === "merge" && (
+            <p className="text-xs text-muted-foreground mr-auto">Everything in this backup is already here</p>
+          )}
+          <Button
+            variant={mode === "replace" ? "destructive" : "default"}
+            onClick={() => restoreMutation.mutate({ mode, data: backup })}
+            disabled={!summary || previewMutation.isPending || (nothingToAdd && mode === "merge") || restoreMutation.isPending}
+            data-testid="button-confirm-restore"
+          >
+            <DatabaseBackup className="h-4 w-4 mr-1" />
+            {restoreMutation.isPending ? "Restoring..." : mode === "replace" ? "Replace and Restore" : "Restore"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
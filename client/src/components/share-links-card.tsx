@@ -0,0 +1,242 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { authErrorMessage } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Copy, Link2, Plus, Trash2 } from "lucide-react";
+import type { Pet, PetShareLink } from "@shared/schema";
+import { addDays, format, formatDistanceToNow } from "date-fns";
+
+const durations = [
+  { days: 1, label: "1 day" },
+  { days: 3, label: "3 days" },
+  { days: 7, label: "1 week" },
+  { days: 14, label: "2 weeks" },
+  { days: 30, label: "1 month" },
+];
+
+function shareUrl(share: PetShareLink): string {
+  return `${window.location.origin}/share/${share.token}`;
+}
+
+function CreateShareDialog({ open, onOpenChange, pets }: { open: boolean; onOpenChange: (open: boolean) => void; pets: Pet[] }) {
+  const { toast } = useToast();
+  const [label, setLabel] = useState("");
+  const [petIds, setPetIds] = useState<number[]>([]);
+  const [emergencyContacts, setEmergencyContacts] = useState("");
+  const [days, setDays] = useState("7");
+
+  const reset = () => {
+    setLabel("");
+    setPetIds([]);
+    setEmergencyContacts("");
+    setDays("7");
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (): Promise<PetShareLink> => {
+      const res = await apiRequest("POST", "/api/shares", {
+        label: label || null,
+        petIds,
+        emergencyContacts: emergencyContacts || null,
+        expiresAt: addDays(new Date(), parseInt(days)).toISOString(),
+      });
+      return res.json();
+    },
+    onSuccess: async (share) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/shares"] });
+      await navigator.clipboard.writeText(shareUrl(share)).catch(() => undefined);
+      toast({ title: "Share link created", description: "The link has been copied to your clipboard" });
+      reset();
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: authErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const togglePet = (id: number) => {
+    setPetIds((prev) => (prev.includes(id) ? prev.filter((p) => p !== id) : [...prev, id]));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Share with a sitter</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-1.5">
+            <Label htmlFor="share-label">Name (optional)</Label>
+            <Input
+              id="share-label"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="e.g. Boarding at Happy Paws"
+              data-testid="input-share-label"
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label>Pets</Label>
+            <div className="flex flex-wrap gap-3">
+              {pets.map((pet) => (
+                <label key={pet.id} className="flex items-center gap-2 cursor-pointer" data-testid={`checkbox-share-pet-${pet.id}`}>
+                  <Checkbox checked={petIds.includes(pet.id)} onCheckedChange={() => togglePet(pet.id)} />
+                  <span className="text-sm">{pet.name}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="share-contacts">Emergency contacts</Label>
+            <Textarea
+              id="share-contacts"
+              value={emergencyContacts}
+              onChange={(e) => setEmergencyContacts(e.target.value)}
+              placeholder={"Sam (owner) 0400 000 000\nCity Vet Clinic 02 9000 0000"}
+              rows={3}
+              data-testid="input-share-contacts"
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label>Link stops working after</Label>
+            <Select value={days} onValueChange={setDays}>
+              <SelectTrigger data-testid="select-share-duration">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {durations.map((d) => (
+                  <SelectItem key={d.days} value={String(d.days)}>
+                    {d.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={petIds.length === 0 || createMutation.isPending}
+            data-testid="button-submit-share"
+          >
+            Create Link
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function ShareLinksCard({ canEdit }: { canEdit: boolean }) {
+  const { toast } = useToast();
+  const [showCreate, setShowCreate] = useState(false);
+
+  const { data: shares = [] } = useQuery<PetShareLink[]>({
+    queryKey: ["/api/shares"],
+  });
+
+  const { data: pets = [] } = useQuery<Pet[]>({
+    queryKey: ["/api/pets"],
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/shares/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/shares"] });
+      toast({ title: "Share link revoked" });
+    },
+  });
+
+  const copyUrl = async (share: PetShareLink) => {
+    await navigator.clipboard.writeText(shareUrl(share));
+    toast({ title: "Link copied" });
+  };
+
+  const petNames = (share: PetShareLink) =>
+    share.petIds
+      .map((id) => pets.find((p) => p.id === id)?.name)
+      .filter(Boolean)
+      .join(", ");
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center gap-2 pb-2">
+        <Link2 className="h-4 w-4 text-muted-foreground" />
+        <CardTitle className="text-base font-semibold">Sitter Links</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-xs text-muted-foreground">
+          A read-only page with feeding details, current medications, the vet and emergency contacts. No account
+          needed; the link stops working when it expires or you revoke it.
+        </p>
+
+        {shares.length > 0 && (
+          <div className="space-y-2">
+            {shares.map((share) => (
+              <div key={share.id} className="flex items-center gap-2" data-testid={`row-share-${share.id}`}>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">{share.label || petNames(share)}</p>
+                  <p className="text-xs text-muted-foreground truncate" title={format(new Date(share.expiresAt), "PPpp")}>
+                    {share.label && `${petNames(share)} · `}expires {formatDistanceToNow(new Date(share.expiresAt), { addSuffix: true })}
+                  </p>
+                </div>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => copyUrl(share)}
+                  title="Copy link"
+                  data-testid={`button-copy-share-${share.id}`}
+                >
+                  <Copy className="h-4 w-4" />
+                </Button>
+                {canEdit && (
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => revokeMutation.mutate(share.id)}
+                    title="Revoke link"
+                    data-testid={`button-revoke-share-${share.id}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {canEdit && (
+          <Button variant="outline" onClick={() => setShowCreate(true)} disabled={pets.length === 0} data-testid="button-create-share">
+            <Plus className="h-4 w-4 mr-1" />
+            New Link
+          </Button>
+        )}
+      </CardContent>
+      <CreateShareDialog open={showCreate} onOpenChange={setShowCreate} pets={pets} />
+    </Card>
+  );
+}
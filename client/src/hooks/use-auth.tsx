@@ -0,0 +1,93 @@
+import { createContext, useContext, type ReactNode } from "react";
+import { useMutation, useQuery, type UseMutationResult } from "@tanstack/react-query";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { PublicUser } from "@shared/schema";
+
+type LoginData = { username: string; password: string };
+type RegisterData = LoginData & { displayName?: string };
+
+type AuthContextValue = {
+  user: PublicUser | null;
+  isLoading: boolean;
+  loginMutation: UseMutationResult<PublicUser, Error, LoginData>;
+  registerMutation: UseMutationResult<PublicUser, Error, RegisterData>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+};
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+// apiRequest errors read "<status>: <body>"; pull out the server's message for display.
+export function authErrorMessage(error: Error): string {
+  const body = error.message.replace(/^\d{3}: /, "");
+  try {
+    const parsed = JSON.parse(body);
+    if (typeof parsed.error === "string") return parsed.error;
+    if (Array.isArray(parsed.error) && parsed.error[0]?.message) return parsed.error[0].message;
+  } catch {
+    // Not JSON; fall through to the raw text.
+  }
+  return body;
+}
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+
+  const { data: user = null, isLoading } = useQuery<PublicUser | null>({
+    queryKey: ["/api/user"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const onSignedIn = (signedIn: PublicUser) => {
+    // Drop anything cached under a previous session before loading the new one.
+    queryClient.clear();
+    queryClient.setQueryData(["/api/user"], signedIn);
+  };
+
+  const loginMutation = useMutation({
+    mutationFn: async (data: LoginData): Promise<PublicUser> => {
+      const res = await apiRequest("POST", "/api/login", data);
+      return res.json();
+    },
+    onSuccess: onSignedIn,
+    onError: (error: Error) => {
+      toast({ title: "Sign in failed", description: authErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async (data: RegisterData): Promise<PublicUser> => {
+      const res = await apiRequest("POST", "/api/register", data);
+      return res.json();
+    },
+    onSuccess: onSignedIn,
+    onError: (error: Error) => {
+      toast({ title: "Could not create account", description: authErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/logout");
+    },
+    onSuccess: () => {
+      queryClient.clear();
+      queryClient.setQueryData(["/api/user"], null);
+    },
+    onError: (error: Error) => {
+      toast({ title: authErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  return (
+    <AuthContext.Provider value={{ user, isLoading, loginMutation, registerMutation, logoutMutation }}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth(): AuthContextValue {
+  const context = useContext(AuthContext);
+  if (!context) throw new Error("useAuth must be used within an AuthProvider");
+  return context;
+}
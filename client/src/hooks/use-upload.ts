@@ -1,5 +1,7 @@
-import { useState, useCallback } from "react";
+import { useState, useCallback, useRef } from "react";
 import type { UppyFile } from "@uppy/core";
+import { uploadLimits } from "@shared/schema";
+import type { UploadKind } from "@shared/schema";
 
 interface UploadMetadata {
   name: string;
@@ -14,10 +16,31 @@ interface UploadResponse {
 }
 
 interface UseUploadOptions {
+  // Which limits apply (see `uploadLimits`); the server assumes "image" when omitted.
+  kind?: UploadKind;
   onSuccess?: (response: UploadResponse) => void;
   onError?: (error: Error) => void;
 }
 
+/**
+ * Why a file can't be uploaded as the given kind, or null if it can. The
+ * server checks the same limits; this just saves a round trip.
+ */
+export function uploadProblem(file: { type: string; size: number }, kind: UploadKind = "image"): string | null {
+  const limits = uploadLimits[kind];
+  if (!limits.contentTypes.includes(file.type.toLowerCase())) return limits.typeMessage;
+  if (file.size > limits.maxBytes) return `Files can be at most ${limits.maxBytes / (1024 * 1024)} MB`;
+  return null;
+}
+
+// The server answers with either a message or a list of Zod issues.
+async function uploadErrorMessage(response: Response, fallback: string): Promise<string> {
+  const errorData = await response.json().catch(() => ({}));
+  if (typeof errorData.error === "string") return errorData.error;
+  if (Array.isArray(errorData.error) && errorData.error[0]?.message) return errorData.error[0].message;
+  return fallback;
+}
+
 /**
  * React hook for handling file uploads with presigned URLs.
  *
@@ -52,9 +75,12 @@ interface UseUploadOptions {
  * ```
  */
 export function useUpload(options: UseUploadOptions = {}) {
+  const kind = options.kind ?? "image";
   const [isUploading, setIsUploading] = useState(false);
   const [error, setError] = useState<Error | null>(null);
   const [progress, setProgress] = useState(0);
+  // Uppy doesn't report where a PUT upload ended up, so remember each file's object path.
+  const objectPaths = useRef(new Map<string, string>());
 
   /**
    * Request a presigned URL from the backend.
@@ -62,6 +88,9 @@ export function useUpload(options: UseUploadOptions = {}) {
    */
   const requestUploadUrl = useCallback(
     async (file: File): Promise<UploadResponse> => {
+      const problem = uploadProblem(file, kind);
+      if (problem) throw new Error(problem);
+
       const response = await fetch("/api/uploads/request-url", {
         method: "POST",
         headers: {
@@ -71,17 +100,17 @@ export function useUpload(options: UseUploadOptions = {}) {
           name: file.name,
           size: file.size,
           contentType: file.type || "application/octet-stream",
+          kind,
         }),
       });
 
       if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.error || "Failed to get upload URL");
+        throw new Error(await uploadErrorMessage(response, "Failed to get upload URL"));
       }
 
       return response.json();
     },
-    []
+    [kind]
   );
 
   /**
@@ -171,26 +200,35 @@ export function useUpload(options: UseUploadOptions = {}) {
           name: file.name,
           size: file.size,
           contentType: file.type || "application/octet-stream",
+          kind,
         }),
       });
 
       if (!response.ok) {
-        throw new Error("Failed to get upload URL");
+        throw new Error(await uploadErrorMessage(response, "Failed to get upload URL"));
       }
 
       const data = await response.json();
+      objectPaths.current.set(file.id, data.objectPath);
       return {
         method: "PUT",
         url: data.uploadURL,
         headers: { "Content-Type": file.type || "application/octet-stream" },
       };
     },
-    []
+    [kind]
   );
 
+  /**
+   * The `/objects/...` path an Uppy file was uploaded to via getUploadParameters,
+   * for recording it once the ObjectUploader's onComplete fires.
+   */
+  const objectPathFor = useCallback((fileId: string) => objectPaths.current.get(fileId), []);
+
   return {
     uploadFile,
     getUploadParameters,
+    objectPathFor,
     isUploading,
     error,
     progress,
@@ -0,0 +1,11 @@
+import { useQuery } from "@tanstack/react-query";
+import type { CurrentHousehold } from "@shared/schema";
+import type { WeightUnit } from "@shared/weight";
+
+// The household's display unit for weights; entries in the other unit are converted.
+export function useWeightUnit(): WeightUnit {
+  const { data: household } = useQuery<CurrentHousehold>({
+    queryKey: ["/api/household"],
+  });
+  return household?.weightUnit ?? "lbs";
+}
@@ -0,0 +1,51 @@
+import { format, parse } from "date-fns";
+
+export const reminderOffsetOptions = [0, 15, 60, 120, 24 * 60, 2 * 24 * 60, 7 * 24 * 60];
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export function describeReminderOffset(minutes: number | null | undefined): string {
+  if (!minutes) return "At time of event";
+  if (minutes % MINUTES_PER_DAY === 0) {
+    const days = minutes / MINUTES_PER_DAY;
+    return days % 7 === 0
+      ? `${days / 7} week${days === 7 ? "" : "s"} before`
+      : `${days} day${days === 1 ? "" : "s"} before`;
+  }
+  if (minutes % 60 === 0) {
+    const hours = minutes / 60;
+    return `${hours} hour${hours === 1 ? "" : "s"} before`;
+  }
+  return `${minutes} minutes before`;
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+function fromMinutes(total: number): string {
+  const minutes = ((total % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  return `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+}
+
+// An end time earlier than the start is taken to be on the following day.
+export function durationBetween(startTime: string, endTime: string): number | null {
+  const minutes = (toMinutes(endTime) - toMinutes(startTime) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  return minutes || null;
+}
+
+export function endTimeFor(startTime: string, durationMinutes: number): string {
+  return fromMinutes(toMinutes(startTime) + durationMinutes);
+}
+
+export function formatTime(time: string): string {
+  return format(parse(time.slice(0, 5), "HH:mm", new Date()), "h:mm a");
+}
+
+export function describeEventTime(event: { startTime: string | null; durationMinutes: number | null }): string | null {
+  if (!event.startTime) return null;
+  const start = formatTime(event.startTime);
+  if (!event.durationMinutes) return start;
+  return `${start} – ${formatTime(endTimeFor(event.startTime, event.durationMinutes))}`;
+}
@@ -0,0 +1,28 @@
+import { format, parseISO } from "date-fns";
+import type { RecurrenceRule } from "@shared/schema";
+
+export const weekdayLabels = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const frequencyUnits: Record<RecurrenceRule["frequency"], string> = {
+  daily: "day",
+  weekly: "week",
+  monthly: "month",
+  yearly: "year",
+};
+
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const unit = frequencyUnits[rule.frequency];
+  const interval = rule.interval || 1;
+  let text = interval === 1 ? `Every ${unit}` : `Every ${interval} ${unit}s`;
+
+  if (rule.frequency === "weekly" && rule.byWeekday?.length) {
+    const days = Array.from(new Set(rule.byWeekday)).sort((a, b) => a - b);
+    text += ` on ${days.map((d) => weekdayLabels[d]).join(", ")}`;
+  }
+  if (rule.count) {
+    text += `, ${rule.count} times`;
+  } else if (rule.until) {
+    text += `, until ${format(parseISO(rule.until), "MMM d, yyyy")}`;
+  }
+  return text;
+}
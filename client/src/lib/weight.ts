@@ -0,0 +1,34 @@
+import { format, parseISO } from "date-fns";
+import type { WeightEntry } from "@shared/schema";
+import { convertWeight } from "@shared/weight";
+import type { WeightUnit } from "@shared/weight";
+
+// A change this big between weigh-ins is more often a typo or the wrong unit
+// than real; catches 150 for 15 and kg entered as lbs alike.
+export const WEIGHT_OUTLIER_RATIO = 0.25;
+
+/** The latest entry on or before `date`, ignoring `excludeId` (the entry being edited). */
+export function previousWeightEntry(entries: WeightEntry[], date: string, excludeId?: number): WeightEntry | undefined {
+  return entries
+    .filter((entry) => entry.id !== excludeId && entry.recordedAt <= date)
+    .sort((a, b) => a.recordedAt.localeCompare(b.recordedAt) || a.id - b.id)
+    .pop();
+}
+
+/** Relative change from `previous`, compared in the same unit. */
+export function weightChange(weight: number, unit: WeightUnit, previous: Pick<WeightEntry, "weight" | "unit">): number {
+  const before = convertWeight(previous.weight, previous.unit, unit);
+  return before > 0 ? (weight - before) / before : 0;
+}
+
+/** A warning when `weight` is far from the previous weigh-in, otherwise null. */
+export function describeWeightOutlier(weight: number, unit: WeightUnit, previous: WeightEntry | undefined): string | null {
+  if (!previous || !(weight > 0)) return null;
+  const change = weightChange(weight, unit, previous);
+  if (Math.abs(change) <= WEIGHT_OUTLIER_RATIO) return null;
+  const percent = Math.round(Math.abs(change) * 100);
+  return `${percent}% ${change > 0 ? "more" : "less"} than the ${previous.weight} ${previous.unit} on ${format(
+    parseISO(previous.recordedAt),
+    "MMM d, yyyy"
+  )}. Check the number and unit.`;
+}
@@ -0,0 +1,159 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useAuth } from "@/hooks/use-auth";
+import { PawPrint } from "lucide-react";
+
+function LoginForm() {
+  const { loginMutation } = useAuth();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    loginMutation.mutate({ username, password });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-1.5">
+        <Label htmlFor="login-username">Username</Label>
+        <Input
+          id="login-username"
+          autoComplete="username"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          data-testid="input-login-username"
+        />
+      </div>
+      <div className="space-y-1.5">
+        <Label htmlFor="login-password">Password</Label>
+        <Input
+          id="login-password"
+          type="password"
+          autoComplete="current-password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          data-testid="input-login-password"
+        />
+      </div>
+      <Button
+        type="submit"
+        className="w-full"
+        disabled={!username || !password || loginMutation.isPending}
+        data-testid="button-login"
+      >
+        {loginMutation.isPending ? "Signing in..." : "Sign In"}
+      </Button>
+    </form>
+  );
+}
+
+function RegisterForm() {
+  const { registerMutation } = useAuth();
+  const [displayName, setDisplayName] = useState("");
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+
+  const mismatch = confirmPassword.length > 0 && password !== confirmPassword;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    registerMutation.mutate({ username, password, displayName: displayName || undefined });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-1.5">
+        <Label htmlFor="register-display-name">Your name</Label>
+        <Input
+          id="register-display-name"
+          autoComplete="name"
+          placeholder="Shown on reminders you complete"
+          value={displayName}
+          onChange={(e) => setDisplayName(e.target.value)}
+          data-testid="input-register-display-name"
+        />
+      </div>
+      <div className="space-y-1.5">
+        <Label htmlFor="register-username">Username *</Label>
+        <Input
+          id="register-username"
+          autoComplete="username"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          data-testid="input-register-username"
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1.5">
+          <Label htmlFor="register-password">Password *</Label>
+          <Input
+            id="register-password"
+            type="password"
+            autoComplete="new-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            data-testid="input-register-password"
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="register-confirm-password">Confirm *</Label>
+          <Input
+            id="register-confirm-password"
+            type="password"
+            autoComplete="new-password"
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+            data-testid="input-register-confirm-password"
+          />
+        </div>
+      </div>
+      <p className={mismatch ? "text-xs text-destructive" : "text-xs text-muted-foreground"}>
+        {mismatch ? "Passwords don't match" : "At least 8 characters"}
+      </p>
+      <Button
+        type="submit"
+        className="w-full"
+        disabled={!username || !password || password !== confirmPassword || registerMutation.isPending}
+        data-testid="button-register"
+      >
+        {registerMutation.isPending ? "Creating account..." : "Create Account"}
+      </Button>
+    </form>
+  );
+}
+
+export default function AuthPage() {
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-muted/30 p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="items-center text-center">
+          <div className="flex h-10 w-10 items-center justify-center rounded-md bg-primary mb-2">
+            <PawPrint className="h-5 w-5 text-primary-foreground" />
+          </div>
+          <CardTitle data-testid="text-auth-title">PetCare</CardTitle>
+          <CardDescription>Sign in to keep track of your pets' health</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Tabs defaultValue="login">
+            <TabsList className="grid w-full grid-cols-2 mb-4">
+              <TabsTrigger value="login" data-testid="tab-login">Sign In</TabsTrigger>
+              <TabsTrigger value="register" data-testid="tab-register">Create Account</TabsTrigger>
+            </TabsList>
+            <TabsContent value="login">
+              <LoginForm />
+            </TabsContent>
+            <TabsContent value="register">
+              <RegisterForm />
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,562 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatTime } from "@/lib/event-time";
+import { EventFormDialog } from "@/components/event-form-dialog";
+import { cn } from "@/lib/utils";
+import { ChevronLeft, ChevronRight, Plus, Shield, Pill } from "lucide-react";
+import { todayInTimeZone } from "@shared/timezone";
+import type { EventOccurrence, Household, Medication, Pet, Vaccination } from "@shared/schema";
+import {
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameMonth,
+  parseISO,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+
+const categoryColors: Record<string, string> = {
+  vet_visit: "hsl(var(--chart-1))",
+  medication: "hsl(var(--chart-2))",
+  vaccination: "hsl(var(--chart-3))",
+  appointment: "hsl(var(--chart-4))",
+};
+
+const HOUR_HEIGHT = 40;
+const SNAP_MINUTES = 15;
+const DEFAULT_EVENT_MINUTES = 30;
+
+type CalendarView = "month" | "week";
+
+type CalendarEntry = {
+  key: string;
+  kind: "event" | "vaccination" | "medication";
+  title: string;
+  category: string;
+  date: string;
+  startTime: string | null;
+  durationMinutes: number | null;
+  event?: EventOccurrence;
+  petId?: number;
+};
+
+function toDateString(date: Date): string {
+  return format(date, "yyyy-MM-dd");
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+function minutesToTime(total: number): string {
+  return `${String(Math.floor(total / 60)).padStart(2, "0")}:${String(total % 60).padStart(2, "0")}`;
+}
+
+function buildEntries(
+  events: EventOccurrence[],
+  vaccinations: Vaccination[],
+  medications: Medication[],
+  pets: Pet[],
+  range: { from: string; to: string }
+): CalendarEntry[] {
+  const petNames = new Map(pets.map((p) => [p.id, p.name]));
+  const entries: CalendarEntry[] = events.map((event) => ({
+    key: `event-${event.id}-${event.eventDate}`,
+    kind: "event",
+    title: event.title,
+    category: event.category,
+    date: event.eventDate,
+    startTime: event.startTime,
+    durationMinutes: event.durationMinutes,
+    event,
+  }));
+
+  // Only the latest dose of each vaccine carries the next due date.
+  const latestDoses = new Set<string>();
+  for (const vax of vaccinations) {
+    const doseKey = `${vax.petId}:${vax.name.trim().toLowerCase()}`;
+    if (latestDoses.has(doseKey)) continue;
+    latestDoses.add(doseKey);
+    if (!vax.nextDueDate || vax.nextDueDate < range.from || vax.nextDueDate > range.to) continue;
+    entries.push({
+      key: `vaccination-${vax.id}`,
+      kind: "vaccination",
+      title: `${petNames.get(vax.petId) ?? "Pet"}: ${vax.name} due`,
+      category: "vaccination",
+      date: vax.nextDueDate,
+      startTime: null,
+      durationMinutes: null,
+      petId: vax.petId,
+    });
+  }
+
+  // Courses are drawn on every day they run, clipped to the visible range.
+  for (const med of medications) {
+    const first = med.startDate > range.from ? med.startDate : range.from;
+    const courseEnd = med.endDate ?? med.startDate;
+    const last = courseEnd < range.to ? courseEnd : range.to;
+    if (first > last) continue;
+    for (const day of eachDayOfInterval({ start: parseISO(first), end: parseISO(last) })) {
+      const date = toDateString(day);
+      entries.push({
+        key: `medication-${med.id}-${date}`,
+        kind: "medication",
+        title: `${petNames.get(med.petId) ?? "Pet"}: ${med.name}`,
+        category: "medication",
+        date,
+        startTime: null,
+        durationMinutes: null,
+        petId: med.petId,
+      });
+    }
+  }
+
+  return entries.sort((a, b) => (a.startTime ?? "").localeCompare(b.startTime ?? ""));
+}
+
+function EntryChip({
+  entry,
+  compact,
+  onEdit,
+}: {
+  entry: CalendarEntry;
+  compact?: boolean;
+  onEdit: (event: EventOccurrence) => void;
+}) {
+  const color = categoryColors[entry.category] || "hsl(var(--muted-foreground))";
+  const Icon = entry.kind === "vaccination" ? Shield : entry.kind === "medication" ? Pill : null;
+  const draggable = entry.kind === "event";
+  const cancelled = entry.event?.status === "cancelled";
+
+  const chip = (
+    <div
+      draggable={draggable}
+      onDragStart={(e) => {
+        e.dataTransfer.setData("text/plain", entry.key);
+        e.dataTransfer.effectAllowed = "move";
+      }}
+      onClick={(e) => {
+        if (!entry.event) return;
+        e.stopPropagation();
+        onEdit(entry.event);
+      }}
+      className={cn(
+        "flex items-center gap-1 truncate rounded px-1.5 py-0.5 text-xs",
+        draggable && "cursor-grab active:cursor-grabbing",
+        cancelled && "line-through opacity-60",
+        compact && "h-full items-start"
+      )}
+      style={{ backgroundColor: color + "22", color, borderLeft: `3px solid ${color}` }}
+      title={entry.title}
+      data-testid={`calendar-entry-${entry.key}`}
+    >
+      {Icon && <Icon className="h-3 w-3 shrink-0" />}
+      {entry.startTime && !compact && <span className="shrink-0 font-medium">{formatTime(entry.startTime)}</span>}
+      <span className="truncate">{entry.title}</span>
+    </div>
+  );
+
+  if (entry.petId) {
+    return (
+      <Link href={`/pets/${entry.petId}`} onClick={(e) => e.stopPropagation()}>
+        {chip}
+      </Link>
+    );
+  }
+  return chip;
+}
+
+function MonthView({
+  days,
+  month,
+  today,
+  entriesByDate,
+  onCreate,
+  onDropEntry,
+  onEdit,
+}: {
+  days: Date[];
+  month: Date;
+  today: string;
+  entriesByDate: Map<string, CalendarEntry[]>;
+  onCreate: (date: string) => void;
+  onDropEntry: (key: string, date: string, startTime?: string) => void;
+  onEdit: (event: EventOccurrence) => void;
+}) {
+  const [dragOver, setDragOver] = useState<string | null>(null);
+
+  return (
+    <div className="grid grid-cols-7 border-l border-t rounded-md overflow-hidden">
+      {days.slice(0, 7).map((day) => (
+        <div key={day.toISOString()} className="border-r border-b bg-muted/40 px-2 py-1 text-xs font-medium text-muted-foreground">
+          {format(day, "EEE")}
+        </div>
+      ))}
+      {days.map((day) => {
+        const date = toDateString(day);
+        const dayEntries = entriesByDate.get(date) || [];
+        return (
+          <div
+            key={date}
+            onClick={() => onCreate(date)}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setDragOver(date);
+            }}
+            onDragLeave={() => setDragOver(null)}
+            onDrop={(e) => {
+              e.preventDefault();
+              setDragOver(null);
+              onDropEntry(e.dataTransfer.getData("text/plain"), date);
+            }}
+            className={cn(
+              "min-h-[96px] border-r border-b p-1 space-y-0.5 cursor-pointer hover:bg-muted/30",
+              !isSameMonth(day, month) && "bg-muted/20 text-muted-foreground",
+              dragOver === date && "bg-primary/10"
+            )}
+            data-testid={`calendar-day-${date}`}
+          >
+            <div
+              className={cn(
+                "flex h-6 w-6 items-center justify-center rounded-full text-xs",
+                date === today && "bg-primary text-primary-foreground font-semibold"
+              )}
+            >
+              {format(day, "d")}
+            </div>
+            {dayEntries.slice(0, 3).map((entry) => (
+              <EntryChip key={entry.key} entry={entry} onEdit={onEdit} />
+            ))}
+            {dayEntries.length > 3 && (
+              <p className="px-1 text-xs text-muted-foreground">+{dayEntries.length - 3} more</p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+// Assigns overlapping timed entries to side-by-side lanes.
+function layoutDay(entries: CalendarEntry[]): { entry: CalendarEntry; lane: number; lanes: number }[] {
+  const laneEnds: number[] = [];
+  const placed = entries.map((entry) => {
+    const start = toMinutes(entry.startTime!);
+    const end = start + (entry.durationMinutes || DEFAULT_EVENT_MINUTES);
+    let lane = laneEnds.findIndex((laneEnd) => laneEnd <= start);
+    if (lane === -1) lane = laneEnds.length;
+    laneEnds[lane] = end;
+    return { entry, lane };
+  });
+  return placed.map((p) => ({ ...p, lanes: laneEnds.length }));
+}
+
+function WeekView({
+  days,
+  today,
+  entriesByDate,
+  onCreate,
+  onDropEntry,
+  onEdit,
+}: {
+  days: Date[];
+  today: string;
+  entriesByDate: Map<string, CalendarEntry[]>;
+  onCreate: (date: string, startTime?: string) => void;
+  onDropEntry: (key: string, date: string, startTime?: string) => void;
+  onEdit: (event: EventOccurrence) => void;
+}) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (scrollRef.current) scrollRef.current.scrollTop = 7 * HOUR_HEIGHT;
+  }, []);
+
+  const timeAt = (e: React.MouseEvent<HTMLDivElement>) => {
+    const offset = e.clientY - e.currentTarget.getBoundingClientRect().top;
+    const minutes = Math.floor((offset / HOUR_HEIGHT) * 60 / SNAP_MINUTES) * SNAP_MINUTES;
+    return minutesToTime(Math.min(Math.max(minutes, 0), 24 * 60 - SNAP_MINUTES));
+  };
+
+  return (
+    <div className="border rounded-md overflow-hidden">
+      <div className="grid grid-cols-[56px_repeat(7,1fr)] border-b bg-muted/40">
+        <div />
+        {days.map((day) => {
+          const date = toDateString(day);
+          return (
+            <div key={date} className="border-l px-2 py-1 text-xs">
+              <span className="text-muted-foreground">{format(day, "EEE")}</span>{" "}
+              <span className={cn("font-semibold", date === today && "text-primary")}>{format(day, "d")}</span>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="grid grid-cols-[56px_repeat(7,1fr)] border-b">
+        <div className="px-1 py-1 text-[10px] text-muted-foreground">All day</div>
+        {days.map((day) => {
+          const date = toDateString(day);
+          const allDay = (entriesByDate.get(date) || []).filter((entry) => !entry.startTime);
+          return (
+            <div
+              key={date}
+              onClick={() => onCreate(date)}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={(e) => {
+                e.preventDefault();
+                onDropEntry(e.dataTransfer.getData("text/plain"), date);
+              }}
+              className="min-h-[36px] border-l p-1 space-y-0.5 cursor-pointer"
+              data-testid={`calendar-allday-${date}`}
+            >
+              {allDay.map((entry) => (
+                <EntryChip key={entry.key} entry={entry} onEdit={onEdit} />
+              ))}
+            </div>
+          );
+        })}
+      </div>
+
+      <div ref={scrollRef} className="max-h-[600px] overflow-y-auto">
+        <div className="grid grid-cols-[56px_repeat(7,1fr)]">
+          <div>
+            {Array.from({ length: 24 }, (_, hour) => (
+              <div key={hour} className="pr-1 text-right text-[10px] text-muted-foreground" style={{ height: HOUR_HEIGHT }}>
+                {hour > 0 && format(new Date(2000, 0, 1, hour), "h a")}
+              </div>
+            ))}
+          </div>
+          {days.map((day) => {
+            const date = toDateString(day);
+            const timed = (entriesByDate.get(date) || []).filter((entry) => entry.startTime);
+            return (
+              <div
+                key={date}
+                onClick={(e) => onCreate(date, timeAt(e))}
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  onDropEntry(e.dataTransfer.getData("text/plain"), date, timeAt(e));
+                }}
+                className={cn("relative border-l cursor-pointer", date === today && "bg-primary/5")}
+                style={{ height: 24 * HOUR_HEIGHT }}
+                data-testid={`calendar-week-column-${date}`}
+              >
+                {Array.from({ length: 24 }, (_, hour) => (
+                  <div key={hour} className="border-b border-dashed border-muted" style={{ height: HOUR_HEIGHT }} />
+                ))}
+                {layoutDay(timed).map(({ entry, lane, lanes }) => (
+                  <div
+                    key={entry.key}
+                    className="absolute px-0.5"
+                    style={{
+                      top: (toMinutes(entry.startTime!) / 60) * HOUR_HEIGHT,
+                      height: (Math.max(entry.durationMinutes || DEFAULT_EVENT_MINUTES, 20) / 60) * HOUR_HEIGHT,
+                      left: `${(lane / lanes) * 100}%`,
+                      width: `${100 / lanes}%`,
+                    }}
+                  >
+                    <EntryChip entry={entry} compact onEdit={onEdit} />
+                  </div>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function CalendarPage() {
+  const [view, setView] = useState<CalendarView>("month");
+  const [cursor, setCursor] = useState(() => new Date());
+  const [createAt, setCreateAt] = useState<{ date: string; startTime?: string } | null>(null);
+  const [editEvent, setEditEvent] = useState<EventOccurrence | null>(null);
+  const { toast } = useToast();
+
+  const days =
+    view === "month"
+      ? eachDayOfInterval({ start: startOfWeek(startOfMonth(cursor)), end: endOfWeek(endOfMonth(cursor)) })
+      : eachDayOfInterval({ start: startOfWeek(cursor), end: endOfWeek(cursor) });
+  const range = { from: toDateString(days[0]), to: toDateString(days[days.length - 1]) };
+
+  const { data: events = [] } = useQuery<EventOccurrence[]>({
+    queryKey: ["/api/events", range],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/events?from=${range.from}&to=${range.to}`);
+      return res.json();
+    },
+  });
+
+  const { data: vaccinations = [] } = useQuery<Vaccination[]>({
+    queryKey: ["/api/vaccinations"],
+  });
+
+  const { data: medications = [] } = useQuery<Medication[]>({
+    queryKey: ["/api/medications"],
+  });
+
+  const { data: pets = [] } = useQuery<Pet[]>({
+    queryKey: ["/api/pets"],
+  });
+
+  const { data: household } = useQuery<Household>({
+    queryKey: ["/api/household"],
+  });
+  const today = household ? todayInTimeZone(household.timezone) : toDateString(new Date());
+
+  const entries = buildEntries(events, vaccinations, medications, pets, range);
+  const entriesByDate = new Map<string, CalendarEntry[]>();
+  for (const entry of entries) {
+    entriesByDate.set(entry.date, [...(entriesByDate.get(entry.date) || []), entry]);
+  }
+
+  const rescheduleMutation = useMutation({
+    mutationFn: ({ event, eventDate, startTime }: { event: EventOccurrence; eventDate: string; startTime?: string }) =>
+      apiRequest("PATCH", `/api/events/${event.id}`, {
+        eventDate,
+        ...(startTime && { startTime }),
+        // Moving one instance of a series detaches it rather than shifting the whole series.
+        ...(event.recurrence && { scope: "occurrence", occurrenceDate: event.eventDate }),
+      }),
+    onSuccess: (_, { event, eventDate, startTime }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/events"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/pets"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reminders"] });
+      toast({
+        title: `${event.title} moved to ${format(parseISO(eventDate), "MMM d")}${startTime ? ` at ${formatTime(startTime)}` : ""}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleDrop = (key: string, date: string, startTime?: string) => {
+    const entry = entries.find((e) => e.key === key);
+    if (!entry?.event) return;
+    const timeChanged = !!startTime && startTime !== entry.event.startTime?.slice(0, 5);
+    if (date === entry.event.eventDate && !timeChanged) return;
+    rescheduleMutation.mutate({ event: entry.event, eventDate: date, startTime: timeChanged ? startTime : undefined });
+  };
+
+  const step = (direction: 1 | -1) => {
+    setCursor((current) => (view === "month" ? addMonths(current, direction) : addWeeks(current, direction)));
+  };
+
+  const title =
+    view === "month"
+      ? format(cursor, "MMMM yyyy")
+      : `${format(days[0], "MMM d")} – ${format(days[days.length - 1], "MMM d, yyyy")}`;
+
+  return (
+    <div className="p-4 md:p-6 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold" data-testid="text-calendar-title">Calendar</h1>
+          <p className="text-sm text-muted-foreground">
+            Drag an event to reschedule it, or click a day to log a new one
+          </p>
+        </div>
+        <Button onClick={() => setCreateAt({ date: today })} data-testid="button-calendar-log-event">
+          <Plus className="h-4 w-4 mr-1" />
+          Log Event
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="p-4 space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="flex items-center gap-1">
+              <Button variant="outline" size="icon" onClick={() => step(-1)} data-testid="button-calendar-prev">
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setCursor(parseISO(today))} data-testid="button-calendar-today">
+                Today
+              </Button>
+              <Button variant="outline" size="icon" onClick={() => step(1)} data-testid="button-calendar-next">
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+              <h2 className="ml-2 text-lg font-semibold" data-testid="text-calendar-range">{title}</h2>
+            </div>
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              size="sm"
+              value={view}
+              onValueChange={(value) => value && setView(value as CalendarView)}
+              data-testid="toggle-calendar-view"
+            >
+              <ToggleGroupItem value="month">Month</ToggleGroupItem>
+              <ToggleGroupItem value="week">Week</ToggleGroupItem>
+            </ToggleGroup>
+          </div>
+
+          {view === "month" ? (
+            <MonthView
+              days={days}
+              month={cursor}
+              today={today}
+              entriesByDate={entriesByDate}
+              onCreate={(date) => setCreateAt({ date })}
+              onDropEntry={handleDrop}
+              onEdit={setEditEvent}
+            />
+          ) : (
+            <WeekView
+              days={days}
+              today={today}
+              entriesByDate={entriesByDate}
+              onCreate={(date, startTime) => setCreateAt({ date, startTime })}
+              onDropEntry={handleDrop}
+              onEdit={setEditEvent}
+            />
+          )}
+
+          <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+            {Object.entries({ vet_visit: "Vet Visit", medication: "Medication", vaccination: "Vaccination", appointment: "Appointment" }).map(
+              ([key, label]) => (
+                <span key={key} className="flex items-center gap-1">
+                  <span className="h-2.5 w-2.5 rounded-sm" style={{ backgroundColor: categoryColors[key] }} />
+                  {label}
+                </span>
+              )
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <EventFormDialog
+        key={`calendar-event-${createAt?.date}-${createAt?.startTime}`}
+        open={!!createAt}
+        onOpenChange={(open) => !open && setCreateAt(null)}
+        pets={pets}
+        defaultDate={createAt?.date}
+        defaultStartTime={createAt?.startTime}
+      />
+
+      {editEvent && (
+        <EventFormDialog
+          key={`calendar-edit-${editEvent.id}-${editEvent.eventDate}`}
+          open={!!editEvent}
+          onOpenChange={(open) => !open && setEditEvent(null)}
+          pets={pets}
+          editEvent={editEvent}
+        />
+      )}
+    </div>
+  );
+}
@@ -28,8 +28,10 @@ import {
   Bar,
   Legend,
 } from "recharts";
-import type { Pet, EventWithPets, WeightEntry } from "@shared/schema";
-import { format, parseISO, isAfter, isBefore, addDays } from "date-fns";
+import type { Pet, EventOccurrence, WeightEntry, Reminder } from "@shared/schema";
+import { convertWeight, roundWeight } from "@shared/weight";
+import { useWeightUnit } from "@/hooks/use-weight-unit";
+import { format, parseISO } from "date-fns";
 
 function StatCard({
   title,
@@ -123,17 +125,22 @@ export default function Dashboard() {
     queryKey: ["/api/pets"],
   });
 
-  const { data: events = [], isLoading: eventsLoading } = useQuery<EventWithPets[]>({
+  const { data: events = [], isLoading: eventsLoading } = useQuery<EventOccurrence[]>({
     queryKey: ["/api/events"],
   });
 
+  const { data: reminders = [], isLoading: remindersLoading } = useQuery<Reminder[]>({
+    queryKey: ["/api/reminders"],
+  });
+
   const { data: allWeights = [], isLoading: weightsLoading } = useQuery<
     (WeightEntry & { petName: string })[]
   >({
     queryKey: ["/api/weight-entries"],
   });
+  const weightUnit = useWeightUnit();
 
-  const isLoading = petsLoading || eventsLoading || weightsLoading;
+  const isLoading = petsLoading || eventsLoading || remindersLoading || weightsLoading;
 
   if (isLoading) {
     return (
@@ -143,19 +150,17 @@ export default function Dashboard() {
     );
   }
 
-  const today = new Date();
-  const upcomingEvents = events.filter(
-    (e) => isAfter(parseISO(e.eventDate), today) && isBefore(parseISO(e.eventDate), addDays(today, 30))
-  );
-  const overdueReminders = events.filter(
-    (e) => e.reminderDate && isBefore(parseISO(e.reminderDate), today) && isAfter(parseISO(e.eventDate), today)
+  const upcomingEvents = reminders.filter(
+    (r) => r.source === "event" && r.daysUntil > 0 && r.daysUntil <= 30
   );
-  const recentEvents = [...events]
-    .filter((e) => isBefore(parseISO(e.eventDate), today))
+  const activeReminders = reminders.filter((r) => r.active);
+  // Only events that actually happened count; scheduled, cancelled and missed ones are left out.
+  const completedEvents = events.filter((e) => e.status === "completed");
+  const recentEvents = [...completedEvents]
     .sort((a, b) => parseISO(b.eventDate).getTime() - parseISO(a.eventDate).getTime())
     .slice(0, 5);
 
-  const categoryCounts = events.reduce<Record<string, number>>((acc, e) => {
+  const categoryCounts = completedEvents.reduce<Record<string, number>>((acc, e) => {
     acc[e.category] = (acc[e.category] || 0) + 1;
     return acc;
   }, {});
@@ -171,7 +176,7 @@ export default function Dashboard() {
     .reduce<Record<string, Record<string, number>>>((acc, w) => {
       const dateKey = format(parseISO(w.recordedAt), "MMM dd");
       if (!acc[dateKey]) acc[dateKey] = { date: dateKey } as any;
-      acc[dateKey][w.petName] = w.weight;
+      acc[dateKey][w.petName] = roundWeight(convertWeight(w.weight, w.unit, weightUnit));
       return acc;
     }, {});
 
@@ -227,15 +232,15 @@ export default function Dashboard() {
         />
         <StatCard
           title="Active Reminders"
-          value={overdueReminders.length}
-          subtitle={overdueReminders.length > 0 ? "Needs attention" : "All caught up"}
+          value={activeReminders.length}
+          subtitle={activeReminders.length > 0 ? "Needs attention" : "All caught up"}
           icon={Bell}
           color="#f59e0b"
         />
         <StatCard
-          title="Total Events"
-          value={events.length}
-          subtitle="Logged to date"
+          title="Completed Events"
+          value={completedEvents.length}
+          subtitle="Completed to date"
           icon={Activity}
           color="#8b5cf6"
         />
@@ -294,6 +299,7 @@ export default function Dashboard() {
                       borderRadius: "6px",
                       fontSize: "12px",
                     }}
+                    formatter={(value, name) => [`${value} ${weightUnit}`, name]}
                   />
                   <Legend wrapperStyle={{ fontSize: "12px" }} />
                   {petNames.map((name, i) => (
@@ -435,7 +441,7 @@ export default function Dashboard() {
                   const CatIcon = categoryIcons[event.category] || CalendarDays;
                   return (
                     <div
-                      key={event.id}
+                      key={`${event.id}-${event.eventDate}`}
                       className="flex items-start gap-3 p-2 rounded-md"
                       data-testid={`card-event-${event.id}`}
                     >
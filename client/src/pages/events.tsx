@@ -4,22 +4,6 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Input } from "@/components/ui/input";
-import { Label } from "@/components/ui/label";
-import { Checkbox } from "@/components/ui/checkbox";
-import {
-  Dialog,
-  DialogContent,
-  DialogHeader,
-  DialogTitle,
-} from "@/components/ui/dialog";
-import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from "@/components/ui/select";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -30,9 +14,15 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { RichTextEditor } from "@/components/rich-text-editor";
+import { describeRecurrence } from "@/lib/recurrence";
+import { describeEventTime } from "@/lib/event-time";
+import { EventFormDialog } from "@/components/event-form-dialog";
+import { ImportEventsDialog } from "@/components/import-events-dialog";
+import { EventStatusBadge, EventStatusMenu, eventStatusLabels } from "@/components/event-status-menu";
 import {
   Plus,
   CalendarDays,
@@ -42,8 +32,13 @@ import {
   Filter,
   Trash2,
   MapPin,
+  Edit,
+  Repeat,
+  CheckCircle2,
+  Clock,
+  FileUp,
 } from "lucide-react";
-import type { Pet, EventWithPets } from "@shared/schema";
+import type { Pet, EventOccurrence, EventEditScope, EventStatus } from "@shared/schema";
 import { format, parseISO } from "date-fns";
 
 const categoryLabels: Record<string, string> = {
@@ -67,193 +62,17 @@ const categoryColors: Record<string, string> = {
   appointment: "hsl(var(--chart-4))",
 };
 
-function EventFormDialog({
-  open,
-  onOpenChange,
-  pets,
-}: {
-  open: boolean;
-  onOpenChange: (open: boolean) => void;
-  pets: Pet[];
-}) {
-  const { toast } = useToast();
-  const [title, setTitle] = useState("");
-  const [category, setCategory] = useState<string>("vet_visit");
-  const [eventDate, setEventDate] = useState(format(new Date(), "yyyy-MM-dd"));
-  const [reminderDate, setReminderDate] = useState("");
-  const [location, setLocation] = useState("");
-  const [notes, setNotes] = useState("");
-  const [selectedPetIds, setSelectedPetIds] = useState<number[]>([]);
-
-  const mutation = useMutation({
-    mutationFn: (data: Record<string, unknown>) =>
-      apiRequest("POST", "/api/events", data),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/events"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/pets"] });
-      toast({ title: "Event logged successfully" });
-      onOpenChange(false);
-      resetForm();
-    },
-    onError: (error: Error) => {
-      toast({ title: error.message, variant: "destructive" });
-    },
-  });
-
-  const resetForm = () => {
-    setTitle("");
-    setCategory("vet_visit");
-    setEventDate(format(new Date(), "yyyy-MM-dd"));
-    setReminderDate("");
-    setLocation("");
-    setNotes("");
-    setSelectedPetIds([]);
-  };
-
-  const togglePet = (petId: number) => {
-    setSelectedPetIds((prev) =>
-      prev.includes(petId) ? prev.filter((id) => id !== petId) : [...prev, petId]
-    );
-  };
-
-  return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
-        <DialogHeader>
-          <DialogTitle>Log New Event</DialogTitle>
-        </DialogHeader>
-        <form
-          onSubmit={(e) => {
-            e.preventDefault();
-            if (selectedPetIds.length === 0) {
-              toast({ title: "Please select at least one pet", variant: "destructive" });
-              return;
-            }
-            mutation.mutate({
-              title,
-              category,
-              eventDate,
-              reminderDate: reminderDate || null,
-              location: location || null,
-              notes: notes || null,
-              petIds: selectedPetIds,
-            });
-          }}
-          className="space-y-4"
-        >
-          <div className="space-y-1.5">
-            <Label htmlFor="event-title">Title *</Label>
-            <Input
-              id="event-title"
-              value={title}
-              onChange={(e) => setTitle(e.target.value)}
-              placeholder="e.g. Annual checkup"
-              required
-              data-testid="input-event-title"
-            />
-          </div>
-
-          <div className="grid grid-cols-2 gap-3">
-            <div className="space-y-1.5">
-              <Label>Category *</Label>
-              <Select value={category} onValueChange={setCategory}>
-                <SelectTrigger data-testid="select-event-category">
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="vet_visit">Vet Visit</SelectItem>
-                  <SelectItem value="medication">Medication</SelectItem>
-                  <SelectItem value="vaccination">Vaccination</SelectItem>
-                  <SelectItem value="appointment">Appointment</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-            <div className="space-y-1.5">
-              <Label htmlFor="event-date">Event Date *</Label>
-              <Input
-                id="event-date"
-                type="date"
-                value={eventDate}
-                onChange={(e) => setEventDate(e.target.value)}
-                required
-                data-testid="input-event-date"
-              />
-            </div>
-          </div>
-
-          <div className="grid grid-cols-2 gap-3">
-            <div className="space-y-1.5">
-              <Label htmlFor="reminder-date">Reminder Date</Label>
-              <Input
-                id="reminder-date"
-                type="date"
-                value={reminderDate}
-                onChange={(e) => setReminderDate(e.target.value)}
-                data-testid="input-reminder-date"
-              />
-            </div>
-            <div className="space-y-1.5">
-              <Label htmlFor="event-location">Location</Label>
-              <Input
-                id="event-location"
-                value={location}
-                onChange={(e) => setLocation(e.target.value)}
-                placeholder="e.g. City Vet Clinic"
-                data-testid="input-event-location"
-              />
-            </div>
-          </div>
-
-          <div className="space-y-1.5">
-            <Label>Pets *</Label>
-            <div className="grid grid-cols-2 gap-2">
-              {pets.map((pet) => (
-                <label
-                  key={pet.id}
-                  className="flex items-center gap-2 p-2 rounded-md border cursor-pointer hover-elevate"
-                  data-testid={`checkbox-pet-${pet.id}`}
-                >
-                  <Checkbox
-                    checked={selectedPetIds.includes(pet.id)}
-                    onCheckedChange={() => togglePet(pet.id)}
-                  />
-                  <span className="text-sm">{pet.name}</span>
-                </label>
-              ))}
-            </div>
-            {pets.length === 0 && (
-              <p className="text-sm text-muted-foreground">
-                No pets available. Add a pet first.
-              </p>
-            )}
-          </div>
-
-          <div className="space-y-1.5">
-            <Label>Notes</Label>
-            <RichTextEditor content={notes} onChange={setNotes} placeholder="Add detailed notes about this event..." />
-          </div>
-
-          <Button
-            type="submit"
-            className="w-full"
-            disabled={mutation.isPending}
-            data-testid="button-submit-event"
-          >
-            {mutation.isPending ? "Saving..." : "Log Event"}
-          </Button>
-        </form>
-      </DialogContent>
-    </Dialog>
-  );
-}
-
 export default function EventsPage() {
   const [showDialog, setShowDialog] = useState(false);
+  const [showImport, setShowImport] = useState(false);
   const [filterCategory, setFilterCategory] = useState<string>("all");
-  const [deleteEventId, setDeleteEventId] = useState<number | null>(null);
+  const [filterStatus, setFilterStatus] = useState<EventStatus | "all">("all");
+  const [deletingEvent, setDeletingEvent] = useState<EventOccurrence | null>(null);
+  const [deleteScope, setDeleteScope] = useState<EventEditScope>("occurrence");
+  const [editingEvent, setEditingEvent] = useState<EventOccurrence | undefined>();
   const { toast } = useToast();
 
-  const { data: events = [], isLoading: eventsLoading } = useQuery<EventWithPets[]>({
+  const { data: events = [], isLoading: eventsLoading } = useQuery<EventOccurrence[]>({
     queryKey: ["/api/events"],
   });
 
@@ -262,19 +81,26 @@ export default function EventsPage() {
   });
 
   const deleteMutation = useMutation({
-    mutationFn: (id: number) => apiRequest("DELETE", `/api/events/${id}`),
+    mutationFn: (event: EventOccurrence) =>
+      apiRequest(
+        "DELETE",
+        event.recurrence
+          ? `/api/events/${event.id}?scope=${deleteScope}&occurrenceDate=${event.eventDate}`
+          : `/api/events/${event.id}`
+      ),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/events"] });
       queryClient.invalidateQueries({ queryKey: ["/api/pets"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reminders"] });
       toast({ title: "Event deleted" });
-      setDeleteEventId(null);
+      setDeletingEvent(null);
     },
   });
 
-  const filteredEvents =
-    filterCategory === "all"
-      ? events
-      : events.filter((e) => e.category === filterCategory);
+  const filteredEvents = events
+    .filter((e) => filterCategory === "all" || e.category === filterCategory)
+    .filter((e) => filterStatus === "all" || e.status === filterStatus);
+  const isFiltered = filterCategory !== "all" || filterStatus !== "all";
 
   const sortedEvents = [...filteredEvents].sort(
     (a, b) => new Date(b.eventDate).getTime() - new Date(a.eventDate).getTime()
@@ -309,10 +135,22 @@ export default function EventsPage() {
             Track medical and care events for your pets
           </p>
         </div>
-        <Button onClick={() => setShowDialog(true)} data-testid="button-log-event">
-          <Plus className="h-4 w-4 mr-1" />
-          Log Event
-        </Button>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => setShowImport(true)} data-testid="button-import-events">
+            <FileUp className="h-4 w-4 mr-1" />
+            Import .ics
+          </Button>
+          <Button
+            onClick={() => {
+              setEditingEvent(undefined);
+              setShowDialog(true);
+            }}
+            data-testid="button-log-event"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Log Event
+          </Button>
+        </div>
       </div>
 
       <div className="flex flex-wrap items-center gap-2">
@@ -338,12 +176,35 @@ export default function EventsPage() {
         ))}
       </div>
 
+      <div className="flex flex-wrap items-center gap-2">
+        <CheckCircle2 className="h-4 w-4 text-muted-foreground" />
+        <Button
+          variant={filterStatus === "all" ? "default" : "outline"}
+          size="sm"
+          onClick={() => setFilterStatus("all")}
+          data-testid="button-filter-status-all"
+        >
+          Any Status
+        </Button>
+        {(Object.keys(eventStatusLabels) as EventStatus[]).map((status) => (
+          <Button
+            key={status}
+            variant={filterStatus === status ? "default" : "outline"}
+            size="sm"
+            onClick={() => setFilterStatus(status)}
+            data-testid={`button-filter-status-${status}`}
+          >
+            {eventStatusLabels[status]}
+          </Button>
+        ))}
+      </div>
+
       {sortedEvents.length > 0 ? (
         <div className="space-y-3">
           {sortedEvents.map((event) => {
             const CatIcon = categoryIcons[event.category] || CalendarDays;
             return (
-              <Card key={event.id} data-testid={`card-event-${event.id}`}>
+              <Card key={`${event.id}-${event.eventDate}`} data-testid={`card-event-${event.id}`}>
                 <CardContent className="p-4">
                   <div className="flex items-start gap-3">
                     <div
@@ -361,18 +222,31 @@ export default function EventsPage() {
                         <Badge variant="secondary" className="text-xs">
                           {categoryLabels[event.category]}
                         </Badge>
+                        <EventStatusBadge status={event.status} />
                       </div>
                       <div className="flex flex-wrap items-center gap-3 mt-1.5 text-sm text-muted-foreground">
                         <span className="flex items-center gap-1">
                           <CalendarDays className="h-3.5 w-3.5" />
                           {format(parseISO(event.eventDate), "MMM d, yyyy")}
                         </span>
+                        {event.startTime && (
+                          <span className="flex items-center gap-1" data-testid={`text-event-time-${event.id}`}>
+                            <Clock className="h-3.5 w-3.5" />
+                            {describeEventTime(event)}
+                          </span>
+                        )}
                         {event.location && (
                           <span className="flex items-center gap-1">
                             <MapPin className="h-3.5 w-3.5" />
                             {event.location}
                           </span>
                         )}
+                        {event.recurrence && (
+                          <span className="flex items-center gap-1" data-testid={`text-event-recurrence-${event.id}`}>
+                            <Repeat className="h-3.5 w-3.5" />
+                            {describeRecurrence(event.recurrence)}
+                          </span>
+                        )}
                       </div>
                       {event.pets && event.pets.length > 0 && (
                         <div className="flex flex-wrap items-center gap-1.5 mt-2">
@@ -383,6 +257,11 @@ export default function EventsPage() {
                           ))}
                         </div>
                       )}
+                      {event.outcome && (
+                        <p className="mt-2 text-sm" data-testid={`text-event-outcome-${event.id}`}>
+                          <span className="font-medium">Outcome:</span> {event.outcome}
+                        </p>
+                      )}
                       {event.notes && (
                         <div
                           className="mt-2 text-sm text-muted-foreground prose prose-sm dark:prose-invert max-w-none"
@@ -390,14 +269,32 @@ export default function EventsPage() {
                         />
                       )}
                     </div>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={() => setDeleteEventId(event.id)}
-                      data-testid={`button-delete-event-${event.id}`}
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
+                    <div className="flex items-center gap-1 shrink-0">
+                      <EventStatusMenu event={event} />
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => {
+                          setEditingEvent(event);
+                          setShowDialog(true);
+                        }}
+                        title="Edit event"
+                        data-testid={`button-edit-event-${event.id}`}
+                      >
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => {
+                          setDeleteScope("occurrence");
+                          setDeletingEvent(event);
+                        }}
+                        data-testid={`button-delete-event-${event.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
                   </div>
                 </CardContent>
               </Card>
@@ -409,10 +306,10 @@ export default function EventsPage() {
           <CardContent className="flex flex-col items-center justify-center py-16 text-muted-foreground">
             <CalendarDays className="h-12 w-12 mb-3 opacity-30" />
             <h3 className="text-lg font-medium text-foreground mb-1">
-              {filterCategory === "all" ? "No events logged yet" : "No events in this category"}
+              {!isFiltered ? "No events logged yet" : "No events match these filters"}
             </h3>
             <p className="text-sm mb-4">
-              {filterCategory === "all"
+              {!isFiltered
                 ? "Start logging vet visits, medications, and more"
                 : "Try a different filter or log a new event"}
             </p>
@@ -424,20 +321,59 @@ export default function EventsPage() {
         </Card>
       )}
 
-      <EventFormDialog open={showDialog} onOpenChange={setShowDialog} pets={pets} />
+      <EventFormDialog
+        key={`event-${editingEvent ? `${editingEvent.id}-${editingEvent.eventDate}` : "new"}`}
+        open={showDialog}
+        onOpenChange={(open) => {
+          setShowDialog(open);
+          if (!open) setEditingEvent(undefined);
+        }}
+        pets={pets}
+        editEvent={editingEvent}
+      />
+
+      <ImportEventsDialog open={showImport} onOpenChange={setShowImport} pets={pets} />
 
-      <AlertDialog open={deleteEventId !== null} onOpenChange={() => setDeleteEventId(null)}>
+      <AlertDialog open={deletingEvent !== null} onOpenChange={() => setDeletingEvent(null)}>
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>Delete Event?</AlertDialogTitle>
             <AlertDialogDescription>
-              This will permanently delete this event. This action cannot be undone.
+              {deletingEvent?.recurrence
+                ? "This is a recurring event. Choose which occurrences to delete."
+                : "This will permanently delete this event. This action cannot be undone."}
             </AlertDialogDescription>
           </AlertDialogHeader>
+          {deletingEvent?.recurrence && (
+            <RadioGroup
+              value={deleteScope}
+              onValueChange={(value) => setDeleteScope(value as EventEditScope)}
+              data-testid="radio-event-delete-scope"
+            >
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="occurrence" id="delete-scope-occurrence" />
+                <Label htmlFor="delete-scope-occurrence" className="font-normal">
+                  This occurrence ({format(parseISO(deletingEvent.eventDate), "MMM d, yyyy")})
+                </Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="following" id="delete-scope-following" />
+                <Label htmlFor="delete-scope-following" className="font-normal">
+                  This and following occurrences
+                </Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="all" id="delete-scope-all" />
+                <Label htmlFor="delete-scope-all" className="font-normal">
+                  All occurrences
+                </Label>
+              </div>
+            </RadioGroup>
+          )}
           <AlertDialogFooter>
             <AlertDialogCancel>Cancel</AlertDialogCancel>
             <AlertDialogAction
-              onClick={() => deleteEventId && deleteMutation.mutate(deleteEventId)}
+              onClick={() => deletingEvent && deleteMutation.mutate(deletingEvent)}
               className="bg-destructive text-destructive-foreground"
             >
               Delete
@@ -10,6 +10,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import {
   Dialog,
   DialogContent,
@@ -35,7 +36,21 @@ import {
 } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { describeRecurrence } from "@/lib/recurrence";
+import { describeEventTime } from "@/lib/event-time";
+import { describeWeightOutlier, previousWeightEntry } from "@/lib/weight";
+import { useWeightUnit } from "@/hooks/use-weight-unit";
+import { convertWeight, formatWeight, roundWeight } from "@shared/weight";
+import type { WeightUnit } from "@shared/weight";
 import { useUpload } from "@/hooks/use-upload";
+import { AvatarCropDialog } from "@/components/avatar-crop-dialog";
+import { EventFormDialog } from "@/components/event-form-dialog";
+import { EventStatusBadge, EventStatusMenu } from "@/components/event-status-menu";
+import { PetTimeline } from "@/components/pet-timeline";
+import { PetDocuments, RecordAttachments } from "@/components/attachments";
+import { PetGallery } from "@/components/pet-gallery";
+import { HealthReportDialog } from "@/components/health-report-dialog";
+import { CsvImportDialog } from "@/components/csv-import-dialog";
 import {
   ArrowLeft,
   Edit,
@@ -53,6 +68,14 @@ import {
   AlertTriangle,
   Clock,
   CheckCircle2,
+  Check,
+  X,
+  History,
+  Paperclip,
+  Images,
+  FileDown,
+  Printer,
+  FileUp,
 } from "lucide-react";
 import {
   AreaChart,
@@ -63,7 +86,7 @@ import {
   Tooltip,
   ResponsiveContainer,
 } from "recharts";
-import type { Pet, WeightEntry, EventWithPets, Vaccination, Medication } from "@shared/schema";
+import type { Pet, WeightEntry, EventOccurrence, Vaccination, Medication, Attachment, CsvImportKind } from "@shared/schema";
 import { format, parseISO, differenceInDays, addYears } from "date-fns";
 
 const categoryLabels: Record<string, string> = {
@@ -113,26 +136,36 @@ function ProfileSection({ title, children }: { title: string; children: React.Re
   );
 }
 
+function invalidateWeightQueries(petId: number) {
+  queryClient.invalidateQueries({ queryKey: ["/api/pets", petId, "weights"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/pets", petId, "timeline"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/weight-entries"] });
+}
+
 function WeightDialog({
   open,
   onOpenChange,
   petId,
+  entries,
 }: {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   petId: number;
+  entries: WeightEntry[];
 }) {
   const { toast } = useToast();
   const [weight, setWeight] = useState("");
-  const [unit, setUnit] = useState("lbs");
+  const weightUnit = useWeightUnit();
+  const [chosenUnit, setChosenUnit] = useState<WeightUnit | null>(null);
+  const unit = chosenUnit ?? weightUnit;
   const [recordedAt, setRecordedAt] = useState(format(new Date(), "yyyy-MM-dd"));
+  const outlier = describeWeightOutlier(parseFloat(weight), unit, previousWeightEntry(entries, recordedAt));
 
   const mutation = useMutation({
     mutationFn: (data: Record<string, unknown>) =>
       apiRequest("POST", "/api/weight-entries", data),
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/pets", petId, "weights"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/weight-entries"] });
+      invalidateWeightQueries(petId);
       toast({ title: "Weight recorded" });
       onOpenChange(false);
       setWeight("");
@@ -162,7 +195,7 @@ function WeightDialog({
             </div>
             <div className="space-y-1.5">
               <Label>Unit</Label>
-              <Select value={unit} onValueChange={setUnit}>
+              <Select value={unit} onValueChange={(value) => setChosenUnit(value as WeightUnit)}>
                 <SelectTrigger data-testid="select-weight-unit"><SelectValue /></SelectTrigger>
                 <SelectContent>
                   <SelectItem value="lbs">lbs</SelectItem>
@@ -175,8 +208,14 @@ function WeightDialog({
             <Label htmlFor="recorded-at">Date</Label>
             <Input id="recorded-at" type="date" value={recordedAt} onChange={(e) => setRecordedAt(e.target.value)} data-testid="input-weight-date" />
           </div>
+          {outlier && (
+            <p className="flex items-start gap-1.5 text-xs text-chart-4" data-testid="text-weight-outlier">
+              <AlertTriangle className="h-3.5 w-3.5 mt-px shrink-0" />
+              {outlier}
+            </p>
+          )}
           <Button type="submit" className="w-full" disabled={mutation.isPending} data-testid="button-submit-weight">
-            {mutation.isPending ? "Saving..." : "Record Weight"}
+            {mutation.isPending ? "Saving..." : outlier ? "Record Anyway" : "Record Weight"}
           </Button>
         </form>
       </DialogContent>
@@ -184,6 +223,196 @@ function WeightDialog({
   );
 }
 
+// Newest first, each row compared with the weigh-in before it so a typo stands out.
+function WeightHistoryTable({ petId, entries }: { petId: number; entries: WeightEntry[] }) {
+  const { toast } = useToast();
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [deleting, setDeleting] = useState<WeightEntry | null>(null);
+  const weightUnit = useWeightUnit();
+  const [draft, setDraft] = useState<{ weight: string; unit: WeightUnit; recordedAt: string }>({
+    weight: "",
+    unit: weightUnit,
+    recordedAt: "",
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, data }: { id: number; data: Record<string, unknown> }) =>
+      apiRequest("PATCH", `/api/weight-entries/${id}`, data),
+    onSuccess: () => {
+      invalidateWeightQueries(petId);
+      toast({ title: "Weight updated" });
+      setEditingId(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/weight-entries/${id}`),
+    onSuccess: () => {
+      invalidateWeightQueries(petId);
+      toast({ title: "Weight removed" });
+    },
+    onError: (error: Error) => {
+      toast({ title: error.message, variant: "destructive" });
+    },
+  });
+
+  const startEditing = (entry: WeightEntry) => {
+    setEditingId(entry.id);
+    setDraft({ weight: String(entry.weight), unit: entry.unit, recordedAt: entry.recordedAt });
+  };
+
+  const rows = [...entries].sort((a, b) => b.recordedAt.localeCompare(a.recordedAt) || b.id - a.id);
+
+  return (
+    <div className="rounded-md border max-h-[280px] overflow-y-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Date</TableHead>
+            <TableHead>Weight</TableHead>
+            <TableHead>Change</TableHead>
+            <TableHead className="w-[88px]" />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((entry) => {
+            if (entry.id === editingId) {
+              const draftWeight = parseFloat(draft.weight);
+              const outlier = describeWeightOutlier(draftWeight, draft.unit, previousWeightEntry(entries, draft.recordedAt, entry.id));
+              return (
+                <TableRow key={entry.id} data-testid={`row-weight-${entry.id}`}>
+                  <TableCell colSpan={4} className="space-y-2">
+                    <form
+                      className="flex flex-wrap items-center gap-2"
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        updateMutation.mutate({
+                          id: entry.id,
+                          data: { weight: draftWeight, unit: draft.unit, recordedAt: draft.recordedAt },
+                        });
+                      }}
+                    >
+                      <Input
+                        type="date"
+                        value={draft.recordedAt}
+                        onChange={(e) => setDraft({ ...draft, recordedAt: e.target.value })}
+                        className="h-8 w-[150px]"
+                        required
+                        data-testid={`input-edit-weight-date-${entry.id}`}
+                      />
+                      <Input
+                        type="number"
+                        step="0.1"
+                        min="0.1"
+                        value={draft.weight}
+                        onChange={(e) => setDraft({ ...draft, weight: e.target.value })}
+                        className="h-8 w-[90px]"
+                        required
+                        data-testid={`input-edit-weight-${entry.id}`}
+                      />
+                      <Select value={draft.unit} onValueChange={(unit) => setDraft({ ...draft, unit: unit as WeightUnit })}>
+                        <SelectTrigger className="h-8 w-[80px]" data-testid={`select-edit-weight-unit-${entry.id}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="lbs">lbs</SelectItem>
+                          <SelectItem value="kg">kg</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Button type="submit" size="icon" variant="ghost" disabled={updateMutation.isPending} data-testid={`button-save-weight-${entry.id}`}>
+                        <Check className="h-3.5 w-3.5" />
+                      </Button>
+                      <Button type="button" size="icon" variant="ghost" onClick={() => setEditingId(null)} data-testid={`button-cancel-weight-${entry.id}`}>
+                        <X className="h-3.5 w-3.5" />
+                      </Button>
+                    </form>
+                    {outlier && (
+                      <p className="flex items-start gap-1.5 text-xs text-chart-4">
+                        <AlertTriangle className="h-3.5 w-3.5 mt-px shrink-0" />
+                        {outlier}
+                      </p>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            }
+
+            const previous = previousWeightEntry(entries, entry.recordedAt, entry.id);
+            // Shown in the household's unit; the entered value is kept alongside when it differs.
+            const shown = convertWeight(entry.weight, entry.unit, weightUnit);
+            const change = previous ? roundWeight(shown - convertWeight(previous.weight, previous.unit, weightUnit)) : null;
+            const outlier = describeWeightOutlier(entry.weight, entry.unit, previous);
+            return (
+              <TableRow key={entry.id} data-testid={`row-weight-${entry.id}`}>
+                <TableCell className="text-muted-foreground">{format(parseISO(entry.recordedAt), "MMM d, yyyy")}</TableCell>
+                <TableCell>
+                  <span className="font-medium">{formatWeight(shown, weightUnit)}</span>
+                  {entry.unit !== weightUnit && (
+                    <span className="text-xs text-muted-foreground ml-1.5">entered as {formatWeight(entry.weight, entry.unit)}</span>
+                  )}
+                </TableCell>
+                <TableCell>
+                  {change === null ? (
+                    <span className="text-muted-foreground">—</span>
+                  ) : (
+                    <span
+                      className={`inline-flex items-center gap-1 ${outlier ? "text-chart-4" : "text-muted-foreground"}`}
+                      title={outlier ?? undefined}
+                    >
+                      {outlier && <AlertTriangle className="h-3.5 w-3.5" />}
+                      {change >= 0 ? "+" : "-"}
+                      {formatWeight(Math.abs(change), weightUnit)}
+                    </span>
+                  )}
+                </TableCell>
+                <TableCell className="text-right whitespace-nowrap">
+                  <Button size="icon" variant="ghost" onClick={() => startEditing(entry)} data-testid={`button-edit-weight-${entry.id}`}>
+                    <Edit className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => setDeleting(entry)}
+                    disabled={deleteMutation.isPending}
+                    data-testid={`button-delete-weight-${entry.id}`}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this weight?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleting &&
+                `The ${formatWeight(deleting.weight, deleting.unit)} recorded on ${format(parseISO(deleting.recordedAt), "MMM d, yyyy")} will be permanently removed.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-delete-weight">Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleting && deleteMutation.mutate(deleting.id)}
+              className="bg-destructive text-destructive-foreground"
+              data-testid="button-confirm-delete-weight"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
 function EditPetDialog({
   open,
   onOpenChange,
@@ -215,11 +444,16 @@ function EditPetDialog({
   const [foodBowlColour, setFoodBowlColour] = useState(pet.foodBowlColour || "");
   const [traits, setTraits] = useState(pet.traits || "");
 
+  const [cropFile, setCropFile] = useState<File | null>(null);
+
   const { uploadFile, isUploading } = useUpload({
     onSuccess: (response) => {
       setAvatarUrl(response.objectPath);
       toast({ title: "Photo uploaded" });
     },
+    onError: (error) => {
+      toast({ title: "Failed to upload photo", description: error.message, variant: "destructive" });
+    },
   });
 
   const mutation = useMutation({
@@ -227,6 +461,7 @@ function EditPetDialog({
       apiRequest("PATCH", `/api/pets/${pet.id}`, data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/pets"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reminders"] });
       queryClient.invalidateQueries({ queryKey: ["/api/pets", pet.id] });
       toast({ title: "Pet updated" });
       onOpenChange(false);
@@ -278,10 +513,18 @@ function EditPetDialog({
               </Avatar>
               <label className="absolute -bottom-1 -right-1 flex h-7 w-7 cursor-pointer items-center justify-center rounded-full bg-primary text-primary-foreground">
                 <Camera className="h-3.5 w-3.5" />
-                <input type="file" accept="image/*" className="hidden" onChange={(e) => { const file = e.target.files?.[0]; if (file) uploadFile(file); }} disabled={isUploading} />
+                <input type="file" accept="image/*" className="hidden" onChange={(e) => { const file = e.target.files?.[0]; e.target.value = ""; if (file) setCropFile(file); }} disabled={isUploading} />
               </label>
             </div>
           </div>
+          <AvatarCropDialog
+            file={cropFile}
+            onCancel={() => setCropFile(null)}
+            onCropped={(cropped) => {
+              setCropFile(null);
+              uploadFile(cropped);
+            }}
+          />
 
           <p className="text-xs font-medium text-muted-foreground uppercase tracking-wider">Basic Info</p>
           <div className="grid grid-cols-2 gap-3">
@@ -449,6 +692,9 @@ function VaccinationDialog({
         : apiRequest("POST", `/api/pets/${petId}/vaccinations`, data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/pets", petId, "vaccinations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/pets", petId, "timeline"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/vaccinations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reminders"] });
       toast({ title: isEditing ? "Vaccination updated" : "Vaccination recorded" });
       onOpenChange(false);
     },
@@ -541,6 +787,9 @@ function MedicationDialog({
         : apiRequest("POST", `/api/pets/${petId}/medications`, data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/pets", petId, "medications"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/pets", petId, "timeline"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/medications"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reminders"] });
       toast({ title: isEditing ? "Medication updated" : "Medication recorded" });
       onOpenChange(false);
     },
@@ -634,24 +883,33 @@ export default function PetDetailPage() {
   const [showWeightDialog, setShowWeightDialog] = useState(false);
   const [showEditDialog, setShowEditDialog] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [showReportDialog, setShowReportDialog] = useState(false);
+  const [csvImportKind, setCsvImportKind] = useState<CsvImportKind>("weights");
+  const [showCsvImport, setShowCsvImport] = useState(false);
   const [showVaccinationDialog, setShowVaccinationDialog] = useState(false);
   const [showMedicationDialog, setShowMedicationDialog] = useState(false);
   const [vaccinationPrefill, setVaccinationPrefill] = useState<{ name?: string; date?: string; notes?: string; sourceEventId?: number } | undefined>();
   const [medicationPrefill, setMedicationPrefill] = useState<{ name?: string; date?: string; notes?: string; sourceEventId?: number } | undefined>();
   const [editingVaccination, setEditingVaccination] = useState<Vaccination | undefined>();
   const [editingMedication, setEditingMedication] = useState<Medication | undefined>();
+  const [editingEvent, setEditingEvent] = useState<EventOccurrence | undefined>();
 
   const { data: pet, isLoading: petLoading } = useQuery<Pet>({
     queryKey: ["/api/pets", petId],
     enabled: !!petId,
   });
 
+  const { data: allPets = [] } = useQuery<Pet[]>({
+    queryKey: ["/api/pets"],
+  });
+
   const { data: weights = [] } = useQuery<WeightEntry[]>({
     queryKey: ["/api/pets", petId, "weights"],
     enabled: !!petId,
   });
+  const weightUnit = useWeightUnit();
 
-  const { data: petEventsData = [] } = useQuery<EventWithPets[]>({
+  const { data: petEventsData = [] } = useQuery<EventOccurrence[]>({
     queryKey: ["/api/pets", petId, "events"],
     enabled: !!petId,
   });
@@ -670,6 +928,9 @@ export default function PetDetailPage() {
     mutationFn: () => apiRequest("DELETE", `/api/pets/${petId}`),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/pets"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reminders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/vaccinations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/medications"] });
       toast({ title: "Pet removed" });
       setLocation("/pets");
     },
@@ -679,6 +940,10 @@ export default function PetDetailPage() {
     mutationFn: (id: number) => apiRequest("DELETE", `/api/vaccinations/${id}`),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/pets", petId, "vaccinations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/pets", petId, "timeline"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/vaccinations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reminders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/pets", petId, "attachments"] });
       toast({ title: "Vaccination removed" });
     },
   });
@@ -687,6 +952,10 @@ export default function PetDetailPage() {
     mutationFn: (id: number) => apiRequest("DELETE", `/api/medications/${id}`),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/pets", petId, "medications"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/pets", petId, "timeline"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/medications"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reminders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/pets", petId, "attachments"] });
       toast({ title: "Medication removed" });
     },
   });
@@ -696,6 +965,9 @@ export default function PetDetailPage() {
       apiRequest("PATCH", `/api/medications/${id}`, { active }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/pets", petId, "medications"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/pets", petId, "timeline"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/medications"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reminders"] });
       toast({ title: "Medication updated" });
     },
   });
@@ -732,7 +1004,7 @@ export default function PetDetailPage() {
   );
   const weightChartData = sortedWeights.map((w) => ({
     date: format(parseISO(w.recordedAt), "MMM dd"),
-    weight: w.weight,
+    weight: roundWeight(convertWeight(w.weight, w.unit, weightUnit)),
   }));
   const latestWeight = sortedWeights.length > 0 ? sortedWeights[sortedWeights.length - 1] : null;
 
@@ -743,6 +1015,19 @@ export default function PetDetailPage() {
   const activeMedications = medicationsData.filter((m) => m.active);
   const pastMedications = medicationsData.filter((m) => !m.active);
 
+  const describeAttachmentParent = (attachment: Attachment): string | undefined => {
+    switch (attachment.parentType) {
+      case "event":
+        return petEventsData.find((e) => e.id === attachment.parentId)?.title;
+      case "vaccination":
+        return vaccinationsData.find((v) => v.id === attachment.parentId)?.name;
+      case "medication":
+        return medicationsData.find((m) => m.id === attachment.parentId)?.name;
+      default:
+        return undefined;
+    }
+  };
+
   const upcomingItems: { type: string; label: string; detail: string; daysUntil: number; variant: "default" | "destructive" | "secondary" }[] = [];
 
   vaccinationsData.forEach((vax) => {
@@ -772,7 +1057,7 @@ export default function PetDetailPage() {
 
   upcomingItems.sort((a, b) => a.daysUntil - b.daysUntil);
 
-  const openVaccinationFromEvent = (event: EventWithPets) => {
+  const openVaccinationFromEvent = (event: EventOccurrence) => {
     setEditingVaccination(undefined);
     setVaccinationPrefill({
       name: event.title,
@@ -783,7 +1068,7 @@ export default function PetDetailPage() {
     setShowVaccinationDialog(true);
   };
 
-  const openMedicationFromEvent = (event: EventWithPets) => {
+  const openMedicationFromEvent = (event: EventOccurrence) => {
     setEditingMedication(undefined);
     setMedicationPrefill({
       name: event.title,
@@ -805,6 +1090,10 @@ export default function PetDetailPage() {
         <h1 className="text-2xl font-bold flex-1" data-testid="text-pet-detail-name">
           {pet.name}
         </h1>
+        <Button variant="outline" onClick={() => setShowReportDialog(true)} data-testid="button-health-report">
+          <FileDown className="h-4 w-4 mr-1" />
+          Health Report
+        </Button>
         <Button variant="outline" size="icon" onClick={() => setShowEditDialog(true)} data-testid="button-edit-pet">
           <Edit className="h-4 w-4" />
         </Button>
@@ -840,7 +1129,7 @@ export default function PetDetailPage() {
               <div className="text-right">
                 <p className="text-sm text-muted-foreground">Current Weight</p>
                 <p className="text-2xl font-bold">
-                  {latestWeight.weight} {latestWeight.unit}
+                  {formatWeight(convertWeight(latestWeight.weight, latestWeight.unit, weightUnit), weightUnit)}
                 </p>
               </div>
             )}
@@ -935,7 +1224,7 @@ export default function PetDetailPage() {
       <Card>
         <CardContent className="p-0">
           <Tabs defaultValue="events" className="w-full">
-            <div className="border-b px-4 pt-3">
+            <div className="border-b px-4 pt-3 overflow-x-auto">
               <TabsList className="bg-transparent p-0 h-auto gap-4">
                 <TabsTrigger
                   value="events"
@@ -967,6 +1256,30 @@ export default function PetDetailPage() {
                     <Badge variant="secondary" className="ml-1.5">{activeMedications.length}</Badge>
                   )}
                 </TabsTrigger>
+                <TabsTrigger
+                  value="gallery"
+                  className="rounded-none border-b-2 border-transparent data-[state=active]:border-primary data-[state=active]:bg-transparent pb-2.5 pt-1 px-1"
+                  data-testid="tab-gallery"
+                >
+                  <Images className="h-4 w-4 mr-1.5" />
+                  Gallery
+                </TabsTrigger>
+                <TabsTrigger
+                  value="documents"
+                  className="rounded-none border-b-2 border-transparent data-[state=active]:border-primary data-[state=active]:bg-transparent pb-2.5 pt-1 px-1"
+                  data-testid="tab-documents"
+                >
+                  <Paperclip className="h-4 w-4 mr-1.5" />
+                  Documents
+                </TabsTrigger>
+                <TabsTrigger
+                  value="timeline"
+                  className="rounded-none border-b-2 border-transparent data-[state=active]:border-primary data-[state=active]:bg-transparent pb-2.5 pt-1 px-1"
+                  data-testid="tab-timeline"
+                >
+                  <History className="h-4 w-4 mr-1.5" />
+                  Timeline
+                </TabsTrigger>
               </TabsList>
             </div>
 
@@ -987,7 +1300,7 @@ export default function PetDetailPage() {
                     const isVetVisit = event.category === "vet_visit";
                     return (
                       <div
-                        key={event.id}
+                        key={`${event.id}-${event.eventDate}`}
                         className="flex items-start gap-3 p-3 rounded-md border"
                         data-testid={`card-pet-event-${event.id}`}
                       >
@@ -1004,8 +1317,15 @@ export default function PetDetailPage() {
                           <p className="text-sm font-medium">{event.title}</p>
                           <p className="text-xs text-muted-foreground">
                             {format(parseISO(event.eventDate), "MMM d, yyyy")}
+                            {event.startTime && <> &middot; {describeEventTime(event)}</>}
                             {event.location && <> &middot; {event.location}</>}
+                            {event.recurrence && <> &middot; {describeRecurrence(event.recurrence)}</>}
                           </p>
+                          {event.outcome && (
+                            <p className="text-xs mt-1">
+                              <span className="font-medium">Outcome:</span> {event.outcome}
+                            </p>
+                          )}
                           {event.notes && (
                             <p className="text-xs text-muted-foreground mt-1 line-clamp-2">{event.notes}</p>
                           )}
@@ -1031,8 +1351,22 @@ export default function PetDetailPage() {
                               </Button>
                             </div>
                           )}
+                          <RecordAttachments petId={pet.id} parentType="event" parentId={event.id} />
+                        </div>
+                        <div className="flex items-center gap-1 shrink-0">
+                          <Badge variant="outline">{categoryLabels[event.category]}</Badge>
+                          <EventStatusBadge status={event.status} />
+                          <EventStatusMenu event={event} />
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            onClick={() => setEditingEvent(event)}
+                            title="Edit event"
+                            data-testid={`button-edit-pet-event-${event.id}`}
+                          >
+                            <Edit className="h-3.5 w-3.5" />
+                          </Button>
                         </div>
-                        <Badge variant="outline">{categoryLabels[event.category]}</Badge>
                       </div>
                     );
                   })}
@@ -1053,19 +1387,58 @@ export default function PetDetailPage() {
             <TabsContent value="vaccinations" className="m-0 p-4">
               <div className="flex items-center justify-between gap-2 mb-4">
                 <p className="text-sm text-muted-foreground">{vaccinationsData.length} vaccination{vaccinationsData.length !== 1 ? "s" : ""} recorded</p>
-                <Button
-                  size="sm"
-                  variant="outline"
-                  onClick={() => {
-                    setVaccinationPrefill(undefined);
-                    setEditingVaccination(undefined);
-                    setShowVaccinationDialog(true);
-                  }}
-                  data-testid="button-add-vaccination"
-                >
-                  <Plus className="h-3.5 w-3.5 mr-1" />
-                  Add Vaccination
-                </Button>
+                <div className="flex items-center gap-2">
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => {
+                      setCsvImportKind("vaccinations");
+                      setShowCsvImport(true);
+                    }}
+                    data-testid="button-import-vaccinations"
+                  >
+                    <FileUp className="h-3.5 w-3.5 mr-1" />
+                    Import
+                  </Button>
+                  {vaccinationsData.length > 0 && (
+                    <>
+                      <Button size="sm" variant="ghost" asChild>
+                        <a
+                          href={`/api/pets/${petId}/vaccination-certificate.html`}
+                          target="_blank"
+                          rel="noopener"
+                          data-testid="link-print-vaccination-certificate"
+                        >
+                          <Printer className="h-3.5 w-3.5 mr-1" />
+                          Print
+                        </a>
+                      </Button>
+                      <Button size="sm" variant="ghost" asChild>
+                        <a
+                          href={`/api/pets/${petId}/vaccination-certificate.pdf`}
+                          download
+                          data-testid="link-download-vaccination-certificate"
+                        >
+                          <FileDown className="h-3.5 w-3.5 mr-1" />
+                          Certificate
+                        </a>
+                      </Button>
+                    </>
+                  )}
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => {
+                      setVaccinationPrefill(undefined);
+                      setEditingVaccination(undefined);
+                      setShowVaccinationDialog(true);
+                    }}
+                    data-testid="button-add-vaccination"
+                  >
+                    <Plus className="h-3.5 w-3.5 mr-1" />
+                    Add Vaccination
+                  </Button>
+                </div>
               </div>
               {vaccinationsData.length > 0 ? (
                 <div className="space-y-2 max-h-[400px] overflow-y-auto">
@@ -1098,6 +1471,7 @@ export default function PetDetailPage() {
                           {vax.notes && (
                             <p className="text-xs text-muted-foreground mt-1 line-clamp-2">{vax.notes}</p>
                           )}
+                          <RecordAttachments petId={pet.id} parentType="vaccination" parentId={vax.id} />
                         </div>
                         <div className="flex items-center gap-1 shrink-0">
                           <Badge variant={status.variant}>
@@ -1201,6 +1575,7 @@ export default function PetDetailPage() {
                             {med.notes && (
                               <p className="text-xs text-muted-foreground mt-1 line-clamp-2">{med.notes}</p>
                             )}
+                            <RecordAttachments petId={pet.id} parentType="medication" parentId={med.id} />
                           </div>
                           <div className="flex items-center gap-1 shrink-0">
                             <Badge variant="default">Active</Badge>
@@ -1266,6 +1641,7 @@ export default function PetDetailPage() {
                               {format(parseISO(med.startDate), "MMM d, yyyy")}
                               {med.endDate && <> - {format(parseISO(med.endDate), "MMM d, yyyy")}</>}
                             </p>
+                            <RecordAttachments petId={pet.id} parentType="medication" parentId={med.id} />
                           </div>
                           <div className="flex items-center gap-1 shrink-0">
                             <Badge variant="secondary">Completed</Badge>
@@ -1324,6 +1700,18 @@ export default function PetDetailPage() {
                 </div>
               )}
             </TabsContent>
+
+            <TabsContent value="gallery" className="m-0 p-4">
+              <PetGallery pet={pet} />
+            </TabsContent>
+
+            <TabsContent value="documents" className="m-0 p-4">
+              <PetDocuments petId={pet.id} petName={pet.name} describeParent={describeAttachmentParent} />
+            </TabsContent>
+
+            <TabsContent value="timeline" className="m-0 p-4">
+              <PetTimeline petId={pet.id} petName={pet.name} />
+            </TabsContent>
           </Tabs>
         </CardContent>
       </Card>
@@ -1331,13 +1719,27 @@ export default function PetDetailPage() {
       <Card>
         <CardHeader className="flex flex-row items-center justify-between gap-2 pb-2">
           <CardTitle className="text-base font-semibold">Weight History</CardTitle>
-          <Button size="sm" variant="outline" onClick={() => setShowWeightDialog(true)} data-testid="button-add-weight">
-            <Plus className="h-3.5 w-3.5 mr-1" />
-            Record
-          </Button>
+          <div className="flex items-center gap-2">
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => {
+                setCsvImportKind("weights");
+                setShowCsvImport(true);
+              }}
+              data-testid="button-import-weights"
+            >
+              <FileUp className="h-3.5 w-3.5 mr-1" />
+              Import
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => setShowWeightDialog(true)} data-testid="button-add-weight">
+              <Plus className="h-3.5 w-3.5 mr-1" />
+              Record
+            </Button>
+          </div>
         </CardHeader>
         <CardContent>
-          {weightChartData.length > 0 ? (
+          {weightChartData.length > 0 && (
             <ResponsiveContainer width="100%" height={220}>
               <AreaChart data={weightChartData}>
                 <defs>
@@ -1356,10 +1758,16 @@ export default function PetDetailPage() {
                     borderRadius: "6px",
                     fontSize: "12px",
                   }}
+                  formatter={(value) => [`${value} ${weightUnit}`, "Weight"]}
                 />
                 <Area type="monotone" dataKey="weight" stroke="hsl(var(--chart-1))" fill="url(#weightGradient)" strokeWidth={2} />
               </AreaChart>
             </ResponsiveContainer>
+          )}
+          {weights.length > 0 ? (
+            <div className="mt-4">
+              <WeightHistoryTable petId={petId} entries={weights} />
+            </div>
           ) : (
             <div className="flex flex-col items-center justify-center h-[220px] text-muted-foreground">
               <Scale className="h-8 w-8 mb-2 opacity-40" />
@@ -1372,7 +1780,7 @@ export default function PetDetailPage() {
         </CardContent>
       </Card>
 
-      <WeightDialog open={showWeightDialog} onOpenChange={setShowWeightDialog} petId={petId} />
+      <WeightDialog open={showWeightDialog} onOpenChange={setShowWeightDialog} petId={petId} entries={weights} />
       {pet && <EditPetDialog open={showEditDialog} onOpenChange={setShowEditDialog} pet={pet} />}
       <VaccinationDialog
         key={`vax-${editingVaccination?.id || vaccinationPrefill?.sourceEventId || "new"}`}
@@ -1388,6 +1796,15 @@ export default function PetDetailPage() {
         prefill={vaccinationPrefill}
         editVaccination={editingVaccination}
       />
+      <EventFormDialog
+        key={`event-${editingEvent ? `${editingEvent.id}-${editingEvent.eventDate}` : "none"}`}
+        open={!!editingEvent}
+        onOpenChange={(open) => {
+          if (!open) setEditingEvent(undefined);
+        }}
+        pets={allPets}
+        editEvent={editingEvent}
+      />
       <MedicationDialog
         key={`med-${editingMedication?.id || medicationPrefill?.sourceEventId || "new"}`}
         open={showMedicationDialog}
@@ -1403,6 +1820,9 @@ export default function PetDetailPage() {
         editMedication={editingMedication}
       />
 
+      <HealthReportDialog pet={pet} open={showReportDialog} onOpenChange={setShowReportDialog} />
+      <CsvImportDialog pet={pet} kind={csvImportKind} open={showCsvImport} onOpenChange={setShowCsvImport} />
+
       <AlertDialog open={showDeleteConfirm} onOpenChange={setShowDeleteConfirm}>
         <AlertDialogContent>
           <AlertDialogHeader>
@@ -25,6 +25,7 @@ import {
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useUpload } from "@/hooks/use-upload";
+import { AvatarCropDialog } from "@/components/avatar-crop-dialog";
 import { Plus, PawPrint, Upload, Camera } from "lucide-react";
 import type { Pet } from "@shared/schema";
 
@@ -45,14 +46,15 @@ function PetFormDialog({
   const [color, setColor] = useState(editPet?.color || "");
   const [dateOfBirth, setDateOfBirth] = useState(editPet?.dateOfBirth || "");
   const [avatarUrl, setAvatarUrl] = useState(editPet?.avatarUrl || "");
+  const [cropFile, setCropFile] = useState<File | null>(null);
 
   const { uploadFile, isUploading } = useUpload({
     onSuccess: (response) => {
       setAvatarUrl(response.objectPath);
       toast({ title: "Photo uploaded successfully" });
     },
-    onError: () => {
-      toast({ title: "Failed to upload photo", variant: "destructive" });
+    onError: (error) => {
+      toast({ title: "Failed to upload photo", description: error.message, variant: "destructive" });
     },
   });
 
@@ -65,6 +67,7 @@ function PetFormDialog({
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/pets"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reminders"] });
       toast({ title: editPet ? "Pet updated" : "Pet added successfully" });
       onOpenChange(false);
       resetForm();
@@ -99,11 +102,11 @@ function PetFormDialog({
     });
   };
 
-  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file) {
-      await uploadFile(file);
-    }
+    // Clear the input so picking the same file again still opens the cropper.
+    e.target.value = "";
+    if (file) setCropFile(file);
   };
 
   return (
@@ -138,6 +141,14 @@ function PetFormDialog({
               </label>
             </div>
           </div>
+          <AvatarCropDialog
+            file={cropFile}
+            onCancel={() => setCropFile(null)}
+            onCropped={(cropped) => {
+              setCropFile(null);
+              uploadFile(cropped);
+            }}
+          />
 
           <div className="grid grid-cols-2 gap-3">
             <div className="space-y-1.5">
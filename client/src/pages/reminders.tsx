@@ -1,9 +1,28 @@
-import { useQuery } from "@tanstack/react-query";
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Button } from "@/components/ui/button";
 import { Link } from "wouter";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ToastAction } from "@/components/ui/toast";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatTime } from "@/lib/event-time";
+import { todayInTimeZone } from "@shared/timezone";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Bell,
   CalendarDays,
@@ -14,9 +33,21 @@ import {
   CheckCircle2,
   Clock,
   Plus,
+  Shield,
+  Pill,
+  AlarmClock,
+  X,
 } from "lucide-react";
-import type { EventWithPets } from "@shared/schema";
-import { format, parseISO, isBefore, isAfter, differenceInDays, addDays } from "date-fns";
+import type {
+  Household,
+  Pet,
+  Reminder,
+  ReminderAcknowledgement,
+  ReminderAction,
+  ReminderSource,
+  ReminderStatus,
+} from "@shared/schema";
+import { format, parseISO, addDays } from "date-fns";
 
 const categoryLabels: Record<string, string> = {
   vet_visit: "Vet Visit",
@@ -39,18 +70,30 @@ const categoryColors: Record<string, string> = {
   appointment: "hsl(var(--chart-4))",
 };
 
-type ReminderStatus = "overdue" | "today" | "upcoming" | "soon";
+const sourceIcons: Partial<Record<ReminderSource, React.ElementType>> = {
+  vaccination: Shield,
+  yearly_vaccination: Shield,
+  medication: Pill,
+};
+
+const actionLabels: Record<ReminderAction, string> = {
+  completed: "marked as done",
+  snoozed: "snoozed",
+  dismissed: "dismissed",
+};
 
-function getStatus(eventDate: string): { status: ReminderStatus; label: string; daysUntil: number } {
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-  const date = parseISO(eventDate);
-  const daysUntil = differenceInDays(date, today);
+const snoozeOptions = [
+  { label: "Until tomorrow", days: 1 },
+  { label: "For 3 days", days: 3 },
+  { label: "For a week", days: 7 },
+];
 
-  if (daysUntil < 0) return { status: "overdue", label: `${Math.abs(daysUntil)} day${Math.abs(daysUntil) === 1 ? "" : "s"} overdue`, daysUntil };
-  if (daysUntil === 0) return { status: "today", label: "Today", daysUntil };
-  if (daysUntil <= 3) return { status: "soon", label: `In ${daysUntil} day${daysUntil === 1 ? "" : "s"}`, daysUntil };
-  return { status: "upcoming", label: `In ${daysUntil} days`, daysUntil };
+// daysUntil is counted by the server in the household timezone, so no local date maths here.
+function getStatusLabel(reminder: Reminder): string {
+  const days = Math.abs(reminder.daysUntil);
+  if (reminder.status === "overdue") return `${days} day${days === 1 ? "" : "s"} overdue`;
+  if (reminder.status === "today") return reminder.dueTime ? `Today at ${formatTime(reminder.dueTime)}` : "Today";
+  return `In ${days} day${days === 1 ? "" : "s"}`;
 }
 
 const statusConfig: Record<ReminderStatus, { icon: React.ElementType; badgeClass: string }> = {
@@ -61,24 +104,72 @@ const statusConfig: Record<ReminderStatus, { icon: React.ElementType; badgeClass
 };
 
 export default function RemindersPage() {
-  const { data: events = [], isLoading } = useQuery<EventWithPets[]>({
-    queryKey: ["/api/events"],
+  const [petFilter, setPetFilter] = useState<string>("all");
+  const { toast } = useToast();
+
+  const { data: pets = [] } = useQuery<Pet[]>({
+    queryKey: ["/api/pets"],
+  });
+
+  const { data: allReminders = [], isLoading } = useQuery<Reminder[]>({
+    queryKey: ["/api/reminders"],
   });
 
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
+  const { data: household } = useQuery<Household>({
+    queryKey: ["/api/household"],
+  });
+  const today = household ? todayInTimeZone(household.timezone) : format(new Date(), "yyyy-MM-dd");
+
+  const reminders =
+    petFilter === "all"
+      ? allReminders
+      : allReminders.filter((r) => r.pets.some((p) => String(p.id) === petFilter));
+
+  const undoMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/reminder-acknowledgements/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/reminders"] });
+    },
+  });
 
-  const upcomingEvents = events
-    .filter((e) => {
-      const eventDate = parseISO(e.eventDate);
-      return isAfter(eventDate, addDays(today, -7)) && isBefore(eventDate, addDays(today, 90));
-    })
-    .map((e) => ({ ...e, ...getStatus(e.eventDate) }))
-    .sort((a, b) => a.daysUntil - b.daysUntil);
+  const acknowledgeMutation = useMutation({
+    mutationFn: async ({
+      reminder,
+      action,
+      snoozedUntil,
+    }: {
+      reminder: Reminder;
+      action: ReminderAction;
+      snoozedUntil?: string;
+    }): Promise<ReminderAcknowledgement> => {
+      const res = await apiRequest("POST", "/api/reminder-acknowledgements", {
+        source: reminder.source,
+        sourceId: reminder.sourceId,
+        dueDate: reminder.dueDate,
+        action,
+        snoozedUntil: snoozedUntil ?? null,
+      });
+      return res.json();
+    },
+    onSuccess: (acknowledgement, { reminder, action }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/reminders"] });
+      toast({
+        title: `${reminder.title} ${actionLabels[action]}`,
+        action: (
+          <ToastAction altText="Undo" onClick={() => undoMutation.mutate(acknowledgement.id)}>
+            Undo
+          </ToastAction>
+        ),
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: error.message, variant: "destructive" });
+    },
+  });
 
-  const overdueCount = upcomingEvents.filter((e) => e.status === "overdue").length;
-  const todayCount = upcomingEvents.filter((e) => e.status === "today").length;
-  const soonCount = upcomingEvents.filter((e) => e.status === "soon").length;
+  const overdueCount = reminders.filter((r) => r.status === "overdue").length;
+  const todayCount = reminders.filter((r) => r.status === "today").length;
+  const soonCount = reminders.filter((r) => r.status === "soon").length;
 
   if (isLoading) {
     return (
@@ -104,15 +195,28 @@ export default function RemindersPage() {
         <div>
           <h1 className="text-2xl font-bold" data-testid="text-reminders-title">Reminders</h1>
           <p className="text-sm text-muted-foreground">
-            Upcoming and overdue events for your pets
+            Upcoming and overdue events, vaccinations and medications
           </p>
         </div>
-        <Button asChild>
-          <Link href="/events" data-testid="link-log-event-reminder">
-            <Plus className="h-4 w-4 mr-1" />
-            Log Event
-          </Link>
-        </Button>
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={petFilter} onValueChange={setPetFilter}>
+            <SelectTrigger className="w-[160px]" data-testid="select-reminder-pet">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All pets</SelectItem>
+              {pets.map((pet) => (
+                <SelectItem key={pet.id} value={String(pet.id)}>{pet.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button asChild>
+            <Link href="/events" data-testid="link-log-event-reminder">
+              <Plus className="h-4 w-4 mr-1" />
+              Log Event
+            </Link>
+          </Button>
+        </div>
       </div>
 
       <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
@@ -151,39 +255,42 @@ export default function RemindersPage() {
         </Card>
       </div>
 
-      {upcomingEvents.length > 0 ? (
+      {reminders.length > 0 ? (
         <div className="space-y-3">
-          {upcomingEvents.map((event) => {
-            const CatIcon = categoryIcons[event.category] || CalendarDays;
-            const config = statusConfig[event.status];
+          {reminders.map((reminder) => {
+            const CatIcon = sourceIcons[reminder.source] || categoryIcons[reminder.category] || CalendarDays;
+            const config = statusConfig[reminder.status];
             const StatusIcon = config.icon;
             return (
-              <Card key={event.id} data-testid={`card-reminder-${event.id}`}>
+              <Card key={reminder.id} data-testid={`card-reminder-${reminder.id}`}>
                 <CardContent className="p-4">
                   <div className="flex items-start gap-3">
                     <div
                       className="flex h-10 w-10 shrink-0 items-center justify-center rounded-md mt-0.5"
                       style={{
-                        backgroundColor: (categoryColors[event.category] || "hsl(var(--muted))") + "18",
-                        color: categoryColors[event.category] || "hsl(var(--foreground))",
+                        backgroundColor: (categoryColors[reminder.category] || "hsl(var(--muted))") + "18",
+                        color: categoryColors[reminder.category] || "hsl(var(--foreground))",
                       }}
                     >
                       <CatIcon className="h-5 w-5" />
                     </div>
                     <div className="flex-1 min-w-0">
                       <div className="flex flex-wrap items-center gap-2">
-                        <h3 className="font-semibold">{event.title}</h3>
+                        <h3 className="font-semibold">{reminder.title}</h3>
                         <Badge variant="outline" className={`text-xs ${config.badgeClass}`}>
                           <StatusIcon className="h-3 w-3 mr-1" />
-                          {event.label}
+                          {getStatusLabel(reminder)}
                         </Badge>
                       </div>
                       <p className="text-sm text-muted-foreground mt-1">
-                        {format(parseISO(event.eventDate), "EEEE, MMMM d, yyyy")} &middot; {categoryLabels[event.category]}
+                        {format(parseISO(reminder.dueDate), "EEEE, MMMM d, yyyy")}
+                        {reminder.dueTime && <> at {formatTime(reminder.dueTime)}</>}
+                        {" "}&middot; {categoryLabels[reminder.category]}
+                        {reminder.detail && <> &middot; {reminder.detail}</>}
                       </p>
-                      {event.pets && event.pets.length > 0 && (
+                      {reminder.pets.length > 0 && (
                         <div className="flex flex-wrap items-center gap-1.5 mt-2">
-                          {event.pets.map((p) => (
+                          {reminder.pets.map((p) => (
                             <Badge key={p.id} variant="secondary" className="text-xs">
                               {p.name}
                             </Badge>
@@ -191,6 +298,58 @@ export default function RemindersPage() {
                         </div>
                       )}
                     </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => acknowledgeMutation.mutate({ reminder, action: "completed" })}
+                        disabled={acknowledgeMutation.isPending}
+                        title="Mark as done"
+                        data-testid={`button-complete-reminder-${reminder.id}`}
+                      >
+                        <CheckCircle2 className="h-4 w-4" />
+                      </Button>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            disabled={acknowledgeMutation.isPending}
+                            title="Snooze"
+                            data-testid={`button-snooze-reminder-${reminder.id}`}
+                          >
+                            <AlarmClock className="h-4 w-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          {snoozeOptions.map((option) => (
+                            <DropdownMenuItem
+                              key={option.days}
+                              onClick={() =>
+                                acknowledgeMutation.mutate({
+                                  reminder,
+                                  action: "snoozed",
+                                  snoozedUntil: format(addDays(parseISO(today), option.days), "yyyy-MM-dd"),
+                                })
+                              }
+                              data-testid={`menuitem-snooze-${option.days}-${reminder.id}`}
+                            >
+                              {option.label}
+                            </DropdownMenuItem>
+                          ))}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => acknowledgeMutation.mutate({ reminder, action: "dismissed" })}
+                        disabled={acknowledgeMutation.isPending}
+                        title="Dismiss"
+                        data-testid={`button-dismiss-reminder-${reminder.id}`}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
                   </div>
                 </CardContent>
               </Card>
@@ -1,12 +1,570 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { Separator } from "@/components/ui/separator";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
 import { useTheme } from "@/components/theme-provider";
-import { Settings as SettingsIcon, Palette, Bell, Database, Shield } from "lucide-react";
+import { ShareLinksCard } from "@/components/share-links-card";
+import { RestoreBackupDialog } from "@/components/restore-backup-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { authErrorMessage, useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  Settings as SettingsIcon,
+  Palette,
+  Bell,
+  Database,
+  Shield,
+  Globe,
+  CalendarPlus,
+  Copy,
+  Trash2,
+  Users,
+  UserPlus,
+  LogOut,
+  FileJson,
+  FileArchive,
+  Upload,
+} from "lucide-react";
+import { householdRoles } from "@shared/schema";
+import { weightUnits } from "@shared/weight";
+import type {
+  CalendarFeed,
+  CurrentHousehold,
+  Household,
+  HouseholdInvitation,
+  HouseholdMembership,
+  HouseholdMemberWithUser,
+  HouseholdRole,
+  Pet,
+} from "@shared/schema";
+
+const timeZones = Array.from(new Set(["UTC", ...Intl.supportedValuesOf("timeZone")]));
+const browserTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+function feedUrl(feed: CalendarFeed): string {
+  return `${window.location.origin}/api/calendar/${feed.token}.ics`;
+}
+
+const roleLabels: Record<HouseholdRole, string> = {
+  owner: "Owner",
+  caretaker: "Caretaker",
+  viewer: "Viewer",
+};
+
+const roleDescriptions: Record<HouseholdRole, string> = {
+  owner: "Full access, including members and settings",
+  caretaker: "Can add and edit pets, events and records",
+  viewer: "Can look but not change anything",
+};
+
+// Switching, joining or leaving changes which household every query reads from.
+function refetchEverything() {
+  queryClient.invalidateQueries();
+}
+
+function MembersCard({ household }: { household: CurrentHousehold }) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const isOwner = household.role === "owner";
+  const [inviteRole, setInviteRole] = useState<HouseholdRole>("caretaker");
+
+  const { data: members = [] } = useQuery<HouseholdMemberWithUser[]>({
+    queryKey: ["/api/household/members"],
+  });
+
+  const { data: invitations = [] } = useQuery<HouseholdInvitation[]>({
+    queryKey: ["/api/household/invitations"],
+    enabled: isOwner,
+  });
+
+  const onError = (error: Error) => {
+    toast({ title: authErrorMessage(error), variant: "destructive" });
+  };
+
+  const roleMutation = useMutation({
+    mutationFn: ({ id, role }: { id: number; role: HouseholdRole }) =>
+      apiRequest("PATCH", `/api/household/members/${id}`, { role }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/household/members"] });
+      toast({ title: "Role updated" });
+    },
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/household/members/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/household/members"] });
+      toast({ title: "Member removed" });
+    },
+    onError,
+  });
+
+  const inviteMutation = useMutation({
+    mutationFn: (role: HouseholdRole) => apiRequest("POST", "/api/household/invitations", { role }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/household/invitations"] });
+      toast({ title: "Invitation created", description: "Share the code with the person you're inviting" });
+    },
+    onError,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/household/invitations/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/household/invitations"] });
+      toast({ title: "Invitation revoked" });
+    },
+  });
+
+  const copyCode = async (invitation: HouseholdInvitation) => {
+    await navigator.clipboard.writeText(invitation.code);
+    toast({ title: "Code copied" });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center gap-2 pb-2">
+        <Users className="h-4 w-4 text-muted-foreground" />
+        <CardTitle className="text-base font-semibold">Members</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          {members.map((member) => (
+            <div key={member.id} className="flex items-center gap-2" data-testid={`row-member-${member.id}`}>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium truncate">
+                  {member.displayName || member.username}
+                  {member.userId === user?.id && <span className="text-muted-foreground font-normal"> (you)</span>}
+                </p>
+                <p className="text-xs text-muted-foreground truncate">@{member.username}</p>
+              </div>
+              {isOwner ? (
+                <>
+                  <Select
+                    value={member.role}
+                    onValueChange={(role) => roleMutation.mutate({ id: member.id, role: role as HouseholdRole })}
+                    disabled={roleMutation.isPending}
+                  >
+                    <SelectTrigger className="w-[130px]" data-testid={`select-member-role-${member.id}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {householdRoles.map((role) => (
+                        <SelectItem key={role} value={role}>
+                          {roleLabels[role]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => removeMutation.mutate(member.id)}
+                    disabled={member.userId === user?.id}
+                    title="Remove member"
+                    data-testid={`button-remove-member-${member.id}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </>
+              ) : (
+                <Badge variant="secondary">{roleLabels[member.role]}</Badge>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {isOwner && (
+          <>
+            <Separator />
+            <div className="space-y-2">
+              <div>
+                <Label className="text-sm font-medium">Invite someone</Label>
+                <p className="text-xs text-muted-foreground mt-0.5">
+                  Codes work once and expire after a week. {roleDescriptions[inviteRole]}.
+                </p>
+              </div>
+              {invitations.map((invitation) => (
+                <div key={invitation.id} className="flex items-center gap-2" data-testid={`row-invitation-${invitation.id}`}>
+                  <span className="font-mono text-sm">{invitation.code}</span>
+                  <Badge variant="outline">{roleLabels[invitation.role]}</Badge>
+                  <span className="text-xs text-muted-foreground flex-1">
+                    expires {new Date(invitation.expiresAt).toLocaleDateString()}
+                  </span>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => copyCode(invitation)}
+                    title="Copy code"
+                    data-testid={`button-copy-invitation-${invitation.id}`}
+                  >
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => revokeMutation.mutate(invitation.id)}
+                    title="Revoke invitation"
+                    data-testid={`button-revoke-invitation-${invitation.id}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <div className="flex flex-wrap items-center gap-2">
+                <Select value={inviteRole} onValueChange={(role) => setInviteRole(role as HouseholdRole)}>
+                  <SelectTrigger className="w-[150px]" data-testid="select-invitation-role">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {householdRoles.map((role) => (
+                      <SelectItem key={role} value={role}>
+                        {roleLabels[role]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="outline"
+                  onClick={() => inviteMutation.mutate(inviteRole)}
+                  disabled={inviteMutation.isPending}
+                  data-testid="button-create-invitation"
+                >
+                  <UserPlus className="h-4 w-4 mr-1" />
+                  Create Code
+                </Button>
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function HouseholdsCard() {
+  const { toast } = useToast();
+  const [code, setCode] = useState("");
+
+  const { data: memberships = [] } = useQuery<HouseholdMembership[]>({
+    queryKey: ["/api/households"],
+  });
+  const active = memberships.find((m) => m.active);
+
+  const onError = (error: Error) => {
+    toast({ title: authErrorMessage(error), variant: "destructive" });
+  };
+
+  const switchMutation = useMutation({
+    mutationFn: (householdId: number) => apiRequest("POST", "/api/households/active", { householdId }),
+    onSuccess: refetchEverything,
+    onError,
+  });
+
+  const joinMutation = useMutation({
+    mutationFn: (inviteCode: string) => apiRequest("POST", "/api/invitations/accept", { code: inviteCode }),
+    onSuccess: () => {
+      setCode("");
+      refetchEverything();
+      toast({ title: "Joined household" });
+    },
+    onError,
+  });
+
+  const leaveMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/household/leave"),
+    onSuccess: () => {
+      refetchEverything();
+      toast({ title: "Left household" });
+    },
+    onError,
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center gap-2 pb-2">
+        <Users className="h-4 w-4 text-muted-foreground" />
+        <CardTitle className="text-base font-semibold">Your Households</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {memberships.length > 1 && (
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div>
+              <Label className="text-sm font-medium">Active household</Label>
+              <p className="text-xs text-muted-foreground mt-0.5">Pets, events and reminders shown across the app</p>
+            </div>
+            <Select
+              value={active ? String(active.id) : undefined}
+              onValueChange={(id) => switchMutation.mutate(parseInt(id))}
+              disabled={switchMutation.isPending}
+            >
+              <SelectTrigger className="w-[220px]" data-testid="select-active-household">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {memberships.map((membership) => (
+                  <SelectItem key={membership.id} value={String(membership.id)}>
+                    {membership.name} · {roleLabels[membership.role]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label className="text-sm font-medium" htmlFor="invitation-code">Join a household</Label>
+          <div className="flex gap-2">
+            <Input
+              id="invitation-code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="ABCD-EFGH"
+              className="font-mono uppercase max-w-[200px]"
+              data-testid="input-invitation-code"
+            />
+            <Button
+              variant="outline"
+              onClick={() => joinMutation.mutate(code)}
+              disabled={!code.trim() || joinMutation.isPending}
+              data-testid="button-accept-invitation"
+            >
+              Join
+            </Button>
+          </div>
+        </div>
+
+        {active && (
+          <>
+            <Separator />
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <p className="text-xs text-muted-foreground">
+                Leaving {active.name} removes your access to its pets and records.
+              </p>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => leaveMutation.mutate()}
+                disabled={leaveMutation.isPending}
+                data-testid="button-leave-household"
+              >
+                <LogOut className="h-4 w-4 mr-1" />
+                Leave
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function CalendarFeedsCard() {
+  const { toast } = useToast();
+  const [newFeedPet, setNewFeedPet] = useState<string>("household");
+
+  const { data: feeds = [] } = useQuery<CalendarFeed[]>({
+    queryKey: ["/api/calendar-feeds"],
+  });
+
+  const { data: pets = [] } = useQuery<Pet[]>({
+    queryKey: ["/api/pets"],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: (petId: number | null) => apiRequest("POST", "/api/calendar-feeds", { petId }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/calendar-feeds"] });
+      toast({ title: "Calendar link created" });
+    },
+    onError: (error: Error) => {
+      toast({ title: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/calendar-feeds/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/calendar-feeds"] });
+      toast({ title: "Calendar link revoked" });
+    },
+  });
+
+  const copyUrl = async (feed: CalendarFeed) => {
+    await navigator.clipboard.writeText(feedUrl(feed));
+    toast({ title: "Link copied", description: "Paste it into your calendar app's \"subscribe by URL\" option" });
+  };
+
+  const petName = (petId: number | null) =>
+    petId === null ? "All pets" : pets.find((p) => p.id === petId)?.name ?? "Unknown pet";
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center gap-2 pb-2">
+        <CalendarPlus className="h-4 w-4 text-muted-foreground" />
+        <CardTitle className="text-base font-semibold">Subscribe</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-xs text-muted-foreground">
+          Add events, vaccination due dates and medication courses to Google Calendar, Apple Calendar or
+          Outlook. Anyone with a link can read that calendar, so revoke links you no longer use.
+        </p>
+
+        {feeds.length > 0 && (
+          <div className="space-y-2">
+            {feeds.map((feed) => (
+              <div key={feed.id} className="flex items-center gap-2" data-testid={`row-calendar-feed-${feed.id}`}>
+                <span className="text-sm font-medium w-24 shrink-0 truncate">{petName(feed.petId)}</span>
+                <Input value={feedUrl(feed)} readOnly className="text-xs font-mono" onFocus={(e) => e.target.select()} />
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => copyUrl(feed)}
+                  title="Copy link"
+                  data-testid={`button-copy-calendar-feed-${feed.id}`}
+                >
+                  <Copy className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => deleteMutation.mutate(feed.id)}
+                  title="Revoke link"
+                  data-testid={`button-delete-calendar-feed-${feed.id}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={newFeedPet} onValueChange={setNewFeedPet}>
+            <SelectTrigger className="w-[180px]" data-testid="select-calendar-feed-pet">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="household">All pets</SelectItem>
+              {pets.map((pet) => (
+                <SelectItem key={pet.id} value={String(pet.id)}>
+                  {pet.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            onClick={() => createMutation.mutate(newFeedPet === "household" ? null : parseInt(newFeedPet))}
+            disabled={createMutation.isPending}
+            data-testid="button-create-calendar-feed"
+          >
+            <CalendarPlus className="h-4 w-4 mr-1" />
+            Create Link
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function DataManagementCard({ canRestore }: { canRestore: boolean }) {
+  const [showRestore, setShowRestore] = useState(false);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center gap-2 pb-2">
+        <Database className="h-4 w-4 text-muted-foreground" />
+        <CardTitle className="text-base font-semibold">Data Management</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <Label className="text-sm font-medium">Full backup</Label>
+            <p className="text-xs text-muted-foreground mt-0.5">
+              Every pet, weight, event, vaccination and medication as one JSON file
+            </p>
+          </div>
+          <Button size="sm" variant="outline" asChild>
+            <a href="/api/export?format=json" download data-testid="link-export-json">
+              <FileJson className="h-3.5 w-3.5 mr-1" />
+              Download JSON
+            </a>
+          </Button>
+        </div>
+        <Separator />
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <Label className="text-sm font-medium">Spreadsheets</Label>
+            <p className="text-xs text-muted-foreground mt-0.5">
+              A ZIP with one CSV file per table, for Excel or Google Sheets
+            </p>
+          </div>
+          <Button size="sm" variant="outline" asChild>
+            <a href="/api/export?format=csv" download data-testid="link-export-csv">
+              <FileArchive className="h-3.5 w-3.5 mr-1" />
+              Download CSV
+            </a>
+          </Button>
+        </div>
+        {canRestore && (
+          <>
+            <Separator />
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div>
+                <Label className="text-sm font-medium">Restore</Label>
+                <p className="text-xs text-muted-foreground mt-0.5">
+                  Merge a JSON backup into this household, or replace everything with it
+                </p>
+              </div>
+              <Button size="sm" variant="outline" onClick={() => setShowRestore(true)} data-testid="button-restore-backup">
+                <Upload className="h-3.5 w-3.5 mr-1" />
+                Restore Backup
+              </Button>
+            </div>
+            <RestoreBackupDialog open={showRestore} onOpenChange={setShowRestore} />
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
 
 export default function SettingsPage() {
   const { theme, toggleTheme } = useTheme();
+  const { toast } = useToast();
+
+  const { data: household } = useQuery<CurrentHousehold>({
+    queryKey: ["/api/household"],
+  });
+  const isOwner = household?.role === "owner";
+
+  const householdMutation = useMutation({
+    mutationFn: (data: Partial<Household>) => apiRequest("PATCH", "/api/household", data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/household"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reminders"] });
+      // Timelines are rendered server-side in the household's weight unit.
+      queryClient.invalidateQueries({ queryKey: ["/api/pets"] });
+      toast({ title: "Household settings saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: error.message, variant: "destructive" });
+    },
+  });
 
   return (
     <div className="p-4 md:p-6 space-y-6">
@@ -42,36 +600,103 @@ export default function SettingsPage() {
 
         <Card>
           <CardHeader className="flex flex-row items-center gap-2 pb-2">
-            <Bell className="h-4 w-4 text-muted-foreground" />
-            <CardTitle className="text-base font-semibold">Notifications</CardTitle>
+            <Globe className="h-4 w-4 text-muted-foreground" />
+            <CardTitle className="text-base font-semibold">Household</CardTitle>
           </CardHeader>
-          <CardContent>
-            <div className="flex flex-col items-center justify-center py-6 text-muted-foreground">
-              <Bell className="h-8 w-8 mb-2 opacity-30" />
-              <p className="text-sm">Notification preferences coming soon</p>
-              <p className="text-xs mt-1">
-                Configure email and push notifications for reminders
-              </p>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div>
+                <Label className="text-sm font-medium">Timezone</Label>
+                <p className="text-xs text-muted-foreground mt-0.5">
+                  Appointment times and reminders follow this timezone
+                </p>
+              </div>
+              <Select
+                value={household?.timezone}
+                onValueChange={(timezone) => householdMutation.mutate({ timezone })}
+                disabled={!isOwner || householdMutation.isPending}
+              >
+                <SelectTrigger className="w-[220px]" data-testid="select-household-timezone">
+                  <SelectValue placeholder="Loading..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {timeZones.map((zone) => (
+                    <SelectItem key={zone} value={zone}>
+                      {zone.replace(/_/g, " ")}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div>
+                <Label className="text-sm font-medium">Weight unit</Label>
+                <p className="text-xs text-muted-foreground mt-0.5">
+                  Charts, reports and exports show weights in this unit
+                </p>
+              </div>
+              <Select
+                value={household?.weightUnit}
+                onValueChange={(unit) => householdMutation.mutate({ weightUnit: unit as Household["weightUnit"] })}
+                disabled={!isOwner || householdMutation.isPending}
+              >
+                <SelectTrigger className="w-[220px]" data-testid="select-household-weight-unit">
+                  <SelectValue placeholder="Loading..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {weightUnits.map((unit) => (
+                    <SelectItem key={unit} value={unit}>
+                      {unit}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {isOwner && household.timezone !== browserTimeZone && (
+              <div className="flex flex-wrap items-center justify-between gap-2 rounded-md border p-3 text-sm">
+                <span className="text-muted-foreground">
+                  This device is set to {browserTimeZone.replace(/_/g, " ")}
+                </span>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => householdMutation.mutate({ timezone: browserTimeZone })}
+                  disabled={householdMutation.isPending}
+                  data-testid="button-use-browser-timezone"
+                >
+                  Use this timezone
+                </Button>
+              </div>
+            )}
           </CardContent>
         </Card>
 
+        {household && <MembersCard household={household} />}
+
+        <HouseholdsCard />
+
+        {household && <ShareLinksCard canEdit={household.role !== "viewer"} />}
+
+        {isOwner && <CalendarFeedsCard />}
+
         <Card>
           <CardHeader className="flex flex-row items-center gap-2 pb-2">
-            <Database className="h-4 w-4 text-muted-foreground" />
-            <CardTitle className="text-base font-semibold">Data Management</CardTitle>
+            <Bell className="h-4 w-4 text-muted-foreground" />
+            <CardTitle className="text-base font-semibold">Notifications</CardTitle>
           </CardHeader>
           <CardContent>
             <div className="flex flex-col items-center justify-center py-6 text-muted-foreground">
-              <Database className="h-8 w-8 mb-2 opacity-30" />
-              <p className="text-sm">Export and backup options coming soon</p>
+              <Bell className="h-8 w-8 mb-2 opacity-30" />
+              <p className="text-sm">Notification preferences coming soon</p>
               <p className="text-xs mt-1">
-                Export your pet data and health records as PDF
+                Configure email and push notifications for reminders
               </p>
             </div>
           </CardContent>
         </Card>
 
+        <DataManagementCard canRestore={isOwner} />
+
         <Card>
           <CardHeader className="flex flex-row items-center gap-2 pb-2">
             <Shield className="h-4 w-4 text-muted-foreground" />
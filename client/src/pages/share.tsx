@@ -0,0 +1,169 @@
+import { useQuery } from "@tanstack/react-query";
+import { useParams } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Badge } from "@/components/ui/badge";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { PawPrint, Phone, Pill, Stethoscope, UtensilsCrossed } from "lucide-react";
+import type { SharedPet, SharedView } from "@shared/schema";
+import { format, parseISO } from "date-fns";
+
+function Field({ label, value }: { label: string; value: string | null }) {
+  if (!value) return null;
+  return (
+    <div className="py-1.5">
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p className="text-sm font-medium mt-0.5 whitespace-pre-line">{value}</p>
+    </div>
+  );
+}
+
+// Uploaded photos are private; the share token is what grants a sitter access to them.
+function sharedAvatarUrl(avatarUrl: string | null, token: string): string | undefined {
+  if (!avatarUrl) return undefined;
+  return avatarUrl.startsWith("/objects/") ? `${avatarUrl}?share=${encodeURIComponent(token)}` : avatarUrl;
+}
+
+function SharedPetCard({ pet, token }: { pet: SharedPet; token: string }) {
+  const hasFeeding = pet.foodBrand || pet.perMealAmount || pet.mealsPerDay || pet.foodBowlColour;
+
+  return (
+    <Card data-testid={`card-shared-pet-${pet.id}`}>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg font-semibold flex items-center gap-3">
+          <Avatar className="h-10 w-10">
+            <AvatarImage src={sharedAvatarUrl(pet.avatarUrl, token)} alt={pet.name} />
+            <AvatarFallback>
+              <PawPrint className="h-4 w-4 text-muted-foreground" />
+            </AvatarFallback>
+          </Avatar>
+          {pet.name}
+          <span className="text-sm font-normal text-muted-foreground">{pet.breed}</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <p className="text-xs font-medium text-muted-foreground uppercase tracking-wider mb-1 flex items-center gap-1.5">
+            <UtensilsCrossed className="h-3.5 w-3.5" /> Feeding
+          </p>
+          {hasFeeding ? (
+            <div className="grid grid-cols-2 gap-x-6">
+              <Field label="Food Brand" value={pet.foodBrand} />
+              <Field label="Per Meal Amount" value={pet.perMealAmount} />
+              <Field label="Meals Per Day" value={pet.mealsPerDay} />
+              <Field label="Food Bowl Colour" value={pet.foodBowlColour} />
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground italic">No feeding details recorded</p>
+          )}
+        </div>
+
+        <div>
+          <p className="text-xs font-medium text-muted-foreground uppercase tracking-wider mb-1 flex items-center gap-1.5">
+            <Pill className="h-3.5 w-3.5" /> Medications
+          </p>
+          {pet.medications.length > 0 ? (
+            <div className="space-y-2">
+              {pet.medications.map((med) => (
+                <div key={med.id} className="rounded-md border p-2.5" data-testid={`shared-medication-${med.id}`}>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <p className="text-sm font-medium">{med.name}</p>
+                    {med.dosage && <Badge variant="secondary">{med.dosage}</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-0.5">
+                    {[med.frequency, med.endDate && `until ${format(parseISO(med.endDate), "MMM d")}`].filter(Boolean).join(" · ")}
+                  </p>
+                  {med.notes && <p className="text-xs mt-1 whitespace-pre-line">{med.notes}</p>}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground italic">No current medications</p>
+          )}
+        </div>
+
+        {pet.vetName && (
+          <div>
+            <p className="text-xs font-medium text-muted-foreground uppercase tracking-wider mb-1 flex items-center gap-1.5">
+              <Stethoscope className="h-3.5 w-3.5" /> Vet
+            </p>
+            <p className="text-sm font-medium">{pet.vetName}</p>
+          </div>
+        )}
+
+        {pet.traits && <Field label="Good to know" value={pet.traits} />}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Public, read-only page for pet sitters; rendered outside the signed-in app shell.
+export default function SharePage() {
+  const { token } = useParams<{ token: string }>();
+
+  const { data: view, isLoading, isError } = useQuery<SharedView>({
+    queryKey: ["/api/share", token],
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="flex items-center justify-between gap-2 px-4 py-3 border-b">
+        <div className="flex items-center gap-2 font-semibold">
+          <PawPrint className="h-5 w-5" />
+          PetCare
+        </div>
+        <ThemeToggle />
+      </header>
+      <main className="mx-auto max-w-2xl p-4 md:p-6 space-y-4">
+        {isLoading ? (
+          <div className="space-y-4">
+            <Skeleton className="h-8 w-48" />
+            <Skeleton className="h-64 w-full" />
+          </div>
+        ) : isError || !view ? (
+          <Card>
+            <CardContent className="flex flex-col items-center pt-8 pb-6 text-center">
+              <PawPrint className="h-12 w-12 text-muted-foreground mb-4 opacity-30" />
+              <h1 className="text-xl font-bold mb-2" data-testid="text-share-unavailable">Link unavailable</h1>
+              <p className="text-sm text-muted-foreground">
+                This link has expired or been revoked. Ask the owner for a new one.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <div>
+              <h1 className="text-2xl font-bold" data-testid="text-share-title">
+                {view.label || `${view.pets.map((p) => p.name).join(" & ")} care notes`}
+              </h1>
+              <p className="text-sm text-muted-foreground">
+                Shared by {view.householdName} · available until {format(parseISO(view.expiresAt), "EEE, MMM d 'at' h:mm a")}
+              </p>
+            </div>
+
+            {view.emergencyContacts && (
+              <Card className="border-destructive/40">
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-base font-semibold flex items-center gap-2">
+                    <Phone className="h-4 w-4 text-destructive" />
+                    Emergency Contacts
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <p className="text-sm whitespace-pre-line" data-testid="text-share-emergency-contacts">
+                    {view.emergencyContacts}
+                  </p>
+                </CardContent>
+              </Card>
+            )}
+
+            {view.pets.map((pet) => (
+              <SharedPetCard key={pet.id} pet={pet} token={token} />
+            ))}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
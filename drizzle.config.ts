@@ -8,6 +8,8 @@ export default defineConfig({
   out: "./migrations",
   schema: "./shared/schema.ts",
   dialect: "postgresql",
+  // Session rows are managed by connect-pg-simple (server/auth.ts).
+  tablesFilter: ["!user_sessions"],
   dbCredentials: {
     url: process.env.DATABASE_URL,
   },
@@ -0,0 +1,182 @@
+import type { Express, NextFunction, Request, Response } from "express";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { ZodError } from "zod";
+import { pool } from "./db";
+import { storage } from "./storage";
+import { defaultHouseholdName, resolveHousehold } from "./households";
+import { loginSchema, registerUserSchema } from "@shared/schema";
+import type { PublicUser, User } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends PublicUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+// Kept out of drizzle's view (see drizzle.config.ts) so `db:push` doesn't drop it.
+const SESSION_TABLE = "user_sessions";
+const SESSION_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Reachable without a session. Calendar feeds, sitter shares and local upload URLs are
+// authorised by their token or signature instead.
+const publicPaths = [
+  /^\/api\/login$/,
+  /^\/api\/register$/,
+  /^\/api\/logout$/,
+  /^\/api\/calendar\/[^/]+\.ics$/,
+  /^\/api\/share\/[^/]+$/,
+  /^\/api\/uploads\/local$/,
+];
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${salt}:${hash.toString("hex")}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [salt, hashHex] = stored.split(":");
+  if (!salt || !hashHex) return false;
+  const expected = Buffer.from(hashHex, "hex");
+  const actual = (await scryptAsync(password, salt, expected.length)) as Buffer;
+  return timingSafeEqual(expected, actual);
+}
+
+function toPublicUser({ passwordHash: _passwordHash, ...user }: User): PublicUser {
+  return user;
+}
+
+function sessionSecret(): string {
+  if (process.env.SESSION_SECRET) return process.env.SESSION_SECRET;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  // Development fallback: sessions simply don't survive a server restart.
+  return randomBytes(32).toString("hex");
+}
+
+// `/objects` is left to its own ACL check, which also admits sitters holding a share link.
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  const protectedPath = req.path.startsWith("/api/");
+  if (!protectedPath || publicPaths.some((pattern) => pattern.test(req.path)) || req.isAuthenticated()) {
+    return next();
+  }
+  res.status(401).json({ error: "Not signed in" });
+}
+
+/**
+ * Sets up cookie sessions (stored in Postgres), the local username/password
+ * strategy and the register/login/logout/user routes, then guards every
+ * other `/api` route and resolves the caller's household.
+ * Must run before other routes register.
+ */
+export function setupAuth(app: Express): void {
+  const PostgresSessionStore = connectPg(session);
+
+  app.set("trust proxy", 1);
+  app.use(
+    session({
+      store: new PostgresSessionStore({ pool, tableName: SESSION_TABLE, createTableIfMissing: true }),
+      secret: sessionSecret(),
+      resave: false,
+      saveUninitialized: false,
+      cookie: {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: process.env.NODE_ENV === "production",
+        maxAge: SESSION_MAX_AGE_MS,
+      },
+    })
+  );
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username.trim().toLowerCase());
+        if (!user || !(await verifyPassword(password, user.passwordHash))) {
+          return done(null, false, { message: "Incorrect username or password" });
+        }
+        done(null, toPublicUser(user));
+      } catch (error) {
+        done(error);
+      }
+    })
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      // A deleted account simply ends the session rather than erroring.
+      done(null, user ? toPublicUser(user) : false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.use(requireAuth);
+  app.use(resolveHousehold);
+
+  app.post("/api/register", async (req, res, next) => {
+    try {
+      const { username, password, displayName } = registerUserSchema.parse(req.body);
+      if (await storage.getUserByUsername(username)) {
+        return res.status(400).json({ error: "That username is already taken" });
+      }
+      const user = await storage.createUser({
+        username,
+        passwordHash: await hashPassword(password),
+        displayName: displayName || null,
+      });
+      // The very first account takes over the household that existed before accounts did.
+      const claimed = (await storage.countUsers()) === 1 ? await storage.claimUnownedHousehold(user.id) : undefined;
+      if (!claimed) await storage.createHousehold(user.id, defaultHouseholdName(user));
+      req.login(toPublicUser(user), (error) => {
+        if (error) return next(error);
+        res.status(201).json(toPublicUser(user));
+      });
+    } catch (error: any) {
+      if (error instanceof ZodError) return res.status(400).json({ error: error.errors });
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    const parsed = loginSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.errors });
+    req.body = parsed.data;
+
+    passport.authenticate("local", (error: unknown, user: PublicUser | false, info?: { message: string }) => {
+      if (error) return next(error);
+      if (!user) return res.status(401).json({ error: info?.message || "Incorrect username or password" });
+      // passport regenerates the session id on login, which rules out session fixation.
+      req.login(user, (loginError) => {
+        if (loginError) return next(loginError);
+        res.json(user);
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((error) => {
+      if (error) return next(error);
+      req.session.destroy(() => {
+        res.clearCookie("connect.sid");
+        res.status(204).send();
+      });
+    });
+  });
+
+  app.get("/api/user", (req, res) => {
+    res.json(req.user);
+  });
+}
@@ -0,0 +1,255 @@
+import { storage } from "./storage";
+import { fromZonedTime, isValidTimeZone, toZonedParts, todayInTimeZone } from "@shared/timezone";
+import type { CalendarImportCandidate, Event, EventWithPets, Pet, RecurrenceRule } from "@shared/schema";
+
+type IcsProperty = { name: string; params: Record<string, string>; value: string };
+type IcsComponent = { type: string; properties: IcsProperty[]; children: IcsComponent[] };
+
+const frequencyNames: Record<string, RecurrenceRule["frequency"]> = {
+  DAILY: "daily",
+  WEEKLY: "weekly",
+  MONTHLY: "monthly",
+  YEARLY: "yearly",
+};
+
+const weekdayCodes = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+// First match wins; anything unmatched is treated as an appointment.
+const categoryKeywords: [Event["category"], RegExp][] = [
+  ["vaccination", /vaccin|booster|rabies|dhpp|bordetella|lepto|jab/i],
+  ["medication", /medic|dose|tablet|pill|prescription|flea|worm/i],
+  ["vet_visit", /vet|check-?up|exam|consult|surgery|dental|follow-?up/i],
+];
+
+function unfold(text: string): string[] {
+  return text.replace(/\r\n?/g, "\n").replace(/\n[ \t]/g, "").split("\n").filter((line) => line.trim());
+}
+
+function parseProperty(line: string): IcsProperty {
+  // The value starts at the first colon that is not inside a quoted parameter value.
+  let inQuotes = false;
+  let split = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ":" && !inQuotes) {
+      split = i;
+      break;
+    }
+  }
+  const head = split === -1 ? line : line.slice(0, split);
+  const [name, ...rawParams] = head.split(";");
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const [key, ...rest] = param.split("=");
+    params[key.toUpperCase()] = rest.join("=").replace(/^"|"$/g, "");
+  }
+  return { name: name.toUpperCase(), params, value: split === -1 ? "" : line.slice(split + 1) };
+}
+
+function parseComponents(text: string): IcsComponent[] {
+  const root: IcsComponent = { type: "ROOT", properties: [], children: [] };
+  const stack = [root];
+  for (const line of unfold(text)) {
+    const property = parseProperty(line);
+    const current = stack[stack.length - 1];
+    if (property.name === "BEGIN") {
+      const component = { type: property.value.toUpperCase(), properties: [], children: [] };
+      current.children.push(component);
+      stack.push(component);
+    } else if (property.name === "END") {
+      if (stack.length > 1) stack.pop();
+    } else {
+      current.properties.push(property);
+    }
+  }
+  return root.children;
+}
+
+function findAll(components: IcsComponent[], type: string): IcsComponent[] {
+  return components.flatMap((c) => (c.type === type ? [c] : findAll(c.children, type)));
+}
+
+function getProperty(component: IcsComponent, name: string): IcsProperty | undefined {
+  return component.properties.find((p) => p.name === name);
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === "n" || char === "N" ? "\n" : char));
+}
+
+// ISO 8601 durations as used by DURATION and TRIGGER, e.g. "PT1H30M" or "-P1D".
+function parseDurationMinutes(value: string): number | null {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!match) return null;
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const total =
+    Number(weeks || 0) * 7 * 24 * 60 +
+    Number(days || 0) * 24 * 60 +
+    Number(hours || 0) * 60 +
+    Number(minutes || 0) +
+    Math.round(Number(seconds || 0) / 60);
+  return sign === "-" ? -total : total;
+}
+
+type ParsedDate = { date: string; time: string | null; instant: Date | null };
+
+function parseDateValue(property: IcsProperty, householdZone: string): ParsedDate | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/.exec(property.value.trim());
+  if (!match) return null;
+  const [, year, month, day, hour, minute, , utc] = match;
+  const date = `${year}-${month}-${day}`;
+  if (!hour || property.params.VALUE === "DATE") return { date, time: null, instant: null };
+
+  const time = `${hour}:${minute}`;
+  // Floating times and unknown (e.g. Windows-style) TZIDs are read as household time.
+  const tzid = property.params.TZID;
+  const sourceZone = utc ? "UTC" : tzid && isValidTimeZone(tzid) ? tzid : householdZone;
+  const instant = fromZonedTime(date, time, sourceZone);
+  const local = toZonedParts(instant, householdZone);
+  return { date: local.date, time: local.time, instant };
+}
+
+function parseRecurrence(value: string, warnings: string[]): RecurrenceRule | null {
+  const parts: Record<string, string> = {};
+  for (const part of value.split(";")) {
+    const [key, partValue] = part.split("=");
+    parts[key.toUpperCase()] = partValue;
+  }
+
+  const frequency = frequencyNames[parts.FREQ];
+  const unsupported = Object.keys(parts).filter((key) => !["FREQ", "INTERVAL", "COUNT", "UNTIL", "BYDAY", "WKST"].includes(key));
+  const byWeekday = parts.BYDAY?.split(",").map((code) => weekdayCodes.indexOf(code.toUpperCase()));
+  if (!frequency || unsupported.length > 0 || byWeekday?.some((day) => day < 0) || (byWeekday && frequency !== "weekly")) {
+    warnings.push("Repeats in a way PetCare can't represent; only the first occurrence will be imported");
+    return null;
+  }
+
+  const until = parts.UNTIL ? /^(\d{4})(\d{2})(\d{2})/.exec(parts.UNTIL) : null;
+  return {
+    frequency,
+    interval: parts.INTERVAL ? parseInt(parts.INTERVAL) : 1,
+    count: parts.COUNT ? parseInt(parts.COUNT) : null,
+    until: until ? `${until[1]}-${until[2]}-${until[3]}` : null,
+    byWeekday: byWeekday ?? null,
+  };
+}
+
+// Event notes are stored as rich-text HTML, so plain DESCRIPTION text becomes paragraphs.
+function textToHtml(text: string): string {
+  const escaped = text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+  return escaped
+    .split(/\n{2,}/)
+    .map((paragraph) => `<p>${paragraph.replace(/\n/g, "<br>")}</p>`)
+    .join("");
+}
+
+function normalizeTitle(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+function findDuplicate(
+  candidate: { uid: string | null; title: string; eventDate: string },
+  existing: EventWithPets[]
+): EventWithPets | undefined {
+  // Our own feed's UIDs point straight back at the event they came from.
+  const ownId = candidate.uid && /^event-(\d+)@petcare$/.exec(candidate.uid);
+  return existing.find(
+    (event) =>
+      (ownId && event.id === Number(ownId[1])) ||
+      (candidate.uid && event.externalUid === candidate.uid) ||
+      (event.eventDate === candidate.eventDate && normalizeTitle(event.title) === normalizeTitle(candidate.title))
+  );
+}
+
+function suggestPets(text: string, pets: Pet[]): number[] {
+  return pets
+    .filter((pet) => new RegExp(`\\b${pet.name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\b`, "i").test(text))
+    .map((pet) => pet.id);
+}
+
+function toCandidate(
+  vevent: IcsComponent,
+  context: { timeZone: string; today: string; pets: Pet[]; events: EventWithPets[] }
+): CalendarImportCandidate | null {
+  const dtstart = getProperty(vevent, "DTSTART");
+  const start = dtstart && parseDateValue(dtstart, context.timeZone);
+  if (!start) return null;
+
+  const warnings: string[] = [];
+  const title = unescapeText(getProperty(vevent, "SUMMARY")?.value || "").trim() || "Imported event";
+  const description = getProperty(vevent, "DESCRIPTION");
+  const location = getProperty(vevent, "LOCATION");
+  const uid = getProperty(vevent, "UID")?.value.trim() || null;
+
+  let durationMinutes: number | null = null;
+  const dtend = getProperty(vevent, "DTEND");
+  const duration = getProperty(vevent, "DURATION");
+  if (start.instant && dtend) {
+    const end = parseDateValue(dtend, context.timeZone);
+    if (end?.instant) durationMinutes = Math.round((end.instant.getTime() - start.instant.getTime()) / 60_000) || null;
+  } else if (start.instant && duration) {
+    durationMinutes = parseDurationMinutes(duration.value) || null;
+  }
+
+  // Use the first alarm that fires relative to the start.
+  let reminderOffsetMinutes: number | null = null;
+  for (const alarm of vevent.children.filter((c) => c.type === "VALARM")) {
+    const trigger = getProperty(alarm, "TRIGGER");
+    if (!trigger || trigger.params.VALUE === "DATE-TIME" || trigger.params.RELATED === "END") continue;
+    const minutes = parseDurationMinutes(trigger.value);
+    if (minutes !== null && minutes <= 0) {
+      reminderOffsetMinutes = -minutes || null;
+      break;
+    }
+  }
+
+  const rrule = getProperty(vevent, "RRULE");
+  const recurrence = rrule ? parseRecurrence(rrule.value, warnings) : null;
+
+  const notes = description ? unescapeText(description.value).trim() : "";
+  const cancelled = getProperty(vevent, "STATUS")?.value.toUpperCase() === "CANCELLED";
+  if (cancelled) warnings.push("Cancelled in the source calendar");
+
+  const duplicate = findDuplicate({ uid, title, eventDate: start.date }, context.events);
+  const searchText = `${title} ${notes}`;
+  return {
+    uid,
+    title,
+    eventDate: start.date,
+    startTime: start.time,
+    durationMinutes,
+    reminderOffsetMinutes,
+    location: location ? unescapeText(location.value).trim() || null : null,
+    notes: notes ? textToHtml(notes) : null,
+    recurrence,
+    status: cancelled ? "cancelled" : !recurrence && start.date <= context.today ? "completed" : "scheduled",
+    suggestedCategory: categoryKeywords.find(([, pattern]) => pattern.test(searchText))?.[0] ?? "appointment",
+    suggestedPetIds: suggestPets(searchText, context.pets),
+    duplicateOf: duplicate ? { id: duplicate.id, title: duplicate.title, eventDate: duplicate.eventDate } : null,
+    warnings,
+  };
+}
+
+/**
+ * Parses the VEVENTs in an uploaded .ics file into import candidates. Times are
+ * converted into the household timezone and each candidate is checked against
+ * existing events so the import dialog can flag duplicates.
+ */
+export async function previewCalendarImport(householdId: number, ics: string): Promise<CalendarImportCandidate[]> {
+  const vevents = findAll(parseComponents(ics), "VEVENT");
+  if (vevents.length === 0) throw new Error("No events found in the calendar file");
+
+  const [household, pets, events] = await Promise.all([
+    storage.getHousehold(householdId),
+    storage.getPets(householdId),
+    storage.getEvents(householdId),
+  ]);
+  if (!household) throw new Error("Household not found");
+  const context = { timeZone: household.timezone, today: todayInTimeZone(household.timezone), pets, events };
+
+  return vevents
+    .filter((vevent) => !getProperty(vevent, "RECURRENCE-ID"))
+    .map((vevent) => toCandidate(vevent, context))
+    .filter((candidate): candidate is CalendarImportCandidate => candidate !== null)
+    .sort((a, b) => a.eventDate.localeCompare(b.eventDate));
+}
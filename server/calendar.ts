@@ -0,0 +1,209 @@
+import { storage } from "./storage";
+import { shiftDate } from "./recurrence";
+import { fromZonedTime } from "@shared/timezone";
+import type { CalendarFeed, EventWithPets, Medication, Pet, RecurrenceRule, Vaccination } from "@shared/schema";
+
+// UIDs must stay the same across refreshes so calendar apps update entries in place.
+const UID_DOMAIN = "petcare";
+const PRODUCT_ID = "-//PetCare//Pet Health Calendar//EN";
+
+const categoryLabels: Record<string, string> = {
+  vet_visit: "Vet Visit",
+  medication: "Medication",
+  vaccination: "Vaccination",
+  appointment: "Appointment",
+};
+
+const weekdayCodes = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+function escapeText(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+function stripHtml(html: string): string {
+  return html
+    .replace(/<\/(p|li|h[1-6])>/gi, "\n")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/\n{2,}/g, "\n")
+    .trim();
+}
+
+// RFC 5545 §3.1: lines longer than 75 octets are folded with CRLF + space.
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let current = "";
+  let bytes = 0;
+  for (const char of Array.from(line)) {
+    const size = Buffer.byteLength(char);
+    if (bytes + size > (chunks.length === 0 ? 75 : 74)) {
+      chunks.push(current);
+      current = "";
+      bytes = 0;
+    }
+    current += char;
+    bytes += size;
+  }
+  chunks.push(current);
+  return chunks.join("\r\n ");
+}
+
+function icsDate(date: string): string {
+  return date.replace(/-/g, "");
+}
+
+function icsLocalDateTime(date: string, time: string): string {
+  return `${icsDate(date)}T${time.replace(/:/g, "").padEnd(6, "0").slice(0, 6)}`;
+}
+
+function icsUtc(instant: Date): string {
+  return instant.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function recurrenceLine(rule: RecurrenceRule, startTime: string | null, timeZone: string): string {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`];
+  if (rule.interval && rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) {
+    // UNTIL must match DTSTART's value type; timed series need it as a UTC instant.
+    parts.push(`UNTIL=${startTime ? icsUtc(fromZonedTime(rule.until, "23:59", timeZone)) : icsDate(rule.until)}`);
+  }
+  if (rule.frequency === "weekly" && rule.byWeekday?.length) {
+    parts.push(`BYDAY=${rule.byWeekday.map((day) => weekdayCodes[day]).join(",")}`);
+  }
+  return `RRULE:${parts.join(";")}`;
+}
+
+function eventLines(event: EventWithPets, timeZone: string, showPets: boolean): string[] {
+  const summary = showPets && event.pets.length > 0
+    ? `${event.title} (${event.pets.map((p) => p.name).join(", ")})`
+    : event.title;
+  const description = [event.outcome && `Outcome: ${event.outcome}`, event.notes && stripHtml(event.notes)]
+    .filter(Boolean)
+    .join("\n\n");
+
+  const lines = [`UID:event-${event.id}@${UID_DOMAIN}`, `SUMMARY:${escapeText(summary)}`];
+  if (event.startTime) {
+    lines.push(`DTSTART;TZID=${timeZone}:${icsLocalDateTime(event.eventDate, event.startTime)}`);
+    if (event.durationMinutes) lines.push(`DURATION:PT${event.durationMinutes}M`);
+  } else {
+    lines.push(`DTSTART;VALUE=DATE:${icsDate(event.eventDate)}`);
+    lines.push(`DTEND;VALUE=DATE:${icsDate(shiftDate(event.eventDate, 1))}`);
+  }
+
+  if (event.recurrence) {
+    lines.push(recurrenceLine(event.recurrence, event.startTime, timeZone));
+    if (event.recurrenceExceptions?.length) {
+      lines.push(
+        event.startTime
+          ? `EXDATE;TZID=${timeZone}:${event.recurrenceExceptions.map((d) => icsLocalDateTime(d, event.startTime!)).join(",")}`
+          : `EXDATE;VALUE=DATE:${event.recurrenceExceptions.map(icsDate).join(",")}`
+      );
+    }
+  }
+
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (description) lines.push(`DESCRIPTION:${escapeText(description)}`);
+  lines.push(`CATEGORIES:${escapeText(categoryLabels[event.category] || event.category)}`);
+  lines.push(`STATUS:${event.status === "cancelled" ? "CANCELLED" : "CONFIRMED"}`);
+
+  if (event.status === "scheduled") {
+    lines.push(
+      "BEGIN:VALARM",
+      "ACTION:DISPLAY",
+      `DESCRIPTION:${escapeText(event.title)}`,
+      `TRIGGER:-PT${event.reminderOffsetMinutes ?? 0}M`,
+      "END:VALARM"
+    );
+  }
+  return lines;
+}
+
+function vaccinationLines(vax: Vaccination & { nextDueDate: string }, pet: Pet | undefined): string[] {
+  const summary = pet ? `${pet.name}: ${vax.name} due` : `${vax.name} due`;
+  return [
+    `UID:vaccination-${vax.id}-due@${UID_DOMAIN}`,
+    `SUMMARY:${escapeText(summary)}`,
+    `DTSTART;VALUE=DATE:${icsDate(vax.nextDueDate)}`,
+    `DTEND;VALUE=DATE:${icsDate(shiftDate(vax.nextDueDate, 1))}`,
+    ...(vax.veterinarian ? [`LOCATION:${escapeText(vax.veterinarian)}`] : []),
+    "CATEGORIES:Vaccination",
+    "TRANSP:TRANSPARENT",
+  ];
+}
+
+function medicationLines(med: Medication, pet: Pet | undefined): string[] {
+  const summary = pet ? `${pet.name}: ${med.name}` : med.name;
+  const description = [med.dosage, med.frequency, med.prescribedBy && `Prescribed by ${med.prescribedBy}`]
+    .filter(Boolean)
+    .join("\n");
+  return [
+    `UID:medication-${med.id}@${UID_DOMAIN}`,
+    `SUMMARY:${escapeText(summary)}`,
+    `DTSTART;VALUE=DATE:${icsDate(med.startDate)}`,
+    `DTEND;VALUE=DATE:${icsDate(shiftDate(med.endDate ?? med.startDate, 1))}`,
+    ...(description ? [`DESCRIPTION:${escapeText(description)}`] : []),
+    "CATEGORIES:Medication",
+    "TRANSP:TRANSPARENT",
+  ];
+}
+
+/**
+ * Renders the iCalendar document for a feed: the household's (or one pet's)
+ * events, upcoming vaccination due dates and medication courses. Recurring
+ * events are emitted once with an RRULE rather than expanded.
+ */
+export async function buildCalendarFeed(feed: CalendarFeed): Promise<string | undefined> {
+  const { householdId } = feed;
+  const household = await storage.getHousehold(householdId);
+  if (!household) return undefined;
+  const timeZone = household.timezone;
+  const pet = feed.petId ? await storage.getPet(householdId, feed.petId) : undefined;
+  if (feed.petId && !pet) return undefined;
+
+  const [allPets, events, vaccinations, medications] = await Promise.all([
+    storage.getPets(householdId),
+    pet ? storage.getEventsByPet(householdId, pet.id) : storage.getEvents(householdId),
+    pet ? storage.getVaccinationsByPet(householdId, pet.id) : storage.getAllVaccinations(householdId),
+    pet ? storage.getMedicationsByPet(householdId, pet.id) : storage.getAllMedications(householdId),
+  ]);
+  const petsById = new Map(allPets.map((p) => [p.id, p]));
+  const dtstamp = `DTSTAMP:${icsUtc(new Date())}`;
+
+  const components: string[][] = events.map((event) => eventLines(event, timeZone, !pet));
+
+  // As with reminders, only the latest dose of each vaccine carries the due date.
+  const latestDoses = new Set<string>();
+  for (const vax of vaccinations) {
+    const doseKey = `${vax.petId}:${vax.name.trim().toLowerCase()}`;
+    if (latestDoses.has(doseKey)) continue;
+    latestDoses.add(doseKey);
+    if (vax.nextDueDate) {
+      components.push(vaccinationLines({ ...vax, nextDueDate: vax.nextDueDate }, pet ? undefined : petsById.get(vax.petId)));
+    }
+  }
+
+  for (const med of medications) {
+    components.push(medicationLines(med, pet ? undefined : petsById.get(med.petId)));
+  }
+
+  const calendarName = pet ? `${pet.name} – ${household.name}` : household.name;
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    `X-WR-TIMEZONE:${timeZone}`,
+    "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+    "X-PUBLISHED-TTL:PT1H",
+    ...components.flatMap((component) => ["BEGIN:VEVENT", dtstamp, ...component, "END:VEVENT"]),
+    "END:VCALENDAR",
+  ];
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
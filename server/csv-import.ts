@@ -0,0 +1,383 @@
+import type { z } from "zod";
+import { storage } from "./storage";
+import { todayInTimeZone } from "@shared/timezone";
+import { parseWeightUnit } from "@shared/weight";
+import type { WeightUnit } from "@shared/weight";
+import { csvDateFormats, csvImportFields, insertVaccinationSchema, insertWeightEntrySchema } from "@shared/schema";
+import type {
+  CsvDateFormat,
+  CsvImport,
+  CsvImportKind,
+  CsvImportResult,
+  CsvImportRow,
+  InsertVaccination,
+  InsertWeightEntry,
+} from "@shared/schema";
+
+// Decades of daily weigh-ins fit comfortably; anything bigger is probably the wrong file.
+const MAX_ROWS = 5000;
+
+const fieldLabels: Record<string, string> = {
+  recordedAt: "Date",
+  weight: "Weight",
+  unit: "Unit",
+  name: "Vaccine",
+  dateAdministered: "Date given",
+  nextDueDate: "Next due",
+  veterinarian: "Veterinarian",
+  notes: "Notes",
+};
+
+const requiredFields: Record<CsvImportKind, string[]> = {
+  weights: ["recordedAt", "weight"],
+  vaccinations: ["name", "dateAdministered"],
+};
+
+// Words in a header that suggest a field. Fields are matched in this order,
+// so "Next due date" and "Administered by" are taken before plain "Date".
+const headerHints: Record<CsvImportKind, [string, string[]][]> = {
+  weights: [
+    ["unit", ["unit", "uom"]],
+    ["weight", ["weight", "kg", "lb", "pound", "kilo", "mass"]],
+    ["recordedAt", ["date", "recorded", "weighed", "day", "when"]],
+  ],
+  vaccinations: [
+    ["nextDueDate", ["due", "expir", "validuntil", "booster", "revaccinat"]],
+    ["veterinarian", ["vet", "clinic", "doctor", "administeredby", "givenby"]],
+    ["dateAdministered", ["administered", "given", "date", "vaccinated"]],
+    ["name", ["vaccine", "vaccination", "name", "type", "product"]],
+    ["notes", ["note", "comment", "remark"]],
+  ],
+};
+
+type CsvRecord = { line: number; cells: string[] };
+type RowContext = { petId: number; dateFormat: CsvDateFormat; unit: WeightUnit; today: string };
+type BuiltRow = { values: CsvImportRow["values"]; errors: string[]; record?: unknown; key: string };
+
+type Importer = {
+  dateFields: string[];
+  existingKeys(householdId: number, petId: number): Promise<Set<string>>;
+  buildRow(cell: (field: string) => string, context: RowContext): BuiltRow;
+  save(householdId: number, records: unknown[]): Promise<number>;
+};
+
+// --- Parsing ---
+
+// Spreadsheets saved in locales that use decimal commas separate cells with
+// semicolons, so the delimiter is whichever of , ; or tab the header uses most.
+function detectDelimiter(text: string): string {
+  const header = text.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, "");
+  const counts = [",", ";", "\t"].map((delimiter) => [delimiter, header.split(delimiter).length] as const);
+  return counts.reduce((best, count) => (count[1] > best[1] ? count : best))[0];
+}
+
+/** Parses RFC 4180 CSV (quoted cells may contain delimiters, quotes and newlines). Blank lines are skipped. */
+function parseCsv(text: string): CsvRecord[] {
+  const source = text.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(source);
+  const records: CsvRecord[] = [];
+  let cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let line = 1;
+  let start = 1;
+
+  const endRecord = () => {
+    cells.push(cell);
+    if (cells.some((value) => value.trim())) records.push({ line: start, cells });
+    cells = [];
+    cell = "";
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === "\n") line++;
+        cell += char;
+      }
+    } else if (char === '"' && !cell.trim()) {
+      quoted = true;
+      cell = "";
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") i++;
+      endRecord();
+      start = ++line;
+    } else {
+      cell += char;
+    }
+  }
+  endRecord();
+  return records;
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z]/g, "");
+}
+
+/** Reads a date in the given order of day, month and year; spreadsheet times after it are ignored. */
+function parseDate(value: string, format: CsvDateFormat): string | null {
+  const match = /^(\d{1,4})[-/.](\d{1,2})[-/.](\d{1,4})(?:[T ]\d{1,2}:\d{2}.*)?$/.exec(value.trim());
+  if (!match) return null;
+  const [, first, second, third] = match;
+  let year: string, month: string, day: string;
+  if (format === "yyyy-MM-dd") {
+    if (first.length !== 4 || third.length > 2) return null;
+    [year, month, day] = [first, second, third];
+  } else {
+    if (first.length > 2 || (third.length !== 2 && third.length !== 4)) return null;
+    year = third;
+    [day, month] = format === "dd/MM/yyyy" ? [first, second] : [second, first];
+  }
+  let y = Number(year);
+  // Two-digit years are this century unless that would put them in the future.
+  if (year.length === 2) y += 2000 + y > new Date().getUTCFullYear() ? 1900 : 2000;
+  const date = new Date(Date.UTC(y, Number(month) - 1, Number(day)));
+  if (date.getUTCFullYear() !== y || date.getUTCMonth() !== Number(month) - 1 || date.getUTCDate() !== Number(day)) return null;
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Picks the format that reads the most dates. When every date reads both
+ * day-first and month-first (no day above 12), the household's location
+ * decides and the result is flagged so the UI can ask.
+ */
+function detectDateFormat(values: string[], timeZone: string): { format: CsvDateFormat; ambiguous: boolean } {
+  const filled = values.filter(Boolean);
+  const scores = csvDateFormats.map((format) => filled.filter((value) => parseDate(value, format)).length);
+  const best = Math.max(...scores);
+  const candidates = csvDateFormats.filter((_, i) => scores[i] === best);
+  if (candidates.length === 1) return { format: candidates[0], ambiguous: false };
+  const preferred: CsvDateFormat = timeZone.startsWith("America/") ? "MM/dd/yyyy" : "dd/MM/yyyy";
+  return { format: candidates.includes(preferred) ? preferred : candidates[0], ambiguous: best > 0 };
+}
+
+// "12.5", "12,5", "12.5 kg" or "27lbs".
+function parseWeight(value: string): { weight: number; unit: WeightUnit | null } | null {
+  const match = /^(\d+(?:[.,]\d+)?)\s*([a-z]*)\.?$/i.exec(value);
+  if (!match) return null;
+  const unit = match[2] ? parseWeightUnit(match[2]) : null;
+  if (match[2] && !unit) return null;
+  return { weight: Number(match[1].replace(",", ".")), unit };
+}
+
+function checkSchema(schema: z.ZodTypeAny, record: unknown, errors: string[]): unknown {
+  if (errors.length > 0) return undefined;
+  const result = schema.safeParse(record);
+  if (result.success) return result.data;
+  for (const issue of result.error.issues) {
+    errors.push(`${fieldLabels[String(issue.path[0])] ?? issue.path.join(".")}: ${issue.message}`);
+  }
+  return undefined;
+}
+
+function readDate(value: string, label: string, context: RowContext, errors: string[], { past = false } = {}): string | null {
+  if (!value) return null;
+  const date = parseDate(value, context.dateFormat);
+  if (!date) errors.push(`${label} "${value}" isn't a ${context.dateFormat} date`);
+  // A date in the future usually means day and month were read the wrong way round.
+  else if (past && date > context.today) errors.push(`${label} ${date} is in the future`);
+  return date;
+}
+
+// --- Record types ---
+
+const importers: Record<CsvImportKind, Importer> = {
+  weights: {
+    dateFields: ["recordedAt"],
+    async existingKeys(householdId, petId) {
+      const entries = await storage.getWeightEntries(householdId, petId);
+      return new Set(entries.map((entry) => `${entry.recordedAt}|${entry.weight}|${entry.unit}`));
+    },
+    buildRow(cell, context) {
+      const errors: string[] = [];
+      const dateText = cell("recordedAt");
+      const weightText = cell("weight");
+      const unitText = cell("unit");
+      if (!dateText) errors.push("Date is missing");
+      const recordedAt = readDate(dateText, "Date", context, errors, { past: true });
+      const parsed = weightText ? parseWeight(weightText) : null;
+      if (!weightText) errors.push("Weight is missing");
+      else if (!parsed) errors.push(`Weight "${weightText}" isn't a number of kg or lbs`);
+      else if (parsed.weight <= 0) errors.push("Weight must be more than 0");
+      const rowUnit = unitText ? parseWeightUnit(unitText) : null;
+      if (unitText && !rowUnit) errors.push(`Unit "${unitText}" isn't kg or lbs`);
+
+      const values = {
+        recordedAt: recordedAt ?? (dateText || null),
+        weight: parsed?.weight ?? (weightText || null),
+        unit: rowUnit ?? parsed?.unit ?? context.unit,
+      };
+      const record = checkSchema(insertWeightEntrySchema, { petId: context.petId, ...values }, errors);
+      return { values, errors, record, key: `${values.recordedAt}|${values.weight}|${values.unit}` };
+    },
+    save: (householdId, records) => storage.createWeightEntries(householdId, records as InsertWeightEntry[]),
+  },
+  vaccinations: {
+    dateFields: ["dateAdministered", "nextDueDate"],
+    async existingKeys(householdId, petId) {
+      const records = await storage.getVaccinationsByPet(householdId, petId);
+      return new Set(records.map((record) => `${record.name.trim().toLowerCase()}|${record.dateAdministered}`));
+    },
+    buildRow(cell, context) {
+      const errors: string[] = [];
+      const name = cell("name");
+      const givenText = cell("dateAdministered");
+      const dueText = cell("nextDueDate");
+      if (!name) errors.push("Vaccine is missing");
+      if (!givenText) errors.push("Date given is missing");
+      const dateAdministered = readDate(givenText, "Date given", context, errors, { past: true });
+      const nextDueDate = readDate(dueText, "Next due", context, errors);
+      if (dateAdministered && nextDueDate && nextDueDate < dateAdministered) {
+        errors.push("Next due is before the date given");
+      }
+
+      const values = {
+        name: name || null,
+        dateAdministered: dateAdministered ?? (givenText || null),
+        nextDueDate: nextDueDate ?? (dueText || null),
+        veterinarian: cell("veterinarian") || null,
+        notes: cell("notes") || null,
+      };
+      const record = checkSchema(insertVaccinationSchema, { petId: context.petId, ...values }, errors);
+      return { values, errors, record, key: `${name.toLowerCase()}|${values.dateAdministered}` };
+    },
+    save: (householdId, records) => storage.createVaccinations(householdId, records as InsertVaccination[]),
+  },
+};
+
+function resolveMapping(
+  kind: CsvImportKind,
+  headers: string[],
+  requested: Record<string, number | null> | undefined
+): Record<string, number | null> {
+  const chosen: Record<string, number | null> = {};
+  const taken = new Set<number>();
+  for (const field of csvImportFields[kind]) {
+    if (!requested || !(field in requested)) continue;
+    const index = requested[field];
+    if (index !== null && index >= headers.length) throw new Error(`Column ${index + 1} doesn't exist in this file`);
+    chosen[field] = index;
+    if (index !== null) taken.add(index);
+  }
+  for (const [field, hints] of headerHints[kind]) {
+    if (field in chosen) continue;
+    const index = headers.findIndex((header, i) => !taken.has(i) && hints.some((hint) => normalizeHeader(header).includes(hint)));
+    chosen[field] = index === -1 ? null : index;
+    if (index !== -1) taken.add(index);
+  }
+  return Object.fromEntries(csvImportFields[kind].map((field) => [field, chosen[field]]));
+}
+
+// The file's unit: from the weight header ("Weight (kg)"), else the unit most rows state.
+function detectUnit(weightHeader: string | undefined, stated: (WeightUnit | null)[]): WeightUnit | null {
+  const fromHeader = (weightHeader ?? "").split(/[^a-z]+/i).map(parseWeightUnit).find(Boolean);
+  if (fromHeader) return fromHeader;
+  const kg = stated.filter((unit) => unit === "kg").length;
+  const lbs = stated.filter((unit) => unit === "lbs").length;
+  if (kg === 0 && lbs === 0) return null;
+  return kg >= lbs ? "kg" : "lbs";
+}
+
+/**
+ * Reads a spreadsheet export of weights or vaccinations for one pet. The
+ * first row is the header: columns are matched to fields from it unless the
+ * request maps them, and the date format and weight unit are detected unless
+ * given. Every row is validated against the insert schema and checked against
+ * what the pet already has. A dry run only reports; otherwise the valid rows
+ * are added in one go and the rest skipped. Undefined if the pet doesn't exist.
+ */
+export async function importCsv(
+  householdId: number,
+  petId: number,
+  kind: CsvImportKind,
+  input: CsvImport
+): Promise<CsvImportResult | undefined> {
+  const pet = await storage.getPet(householdId, petId);
+  if (!pet) return undefined;
+  const household = await storage.getHousehold(householdId);
+  if (!household) throw new Error("Household not found");
+
+  const [header, ...records] = parseCsv(input.csv);
+  if (!header) throw new Error("The file is empty");
+  if (records.length > MAX_ROWS) throw new Error(`Files can have at most ${MAX_ROWS} rows`);
+  const headers = header.cells.map((cell) => cell.trim());
+  const mapping = resolveMapping(kind, headers, input.mapping);
+  const missingFields = requiredFields[kind].filter((field) => mapping[field] === null);
+  const cellOf = (record: CsvRecord, field: string) => {
+    const index = mapping[field];
+    return index === null || index === undefined ? "" : (record.cells[index] ?? "").trim();
+  };
+
+  const importer = importers[kind];
+  const detected = detectDateFormat(
+    records.flatMap((record) => importer.dateFields.map((field) => cellOf(record, field))),
+    household.timezone
+  );
+  let unit: WeightUnit | null = null;
+  let unitDetected = false;
+  if (kind === "weights") {
+    const stated = records.map((record) => parseWeightUnit(cellOf(record, "unit")) ?? parseWeight(cellOf(record, "weight"))?.unit ?? null);
+    const fileUnit = detectUnit(mapping.weight === null ? undefined : headers[mapping.weight], stated);
+    const history = await storage.getWeightEntries(householdId, petId);
+    const latest = history[history.length - 1];
+    unitDetected = fileUnit !== null;
+    unit = input.unit ?? fileUnit ?? latest?.unit ?? household.weightUnit;
+  }
+  const context: RowContext = {
+    petId,
+    dateFormat: input.dateFormat ?? detected.format,
+    unit: unit ?? "lbs",
+    today: todayInTimeZone(household.timezone),
+  };
+
+  const rows: CsvImportRow[] = [];
+  const valid: unknown[] = [];
+  if (missingFields.length === 0) {
+    // Rows repeated within the file count as duplicates too.
+    const seen = await importer.existingKeys(householdId, petId);
+    for (const record of records) {
+      const row = importer.buildRow((field) => cellOf(record, field), context);
+      const status = row.errors.length > 0 ? "invalid" : seen.has(row.key) ? "duplicate" : "valid";
+      if (status === "valid") {
+        seen.add(row.key);
+        valid.push(row.record);
+      }
+      rows.push({ line: record.line, status, values: row.values, errors: row.errors });
+    }
+  }
+
+  let imported = 0;
+  if (!input.dryRun) {
+    if (missingFields.length > 0) {
+      throw new Error(`Choose a column for ${missingFields.map((field) => fieldLabels[field]).join(" and ")}`);
+    }
+    if (valid.length > 0) imported = await importer.save(householdId, valid);
+  }
+
+  return {
+    kind,
+    headers,
+    mapping,
+    missingFields,
+    dateFormat: context.dateFormat,
+    dateFormatAmbiguous: detected.ambiguous,
+    unit,
+    unitDetected,
+    rows,
+    counts: {
+      valid: valid.length,
+      invalid: rows.filter((row) => row.status === "invalid").length,
+      duplicate: rows.filter((row) => row.status === "duplicate").length,
+    },
+    imported,
+  };
+}
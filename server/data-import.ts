@@ -0,0 +1,166 @@
+import type { Request } from "express";
+import { storage } from "./storage";
+import type { DataImportPlan } from "./storage";
+import { deletePhotoObjects } from "./photos";
+import { deleteUnreferencedObjects, grantPetObjectAccess, removeOrphanedAttachments } from "./object-access";
+import type { DataImport, DataImportSummary, DataImportTable, PetPhoto } from "@shared/schema";
+
+// Enough to show what collides without sending the whole backup back.
+const MAX_LISTED_CONFLICTS = 50;
+
+type Plan = { plan: DataImportPlan; summary: DataImportSummary };
+
+function matchKey(...parts: (string | number | null | undefined)[]): string {
+  return parts.map((part) => String(part ?? "").trim().toLowerCase()).join("|");
+}
+
+function formatTime(time: string | null | undefined): string | null {
+  return time ? time.slice(0, 5) : null;
+}
+
+/**
+ * Works out what restoring a backup would do. "replace" adds everything and
+ * removes the household's current records; "merge" keeps what is already
+ * there, folding backup pets into same-named pets of the same species and
+ * skipping records the household already has (same pet, name and date).
+ */
+async function planDataImport(householdId: number, { mode, data }: DataImport): Promise<Plan> {
+  const [pets, weights, events, vaccinations, medications] = await Promise.all([
+    storage.getPets(householdId),
+    storage.getAllWeightEntries(householdId),
+    storage.getEvents(householdId),
+    storage.getAllVaccinations(householdId),
+    storage.getAllMedications(householdId),
+  ]);
+  const replace = mode === "replace";
+  const plan: DataImportPlan = {
+    replace,
+    existingPetIds: new Map(),
+    existingEventIds: new Map(),
+    pets: [],
+    events: [],
+    weightEntries: [],
+    vaccinations: [],
+    medications: [],
+  };
+  const summary: DataImportSummary = {
+    mode,
+    exportedAt: data.exportedAt,
+    tables: {
+      pets: { added: 0, conflicting: 0, removed: replace ? pets.length : 0 },
+      weightEntries: { added: 0, conflicting: 0, removed: replace ? weights.length : 0 },
+      events: { added: 0, conflicting: 0, removed: replace ? events.length : 0 },
+      vaccinations: { added: 0, conflicting: 0, removed: replace ? vaccinations.length : 0 },
+      medications: { added: 0, conflicting: 0, removed: replace ? medications.length : 0 },
+    },
+    conflicts: [],
+  };
+  const conflict = (table: DataImportTable, description: string) => {
+    summary.tables[table].conflicting++;
+    if (summary.conflicts.length < MAX_LISTED_CONFLICTS) summary.conflicts.push({ table, description });
+  };
+  // Keys of what the household has now; a replace deletes it all, so nothing collides.
+  const existing = <T>(rows: T[], key: (row: T) => string) => new Map(replace ? [] : rows.map((row) => [key(row), row]));
+
+  // Stored avatars are only kept if the household already uses them, so a
+  // backup can't point a pet at another household's object.
+  const knownAvatars = new Set(pets.map((pet) => pet.avatarUrl).filter(Boolean));
+  const existingPets = existing(pets, (pet) => matchKey(pet.name, pet.species));
+  const petNames = new Map<number, string>();
+  for (const pet of data.pets) {
+    const { id, ...values } = pet as typeof pet & DataImportPlan["pets"][number]["values"];
+    petNames.set(id, values.name);
+    const match = existingPets.get(matchKey(values.name, values.species ?? "dog"));
+    if (match) {
+      plan.existingPetIds.set(id, match.id);
+      conflict("pets", `${values.name} is already here; their records are merged into the existing profile`);
+      continue;
+    }
+    const avatarUrl = values.avatarUrl?.startsWith("/objects/") && !knownAvatars.has(values.avatarUrl) ? null : values.avatarUrl;
+    plan.pets.push({ sourceId: id, values: { ...values, avatarUrl } });
+    summary.tables.pets.added++;
+  }
+  // Records of new pets can't collide with anything.
+  const targetPetId = (sourceId: number) => plan.existingPetIds.get(sourceId) ?? null;
+
+  const existingEvents = existing(events, (event) => matchKey(event.title, event.eventDate, formatTime(event.startTime)));
+  for (const event of data.events) {
+    const { id, petIds, ...values } = event as typeof event & DataImportPlan["events"][number]["values"];
+    const match = existingEvents.get(matchKey(values.title, values.eventDate, formatTime(values.startTime)));
+    if (match) {
+      plan.existingEventIds.set(id, match.id);
+      conflict("events", `${values.title} on ${values.eventDate}`);
+      continue;
+    }
+    plan.events.push({ sourceId: id, petIds, values });
+    summary.tables.events.added++;
+  }
+
+  const existingWeights = existing(weights, (entry) => matchKey(entry.petId, entry.recordedAt, entry.weight, entry.unit));
+  for (const entry of data.weightEntries) {
+    const { id: _, ...values } = entry as typeof entry & DataImportPlan["weightEntries"][number];
+    if (existingWeights.has(matchKey(targetPetId(values.petId), values.recordedAt, values.weight, values.unit ?? "lbs"))) {
+      conflict("weightEntries", `${petNames.get(values.petId)}: ${values.weight} ${values.unit ?? "lbs"} on ${values.recordedAt}`);
+      continue;
+    }
+    plan.weightEntries.push(values);
+    summary.tables.weightEntries.added++;
+  }
+
+  const existingVaccinations = existing(vaccinations, (record) => matchKey(record.petId, record.name, record.dateAdministered));
+  for (const record of data.vaccinations) {
+    const { id: _, ...values } = record as typeof record & DataImportPlan["vaccinations"][number];
+    if (existingVaccinations.has(matchKey(targetPetId(values.petId), values.name, values.dateAdministered))) {
+      conflict("vaccinations", `${petNames.get(values.petId)}: ${values.name} on ${values.dateAdministered}`);
+      continue;
+    }
+    plan.vaccinations.push(values);
+    summary.tables.vaccinations.added++;
+  }
+
+  const existingMedications = existing(medications, (record) => matchKey(record.petId, record.name, record.startDate));
+  for (const record of data.medications) {
+    const { id: _, ...values } = record as typeof record & DataImportPlan["medications"][number];
+    if (existingMedications.has(matchKey(targetPetId(values.petId), values.name, values.startDate))) {
+      conflict("medications", `${petNames.get(values.petId)}: ${values.name} from ${values.startDate}`);
+      continue;
+    }
+    plan.medications.push(values);
+    summary.tables.medications.added++;
+  }
+
+  return { plan, summary };
+}
+
+export async function previewDataImport(householdId: number, input: DataImport): Promise<DataImportSummary> {
+  return (await planDataImport(householdId, input)).summary;
+}
+
+/**
+ * Restores a backup in a single transaction. On a replace, the photos,
+ * attachments and avatars of the removed pets are deleted from object storage
+ * afterwards unless a restored pet still uses them.
+ */
+export async function applyDataImport(req: Request, householdId: number, input: DataImport): Promise<DataImportSummary> {
+  const { plan, summary } = await planDataImport(householdId, input);
+
+  let removedPhotos: PetPhoto[] = [];
+  let removedAvatars: string[] = [];
+  if (plan.replace) {
+    const current = await storage.getPets(householdId);
+    removedPhotos = (await Promise.all(current.map((pet) => storage.getPetPhotos(householdId, pet.id)))).flat();
+    removedAvatars = current.flatMap((pet) => (pet.avatarUrl ? [pet.avatarUrl] : []));
+  }
+
+  const created = await storage.importHouseholdData(householdId, plan);
+  for (const pet of created) {
+    if (pet.avatarUrl) await grantPetObjectAccess(req, pet.avatarUrl, householdId, pet.id);
+  }
+
+  if (plan.replace) {
+    await removeOrphanedAttachments(householdId);
+    await deletePhotoObjects(removedPhotos);
+    await deleteUnreferencedObjects(removedAvatars);
+  }
+  return summary;
+}
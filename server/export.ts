@@ -0,0 +1,104 @@
+import type { Response } from "express";
+import archiver from "archiver";
+import { z } from "zod";
+import { storage } from "./storage";
+import { dataExportVersion } from "@shared/schema";
+import type { DataExport } from "@shared/schema";
+import { convertWeight, roundWeight } from "@shared/weight";
+
+export const exportQuerySchema = z.object({
+  // "csv" is a ZIP with one CSV file per table.
+  format: z.enum(["json", "csv"]).default("json"),
+});
+
+export type ExportQuery = z.infer<typeof exportQuerySchema>;
+
+export async function buildDataExport(householdId: number): Promise<DataExport> {
+  const household = await storage.getHousehold(householdId);
+  if (!household) throw new Error("Household not found");
+
+  const [pets, weights, events, vaccinations, medications] = await Promise.all([
+    storage.getPets(householdId),
+    storage.getAllWeightEntries(householdId),
+    storage.getEvents(householdId),
+    storage.getAllVaccinations(householdId),
+    storage.getAllMedications(householdId),
+  ]);
+
+  return {
+    format: "petcare-export",
+    version: dataExportVersion,
+    exportedAt: new Date().toISOString(),
+    household: { name: household.name, timezone: household.timezone, weightUnit: household.weightUnit },
+    pets: pets.map(({ householdId: _, ...pet }) => pet),
+    weightEntries: weights.map(({ petName: _, ...entry }) => entry),
+    events: events.map(({ householdId: _, pets: eventPets, ...event }) => ({
+      ...event,
+      petIds: eventPets.map((pet) => pet.id),
+    })),
+    vaccinations,
+    medications,
+  };
+}
+
+function csvCell(value: unknown): string {
+  if (value == null) return "";
+  let text: string;
+  if (value instanceof Date) text = value.toISOString();
+  else if (Array.isArray(value)) text = value.join(";");
+  else if (typeof value === "object") text = JSON.stringify(value);
+  else text = String(value);
+  // Spreadsheet apps run cells starting with these as formulas.
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv<T extends object>(rows: T[], columns: (keyof T & string)[]): string {
+  const lines = [columns.join(",")];
+  for (const row of rows) {
+    lines.push(columns.map((column) => csvCell(row[column])).join(","));
+  }
+  return lines.join("\r\n") + "\r\n";
+}
+
+// One CSV per table, keyed by file name. Event pet links are a ";"-separated id list.
+// Weights keep the unit they were recorded in, plus both units converted so
+// mixed entries can be charted or summed in a spreadsheet.
+export function dataExportCsvFiles(data: DataExport): Record<string, string> {
+  const weights = data.weightEntries.map((entry) => ({
+    ...entry,
+    weightKg: roundWeight(convertWeight(entry.weight, entry.unit, "kg")),
+    weightLbs: roundWeight(convertWeight(entry.weight, entry.unit, "lbs")),
+  }));
+  return {
+    "pets.csv": toCsv(data.pets, [
+      "id", "name", "breed", "species", "dateOfBirth", "color", "gender", "microchipNumber", "microchipLocation",
+      "vetName", "fatherName", "motherName", "hairLength", "desexed", "foodBrand", "perMealAmount", "mealsPerDay",
+      "yearlyVaccinationDate", "foodBowlColour", "traits", "avatarUrl",
+    ]),
+    "weight_entries.csv": toCsv(weights, ["id", "petId", "weight", "unit", "weightKg", "weightLbs", "recordedAt"]),
+    "events.csv": toCsv(data.events, [
+      "id", "petIds", "title", "category", "eventDate", "startTime", "durationMinutes", "reminderOffsetMinutes",
+      "location", "status", "outcome", "notes", "recurrence", "recurrenceExceptions", "externalUid", "createdAt",
+    ]),
+    "vaccinations.csv": toCsv(data.vaccinations, [
+      "id", "petId", "name", "dateAdministered", "nextDueDate", "veterinarian", "notes", "sourceEventId", "createdAt",
+    ]),
+    "medications.csv": toCsv(data.medications, [
+      "id", "petId", "name", "dosage", "frequency", "startDate", "endDate", "prescribedBy", "notes", "active",
+      "sourceEventId", "createdAt",
+    ]),
+  };
+}
+
+// Streams the CSV files as a ZIP; the caller sets the download headers first.
+export async function writeDataExportZip(data: DataExport, res: Response): Promise<void> {
+  const archive = archiver("zip", { zlib: { level: 9 } });
+  archive.on("error", (error) => res.destroy(error));
+  archive.pipe(res);
+  for (const [name, csv] of Object.entries(dataExportCsvFiles(data))) {
+    // A BOM so Excel reads the files as UTF-8.
+    archive.append(`\uFEFF${csv}`, { name, date: data.exportedAt });
+  }
+  await archive.finalize();
+}
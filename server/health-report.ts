@@ -0,0 +1,404 @@
+import { Parser } from "htmlparser2";
+import { z } from "zod";
+import { storage } from "./storage";
+import { MARGIN, colors, contentWidth, createPdf, emptyNote, ensureSpace, formatDate, pageFooters, sectionHeading, table } from "./pdf-layout";
+import type { Doc, TableCell } from "./pdf-layout";
+import { daysBetween, expandEventOccurrences, isoDate } from "./recurrence";
+import { vaccinationValidity } from "./vaccination-certificate";
+import { todayInTimeZone } from "@shared/timezone";
+import { convertWeight } from "@shared/weight";
+import type { WeightUnit } from "@shared/weight";
+import type { EventOccurrence, EventStatus, Medication, Pet, Vaccination, WeightEntry } from "@shared/schema";
+
+export const healthReportQuerySchema = z
+  .object({
+    // Both optional: no start means all history, no end means today.
+    from: isoDate.optional(),
+    to: isoDate.optional(),
+  })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: "The start date must be on or before the end date",
+    path: ["from"],
+  });
+
+export type HealthReportQuery = z.infer<typeof healthReportQuerySchema>;
+
+const MAX_EVENTS = 100;
+
+const categoryLabels: Record<string, string> = {
+  vet_visit: "Vet visit",
+  medication: "Medication",
+  vaccination: "Vaccination",
+  appointment: "Appointment",
+};
+
+const statusLabels: Record<EventStatus, string> = {
+  scheduled: "Scheduled",
+  completed: "Completed",
+  cancelled: "Cancelled",
+  missed: "Missed",
+};
+
+type ReportData = {
+  pet: Pet;
+  householdName: string;
+  weightUnit: WeightUnit;
+  from: string | null;
+  to: string;
+  today: string;
+  weights: WeightEntry[];
+  vaccinations: Vaccination[];
+  medications: Medication[];
+  events: EventOccurrence[];
+  omittedEvents: number;
+};
+
+function formatNumber(value: number): string {
+  return String(Number(value.toFixed(1)));
+}
+
+function describeAge(dateOfBirth: string, today: string): string {
+  const [birthYear, birthMonth, birthDay] = dateOfBirth.split("-").map(Number);
+  const [year, month, day] = today.split("-").map(Number);
+  const months = (year - birthYear) * 12 + (month - birthMonth) - (day < birthDay ? 1 : 0);
+  if (months < 0) return formatDate(dateOfBirth);
+  const years = Math.floor(months / 12);
+  const age = years > 0 ? `${years} yr${years === 1 ? "" : "s"}` : `${months} mo`;
+  return `${formatDate(dateOfBirth)} (${age})`;
+}
+
+async function loadReport(householdId: number, petId: number, query: HealthReportQuery): Promise<ReportData | undefined> {
+  const pet = await storage.getPet(householdId, petId);
+  if (!pet) return undefined;
+  const household = await storage.getHousehold(householdId);
+  if (!household) throw new Error("Household not found");
+
+  const today = todayInTimeZone(household.timezone);
+  const from = query.from ?? null;
+  const to = query.to ?? today;
+  const inRange = (date: string) => (!from || date >= from) && date <= to;
+
+  const [weights, vaccinations, medications, events] = await Promise.all([
+    storage.getWeightEntries(householdId, petId),
+    storage.getVaccinationsByPet(householdId, petId),
+    storage.getMedicationsByPet(householdId, petId),
+    storage.getEventsByPet(householdId, petId),
+  ]);
+  const occurrences = expandEventOccurrences(events, { from: from ?? undefined, to });
+
+  return {
+    pet,
+    householdName: household.name,
+    weightUnit: household.weightUnit,
+    from,
+    to,
+    today,
+    weights: weights.filter((entry) => inRange(entry.recordedAt)),
+    // Vaccinations still in date at the end of the range are listed even if
+    // given earlier, since that is what a vet or kennel needs to check.
+    vaccinations: vaccinations
+      .filter((v) => inRange(v.dateAdministered) || (!!v.nextDueDate && v.nextDueDate >= to && v.dateAdministered <= to))
+      .sort((a, b) => b.dateAdministered.localeCompare(a.dateAdministered)),
+    medications: medications
+      .filter((m) => m.startDate <= to && (!from || !m.endDate || m.endDate >= from))
+      .sort((a, b) => Number(b.active) - Number(a.active) || b.startDate.localeCompare(a.startDate)),
+    events: occurrences.slice(0, MAX_EVENTS),
+    omittedEvents: Math.max(0, occurrences.length - MAX_EVENTS),
+  };
+}
+
+// --- Event notes (TipTap HTML) ---
+
+type TextRun = { text: string; bold: boolean; italic: boolean; underline: boolean };
+type TextBlock = {
+  heading: boolean;
+  depth: number;
+  align: "left" | "center" | "right" | "justify";
+  runs: TextRun[];
+};
+
+/**
+ * Flattens the HTML the notes editor produces (paragraphs, headings, nested
+ * lists, bold/italic/underline, alignment) into blocks of styled text runs.
+ * Unknown tags are ignored, so older plain-text notes come through as-is.
+ */
+function parseRichText(html: string): TextBlock[] {
+  const blocks: TextBlock[] = [];
+  const lists: { ordered: boolean; count: number }[] = [];
+  const marks = { bold: 0, italic: 0, underline: 0 };
+  let current: TextBlock | null = null;
+  let pendingMarker: string | null = null;
+
+  const openBlock = (heading: boolean, style: string | undefined) => {
+    const align = /text-align:\s*(left|center|right|justify)/.exec(style ?? "")?.[1] as TextBlock["align"] | undefined;
+    current = { heading, depth: lists.length, align: align ?? "left", runs: [] };
+    if (pendingMarker) {
+      current.runs.push({ text: `${pendingMarker} `, bold: false, italic: false, underline: false });
+      pendingMarker = null;
+    }
+    blocks.push(current);
+    return current;
+  };
+
+  const parser = new Parser({
+    onopentag(name, attributes) {
+      if (name === "strong" || name === "b") marks.bold++;
+      else if (name === "em" || name === "i") marks.italic++;
+      else if (name === "u") marks.underline++;
+      else if (name === "ul" || name === "ol") lists.push({ ordered: name === "ol", count: 0 });
+      else if (name === "li") {
+        const list = lists[lists.length - 1];
+        if (list) pendingMarker = list.ordered ? `${++list.count}.` : "•";
+        current = null;
+      } else if (name === "p" || /^h[1-6]$/.test(name)) openBlock(name !== "p", attributes.style);
+      else if (name === "br") current?.runs.push({ text: "\n", bold: false, italic: false, underline: false });
+    },
+    ontext(text) {
+      const block = current ?? openBlock(false, undefined);
+      block.runs.push({ text, bold: marks.bold > 0, italic: marks.italic > 0, underline: marks.underline > 0 });
+    },
+    onclosetag(name) {
+      if (name === "strong" || name === "b") marks.bold--;
+      else if (name === "em" || name === "i") marks.italic--;
+      else if (name === "u") marks.underline--;
+      else if (name === "ul" || name === "ol") lists.pop();
+      if (["p", "li", "ul", "ol"].includes(name) || /^h[1-6]$/.test(name)) current = null;
+    },
+  });
+  parser.write(html);
+  parser.end();
+  return blocks.filter((block) => block.runs.some((run) => run.text.trim()));
+}
+
+function richText(doc: Doc, html: string, x: number, width: number): void {
+  for (const block of parseRichText(html)) {
+    const indent = block.depth > 0 ? block.depth * 12 : 0;
+    doc.fontSize(block.heading ? 10 : 9).fillColor(colors.text);
+    block.runs.forEach((run, i) => {
+      const bold = run.bold || block.heading;
+      doc.font(bold && run.italic ? "Helvetica-BoldOblique" : bold ? "Helvetica-Bold" : run.italic ? "Helvetica-Oblique" : "Helvetica");
+      const options = { continued: i < block.runs.length - 1, underline: run.underline, align: block.align };
+      if (i === 0) doc.text(run.text, x + indent, doc.y, { ...options, width: width - indent });
+      else doc.text(run.text, options);
+    });
+    doc.moveDown(0.25);
+  }
+  doc.x = MARGIN;
+}
+
+// --- Sections ---
+
+function header(doc: Doc, data: ReportData): void {
+  const period = data.from ? `${formatDate(data.from)} – ${formatDate(data.to)}` : `All records to ${formatDate(data.to)}`;
+  doc.font("Helvetica-Bold").fontSize(22).fillColor(colors.text).text(data.pet.name, MARGIN, MARGIN);
+  doc.font("Helvetica").fontSize(11).fillColor(colors.muted).text(`Health report · ${period}`);
+  doc.fontSize(8.5).text(`Prepared ${formatDate(data.today)} by ${data.householdName}`);
+}
+
+function profile(doc: Doc, data: ReportData): void {
+  const { pet } = data;
+  sectionHeading(doc, "Profile");
+  const fields: [string, string | null][] = [
+    ["Species", pet.species],
+    ["Breed", pet.breed],
+    ["Sex", pet.gender],
+    ["Desexed", pet.desexed],
+    ["Date of birth", pet.dateOfBirth ? describeAge(pet.dateOfBirth, data.today) : null],
+    ["Colour", [pet.color, pet.hairLength].filter(Boolean).join(", ") || null],
+    ["Microchip #", pet.microchipNumber],
+    ["Microchip location", pet.microchipLocation],
+    ["Vet", pet.vetName],
+    ["Food", [pet.foodBrand, pet.perMealAmount, pet.mealsPerDay && `${pet.mealsPerDay} meals a day`].filter(Boolean).join(" · ") || null],
+    ["Traits", pet.traits],
+  ];
+  const rows: TableCell[][] = [];
+  const filled = fields.filter(([, value]) => value);
+  for (let i = 0; i < filled.length; i += 2) {
+    rows.push(
+      filled.slice(i, i + 2).flatMap(([label, value]) => [{ text: label, color: colors.muted }, { text: value! }])
+    );
+  }
+  if (rows.length === 0) return emptyNote(doc, "No profile details recorded");
+  table(
+    doc,
+    [
+      { header: "", width: 0.17 },
+      { header: "", width: 0.33 },
+      { header: "", width: 0.17 },
+      { header: "", width: 0.33 },
+    ],
+    rows.map((row) => (row.length === 4 ? row : [...row, { text: "" }, { text: "" }]))
+  );
+}
+
+function weightChart(doc: Doc, points: { date: string; value: number }[]): void {
+  const height = 140;
+  ensureSpace(doc, height + 30);
+  const left = MARGIN + 36;
+  const width = contentWidth(doc) - 46;
+  const top = doc.y + 6;
+  const bottom = top + height;
+
+  const values = points.map((point) => point.value);
+  const pad = (Math.max(...values) - Math.min(...values)) * 0.1 || 1;
+  const min = Math.max(0, Math.min(...values) - pad);
+  const max = Math.max(...values) + pad;
+  const first = points[0].date;
+  const span = daysBetween(first, points[points.length - 1].date) || 1;
+  const xAt = (date: string) => left + (daysBetween(first, date) / span) * width;
+  const yAt = (value: number) => bottom - ((value - min) / (max - min)) * height;
+
+  doc.font("Helvetica").fontSize(7).fillColor(colors.muted);
+  for (let i = 0; i <= 4; i++) {
+    const value = min + ((max - min) * i) / 4;
+    const y = yAt(value);
+    doc.moveTo(left, y).lineTo(left + width, y).lineWidth(0.5).strokeColor(colors.rule).stroke();
+    doc.text(formatNumber(value), MARGIN, y - 3.5, { width: 30, align: "right" });
+  }
+
+  points.forEach((point, i) => {
+    if (i === 0) doc.moveTo(xAt(point.date), yAt(point.value));
+    else doc.lineTo(xAt(point.date), yAt(point.value));
+  });
+  doc.lineWidth(1.5).strokeColor(colors.accent).stroke();
+  if (points.length <= 60) {
+    for (const point of points) doc.circle(xAt(point.date), yAt(point.value), 2).fill(colors.accent);
+  }
+
+  doc.fillColor(colors.muted).text(formatDate(first), left, bottom + 4, { width: 100 });
+  doc.text(formatDate(points[points.length - 1].date), left + width - 100, bottom + 4, { width: 100, align: "right" });
+  doc.x = MARGIN;
+  doc.y = bottom + 20;
+}
+
+function weightSection(doc: Doc, data: ReportData): void {
+  sectionHeading(doc, "Weight");
+  if (data.weights.length === 0) return emptyNote(doc, "No weights recorded in this period");
+
+  // Charted in the household's unit, whatever each entry was recorded in.
+  const latest = data.weights[data.weights.length - 1];
+  const unit = data.weightUnit;
+  const points = data.weights.map((entry) => ({ date: entry.recordedAt, value: convertWeight(entry.weight, entry.unit, unit) }));
+  if (points.length > 1) weightChart(doc, points);
+
+  const change = points[points.length - 1].value - points[0].value;
+  const summary = [`Latest ${formatNumber(points[points.length - 1].value)} ${unit} on ${formatDate(latest.recordedAt)}`];
+  if (points.length > 1) {
+    summary.push(
+      `${change >= 0 ? "+" : "-"}${formatNumber(Math.abs(change))} ${unit} since ${formatDate(points[0].date)}`,
+      `${points.length} weigh-ins`
+    );
+  }
+  doc.font("Helvetica").fontSize(9).fillColor(colors.text).text(summary.join(" · "), MARGIN, doc.y);
+}
+
+function vaccinationSection(doc: Doc, data: ReportData): void {
+  sectionHeading(doc, "Vaccinations");
+  if (data.vaccinations.length === 0) return emptyNote(doc, "No vaccinations recorded in this period");
+  table(
+    doc,
+    [
+      { header: "Vaccine", width: 0.28 },
+      { header: "Given", width: 0.16 },
+      { header: "Next due", width: 0.24 },
+      { header: "Veterinarian", width: 0.32 },
+    ],
+    data.vaccinations.map((v) => {
+      let due: TableCell = { text: "—", color: colors.muted };
+      if (v.nextDueDate) {
+        const validity = vaccinationValidity(v.nextDueDate, data.today);
+        due =
+          validity === "overdue"
+            ? { text: `${formatDate(v.nextDueDate)} (overdue)`, color: colors.danger, bold: true }
+            : validity === "due_soon"
+              ? { text: `${formatDate(v.nextDueDate)} (due soon)`, color: colors.warning }
+              : { text: formatDate(v.nextDueDate) };
+      }
+      return [{ text: v.name, bold: true }, { text: formatDate(v.dateAdministered) }, due, { text: v.veterinarian ?? "" }];
+    })
+  );
+}
+
+function medicationSection(doc: Doc, data: ReportData): void {
+  sectionHeading(doc, "Medications");
+  if (data.medications.length === 0) return emptyNote(doc, "No medications recorded in this period");
+  table(
+    doc,
+    [
+      { header: "Medication", width: 0.24 },
+      { header: "Dosage", width: 0.2 },
+      { header: "Dates", width: 0.3 },
+      { header: "Prescribed by", width: 0.26 },
+    ],
+    data.medications.map((m) => [
+      { text: [m.name, m.notes].filter(Boolean).join("\n"), bold: true },
+      { text: [m.dosage, m.frequency].filter(Boolean).join(", ") },
+      {
+        text: m.active ? `Since ${formatDate(m.startDate)} (active)` : `${formatDate(m.startDate)} – ${m.endDate ? formatDate(m.endDate) : "?"}`,
+        color: m.active ? colors.text : colors.muted,
+      },
+      { text: m.prescribedBy ?? "" },
+    ])
+  );
+}
+
+function eventSection(doc: Doc, data: ReportData): void {
+  sectionHeading(doc, "Events");
+  if (data.events.length === 0) return emptyNote(doc, "No events in this period");
+  for (const event of data.events) {
+    ensureSpace(doc, 45);
+    const top = doc.y;
+    doc.font("Helvetica").fontSize(9).fillColor(colors.muted);
+    doc.text(formatDate(event.eventDate), MARGIN, top, { width: 80 });
+    const x = MARGIN + 85;
+    const width = contentWidth(doc) - 85;
+    doc.font("Helvetica-Bold").fontSize(10).fillColor(colors.text).text(event.title, x, top, { width });
+    const details = [
+      categoryLabels[event.category] ?? event.category,
+      statusLabels[event.status],
+      event.startTime?.slice(0, 5),
+      event.location,
+    ].filter(Boolean);
+    doc.font("Helvetica").fontSize(8.5).fillColor(colors.muted).text(details.join(" · "), x, doc.y, { width });
+    if (event.outcome) {
+      doc.font("Helvetica-Oblique").fontSize(9).fillColor(colors.text).text(`Outcome: ${event.outcome}`, x, doc.y + 2, { width });
+    }
+    if (event.notes) {
+      doc.y += 3;
+      richText(doc, event.notes, x, width);
+    }
+    doc.x = MARGIN;
+    doc.y += 8;
+  }
+  if (data.omittedEvents > 0) {
+    emptyNote(doc, `${data.omittedEvents} earlier event${data.omittedEvents === 1 ? "" : "s"} not shown; narrow the date range to include them`);
+  }
+}
+
+function renderReport(data: ReportData): Promise<Buffer> {
+  const { doc, done } = createPdf({ title: `${data.pet.name} – Health report`, author: data.householdName });
+  header(doc, data);
+  profile(doc, data);
+  weightSection(doc, data);
+  vaccinationSection(doc, data);
+  medicationSection(doc, data);
+  eventSection(doc, data);
+  pageFooters(doc, `${data.pet.name} · Health report`);
+  doc.end();
+  return done;
+}
+
+/**
+ * Renders a pet's health report as a PDF: profile and microchip details, a
+ * weight chart, vaccinations with due dates, medications and events (with
+ * their notes) for the requested range. Undefined if the pet doesn't exist.
+ */
+export async function buildHealthReport(
+  householdId: number,
+  petId: number,
+  query: HealthReportQuery
+): Promise<{ pet: Pet; pdf: Buffer } | undefined> {
+  const data = await loadReport(householdId, petId, query);
+  if (!data) return undefined;
+  return { pet: data.pet, pdf: await renderReport(data) };
+}
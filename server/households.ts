@@ -0,0 +1,67 @@
+import type { NextFunction, Request, Response } from "express";
+import { storage } from "./storage";
+import type { HouseholdRole, PublicUser } from "@shared/schema";
+
+declare module "express-session" {
+  interface SessionData {
+    householdId?: number;
+  }
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      // The signed-in user's active household; set for every authenticated request.
+      household?: { id: number; role: HouseholdRole };
+    }
+  }
+}
+
+// Requests a viewer may still make: signing out and managing their own membership.
+const viewerWritablePaths = [/^\/api\/(login|logout|register)$/, /^\/api\/households\/active$/, /^\/api\/invitations\/accept$/, /^\/api\/household\/leave$/];
+
+export function defaultHouseholdName(user: Pick<PublicUser, "username" | "displayName">): string {
+  return `${user.displayName || user.username}'s Household`;
+}
+
+/**
+ * Resolves the active household for the signed-in user: the one chosen in
+ * their session if they still belong to it, otherwise their first. Someone
+ * who has left every household gets a fresh one of their own.
+ */
+export async function resolveHousehold(req: Request, res: Response, next: NextFunction) {
+  const scoped = req.path.startsWith("/api/") || req.path.startsWith("/objects/");
+  if (!req.user || !scoped) return next();
+  try {
+    const memberships = await storage.getHouseholdsForUser(req.user.id);
+    let active = memberships.find((m) => m.id === req.session.householdId) ?? memberships[0];
+    if (!active) {
+      const created = await storage.createHousehold(req.user.id, defaultHouseholdName(req.user));
+      active = { id: created.id, name: created.name, role: "owner" };
+    }
+    req.session.householdId = active.id;
+    req.household = { id: active.id, role: active.role };
+
+    const writing = !["GET", "HEAD", "OPTIONS"].includes(req.method);
+    if (writing && active.role === "viewer" && !viewerWritablePaths.some((pattern) => pattern.test(req.path))) {
+      return res.status(403).json({ error: "Viewers can't make changes in this household" });
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+export function requireRole(...roles: HouseholdRole[]) {
+  // Generic over params so routes keep their typed `req.params`.
+  return <P>(req: Request<P>, res: Response, next: NextFunction) => {
+    if (req.household && roles.includes(req.household.role)) return next();
+    res.status(403).json({ error: `Only household ${roles.join(" or ")}s can do that` });
+  };
+}
+
+// Route handlers run after resolveHousehold, so an authenticated request always has one.
+export function householdId(req: Request): number {
+  if (!req.household) throw new Error("No active household");
+  return req.household.id;
+}
@@ -21,6 +21,11 @@ declare module "http" {
   }
 }
 
+// Backups and CSV imports can be far larger than any other request body; once
+// these parsers have read the body, the general one below skips it.
+app.use("/api/import", express.json({ limit: "25mb" }));
+app.use("/api/pets/:id/import", express.json({ limit: "5mb" }));
+
 app.use(
   express.json({
     verify: (req, _res, buf) => {
@@ -69,6 +74,9 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  const { upgradeDatabase } = await import("./upgrade");
+  await upgradeDatabase().catch((err) => console.error("Upgrade error:", err));
+
   const { seedDatabase } = await import("./seed");
   await seedDatabase().catch((err) => console.error("Seed error:", err));
 
@@ -0,0 +1,188 @@
+import type { Request } from "express";
+import { storage } from "./storage";
+import {
+  ObjectAccessGroupType,
+  ObjectNotFoundError,
+  ObjectPermission,
+  ObjectStorageService,
+  getObjectAclPolicy,
+} from "./replit_integrations/object_storage";
+import type { ObjectAclPolicy, ObjectAclRule, StoredObject } from "./replit_integrations/object_storage";
+import { uploadLimits } from "@shared/schema";
+import type { UploadKind } from "@shared/schema";
+
+declare module "express-session" {
+  interface SessionData {
+    // Uploads this session requested but hasn't attached to anything yet.
+    pendingUploads?: string[];
+  }
+}
+
+const MAX_PENDING_UPLOADS = 20;
+
+const objectStorageService = new ObjectStorageService();
+
+function userIdOf(req: Request): string | undefined {
+  return req.user ? String(req.user.id) : undefined;
+}
+
+/**
+ * Remembers an upload URL handed out to this session. Until it is attached,
+ * an object has no ACL policy, so this is what lets the uploader preview it.
+ */
+export function rememberPendingUpload(req: Request, objectPath: string): void {
+  const pending = (req.session.pendingUploads ?? []).filter((path) => path !== objectPath);
+  req.session.pendingUploads = [...pending, objectPath].slice(-MAX_PENDING_UPLOADS);
+}
+
+function isPendingUpload(req: Request, objectPath: string): boolean {
+  return !!req.session?.pendingUploads?.includes(objectPath);
+}
+
+// Members of the pet's household may read and re-attach it; live share links for the pet may read it.
+function petObjectRules(householdId: number, petId: number): ObjectAclRule[] {
+  return [
+    {
+      group: { type: ObjectAccessGroupType.HOUSEHOLD_MEMBER, id: String(householdId) },
+      permission: ObjectPermission.WRITE,
+    },
+    {
+      group: { type: ObjectAccessGroupType.SHARE_LINK, id: String(petId) },
+      permission: ObjectPermission.READ,
+    },
+  ];
+}
+
+function mergeRules(existing: ObjectAclRule[], added: ObjectAclRule[]): ObjectAclRule[] {
+  const key = (rule: ObjectAclRule) => `${rule.group.type}:${rule.group.id}:${rule.permission}`;
+  const seen = new Set(existing.map(key));
+  return [...existing, ...added.filter((rule) => !seen.has(key(rule)))];
+}
+
+// request-url only saw what the client claimed; this checks what was actually stored.
+async function checkUploadLimits(objectFile: StoredObject, kind: UploadKind): Promise<void> {
+  const limits = uploadLimits[kind];
+  const { contentType, size } = await objectFile.getMetadata();
+  if (!contentType || !limits.contentTypes.includes(contentType.toLowerCase())) throw new Error(limits.typeMessage);
+  if (size !== undefined && size > limits.maxBytes) {
+    throw new Error(`Files can be at most ${limits.maxBytes / (1024 * 1024)} MB`);
+  }
+}
+
+/**
+ * Checks the caller may attach an uploaded object (their own fresh upload, or
+ * one they already have write access to) and returns its `/objects/...` path.
+ * Fresh uploads must also fit the limits for the given kind of upload.
+ * Anything that isn't one of our objects is passed through unchanged.
+ */
+export async function prepareObjectAttachment(req: Request, rawPath: string, kind: UploadKind): Promise<string> {
+  const objectPath = objectStorageService.normalizeObjectEntityPath(rawPath);
+  if (!objectPath.startsWith("/objects/")) return objectPath;
+
+  let objectFile: StoredObject;
+  try {
+    objectFile = await objectStorageService.getObjectEntityFile(objectPath);
+  } catch (error) {
+    if (error instanceof ObjectNotFoundError) throw new Error("Uploaded file not found");
+    throw error;
+  }
+
+  const policy = await getObjectAclPolicy(objectFile);
+  if (policy) {
+    const allowed = await objectStorageService.canAccessObjectEntity({
+      userId: userIdOf(req),
+      objectFile,
+      requestedPermission: ObjectPermission.WRITE,
+    });
+    if (!allowed) throw new Error("You don't have access to that file");
+    return objectPath;
+  }
+
+  if (isPendingUpload(req, objectPath)) {
+    await checkUploadLimits(objectFile, kind);
+    return objectPath;
+  }
+  if (req.household && (await storage.getPetByAvatarUrl(req.household.id, objectPath))) return objectPath;
+  throw new Error("You don't have access to that file");
+}
+
+async function stampObjectAccess(req: Request, objectPath: string, rules: ObjectAclRule[]): Promise<void> {
+  if (!objectPath.startsWith("/objects/")) return;
+  const objectFile = await objectStorageService.getObjectEntityFile(objectPath);
+  const existing = await getObjectAclPolicy(objectFile);
+  const policy: ObjectAclPolicy = {
+    owner: existing?.owner ?? userIdOf(req) ?? "",
+    visibility: existing?.visibility ?? "private",
+    aclRules: mergeRules(existing?.aclRules ?? [], rules),
+  };
+  await objectStorageService.trySetObjectEntityAclPolicy(objectPath, policy);
+  if (req.session?.pendingUploads) {
+    req.session.pendingUploads = req.session.pendingUploads.filter((path) => path !== objectPath);
+  }
+}
+
+/**
+ * Stamps an attached object with the pet's household and share-link access,
+ * keeping any rules it already had (the same photo may belong to several pets).
+ */
+export async function grantPetObjectAccess(req: Request, objectPath: string, householdId: number, petId: number): Promise<void> {
+  await stampObjectAccess(req, objectPath, petObjectRules(householdId, petId));
+}
+
+// Documents attached to records are for the household only; share links never see them.
+export async function grantHouseholdObjectAccess(req: Request, objectPath: string, householdId: number): Promise<void> {
+  await stampObjectAccess(req, objectPath, [
+    {
+      group: { type: ObjectAccessGroupType.HOUSEHOLD_MEMBER, id: String(householdId) },
+      permission: ObjectPermission.WRITE,
+    },
+  ]);
+}
+
+/**
+ * Deletes stored objects nothing refers to any more. Cleanup is best-effort:
+ * the records are already gone, so a storage failure is logged, not raised.
+ */
+export async function deleteUnreferencedObjects(objectPaths: string[]): Promise<void> {
+  for (const objectPath of Array.from(new Set(objectPaths))) {
+    if (!objectPath.startsWith("/objects/")) continue;
+    try {
+      if (await storage.isObjectReferenced(objectPath)) continue;
+      await objectStorageService.deleteObjectEntity(objectPath);
+    } catch (error) {
+      console.error(`Error deleting object ${objectPath}:`, error);
+    }
+  }
+}
+
+// Call after deleting a pet or record: drops attachments left without a parent, and their files.
+export async function removeOrphanedAttachments(householdId: number): Promise<void> {
+  const orphaned = await storage.deleteOrphanedAttachments(householdId);
+  await deleteUnreferencedObjects(orphaned.map((attachment) => attachment.objectPath));
+}
+
+/**
+ * READ check for `/objects`. Objects with a policy defer to it, with sitters
+ * identifying themselves by a `?share=<token>` query parameter. Objects
+ * without one are either this session's unattached upload or a pet avatar
+ * saved before policies existed, which is stamped on first view.
+ */
+export async function canReadObject(req: Request, objectPath: string, objectFile: StoredObject): Promise<boolean> {
+  const policy = await getObjectAclPolicy(objectFile);
+  if (policy) {
+    const shareToken = typeof req.query.share === "string" ? req.query.share : undefined;
+    return objectStorageService.canAccessObjectEntity({
+      userId: userIdOf(req),
+      shareToken,
+      objectFile,
+      requestedPermission: ObjectPermission.READ,
+    });
+  }
+
+  if (isPendingUpload(req, objectPath)) return true;
+  if (!req.household) return false;
+  const pet = await storage.getPetByAvatarUrl(req.household.id, objectPath);
+  if (!pet) return false;
+  await grantPetObjectAccess(req, objectPath, req.household.id, pet.id);
+  return true;
+}
@@ -0,0 +1,113 @@
+import PDFDocument from "pdfkit";
+import { format, parseISO } from "date-fns";
+
+// Shared page layout for the server-rendered PDFs (health reports, vaccination certificates).
+
+export const MARGIN = 50;
+
+export const colors = {
+  text: "#1f2937",
+  muted: "#6b7280",
+  rule: "#e5e7eb",
+  accent: "#2563eb",
+  warning: "#b45309",
+  danger: "#b91c1c",
+};
+
+export type Doc = PDFKit.PDFDocument;
+export type TableCell = { text: string; color?: string; bold?: boolean };
+
+export function formatDate(date: string): string {
+  return format(parseISO(date), "d MMM yyyy");
+}
+
+// An A4 document with buffered pages (so footers can be added last) and a promise of its bytes.
+export function createPdf(info: { title: string; author: string }): { doc: Doc; done: Promise<Buffer> } {
+  const doc = new PDFDocument({ size: "A4", margin: MARGIN, bufferPages: true, info: { Title: info.title, Author: info.author } });
+  const chunks: Buffer[] = [];
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+  return { doc, done };
+}
+
+export function contentWidth(doc: Doc): number {
+  return doc.page.width - MARGIN * 2;
+}
+
+export function ensureSpace(doc: Doc, height: number): void {
+  if (doc.y + height > doc.page.height - MARGIN) doc.addPage();
+}
+
+export function sectionHeading(doc: Doc, title: string): void {
+  ensureSpace(doc, 60);
+  doc.moveDown(1.2);
+  doc.font("Helvetica-Bold").fontSize(13).fillColor(colors.text).text(title, MARGIN, doc.y);
+  const y = doc.y + 3;
+  doc.moveTo(MARGIN, y).lineTo(MARGIN + contentWidth(doc), y).lineWidth(0.75).strokeColor(colors.rule).stroke();
+  doc.y = y + 8;
+}
+
+export function emptyNote(doc: Doc, text: string): void {
+  doc.font("Helvetica-Oblique").fontSize(9.5).fillColor(colors.muted).text(text, MARGIN, doc.y);
+}
+
+export function table(doc: Doc, columns: { header: string; width: number }[], rows: TableCell[][]): void {
+  const widths = columns.map((column) => column.width * contentWidth(doc));
+  const padding = 4;
+  const showHeader = columns.some((column) => column.header);
+
+  const drawRow = (cells: TableCell[], header: boolean) => {
+    doc.fontSize(header ? 8 : 9);
+    const height =
+      Math.max(
+        ...cells.map((cell, i) =>
+          doc.font(header || cell.bold ? "Helvetica-Bold" : "Helvetica").heightOfString(cell.text || " ", { width: widths[i] - padding * 2 })
+        )
+      ) +
+      padding * 2;
+    if (!header && doc.y + height > doc.page.height - MARGIN) {
+      doc.addPage();
+      if (showHeader) drawRow(columns.map((column) => ({ text: column.header })), true);
+    }
+    const top = doc.y;
+    let x = MARGIN;
+    cells.forEach((cell, i) => {
+      doc
+        .font(header || cell.bold ? "Helvetica-Bold" : "Helvetica")
+        .fillColor(header ? colors.muted : (cell.color ?? colors.text))
+        .text(cell.text, x + padding, top + padding, { width: widths[i] - padding * 2 });
+      x += widths[i];
+    });
+    const bottom = top + height;
+    doc.moveTo(MARGIN, bottom).lineTo(MARGIN + contentWidth(doc), bottom).lineWidth(0.5).strokeColor(colors.rule).stroke();
+    doc.x = MARGIN;
+    doc.y = bottom;
+  };
+
+  ensureSpace(doc, 40);
+  if (showHeader) drawRow(columns.map((column) => ({ text: column.header })), true);
+  for (const row of rows) drawRow(row, false);
+}
+
+// Writes "<label> · Page n of N" at the foot of every page; call once all content is in.
+export function pageFooters(doc: Doc, label: string): void {
+  const range = doc.bufferedPageRange();
+  for (let i = range.start; i < range.start + range.count; i++) {
+    doc.switchToPage(i);
+    // Writing inside the bottom margin would otherwise start a new page.
+    const bottomMargin = doc.page.margins.bottom;
+    doc.page.margins.bottom = 0;
+    doc
+      .font("Helvetica")
+      .fontSize(7.5)
+      .fillColor(colors.muted)
+      .text(`${label} · Page ${i + 1} of ${range.count}`, MARGIN, doc.page.height - MARGIN + 18, {
+        width: contentWidth(doc),
+        align: "center",
+      });
+    doc.page.margins.bottom = bottomMargin;
+  }
+}
@@ -0,0 +1,119 @@
+import type { Request } from "express";
+import sharp from "sharp";
+import type { OutputInfo } from "sharp";
+import { storage } from "./storage";
+import type { NewPetPhoto } from "./storage";
+import { deleteUnreferencedObjects, grantHouseholdObjectAccess, prepareObjectAttachment } from "./object-access";
+import { ObjectStorageService, getObjectAclPolicy } from "./replit_integrations/object_storage";
+import type { StoredObject } from "./replit_integrations/object_storage";
+import type { CreatePetPhoto, PetPhoto } from "@shared/schema";
+
+const THUMBNAIL_SIZE = 320;
+const DISPLAY_MAX_SIZE = 1600;
+
+const objectStorageService = new ObjectStorageService();
+
+async function readObject(objectFile: StoredObject): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of objectFile.createReadStream()) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Re-encodes a freshly uploaded image without its metadata, so EXIF details
+ * such as GPS coordinates never reach a share link. Orientation is applied to
+ * the pixels first so the image still displays upright. Objects that already
+ * have an ACL policy were attached (and stripped) before, so are left alone.
+ */
+export async function stripImageMetadata(objectPath: string): Promise<void> {
+  if (!objectPath.startsWith("/objects/")) return;
+  const objectFile = await objectStorageService.getObjectEntityFile(objectPath);
+  if (await getObjectAclPolicy(objectFile)) return;
+
+  const original = await readObject(objectFile);
+  let stripped: { data: Buffer; info: OutputInfo };
+  try {
+    stripped = await sharp(original, { animated: true }).autoOrient().toBuffer({ resolveWithObject: true });
+  } catch {
+    throw new Error("That file isn't an image we can read");
+  }
+  await objectFile.save(stripped.data, `image/${stripped.info.format}`);
+}
+
+/**
+ * Stores a display-size copy and a square thumbnail of an uploaded image,
+ * both upright (EXIF orientation applied) and re-encoded as WebP.
+ */
+async function generateVariants(objectPath: string): Promise<Omit<NewPetPhoto, "caption" | "takenAt">> {
+  const original = await readObject(await objectStorageService.getObjectEntityFile(objectPath));
+
+  let dimensions: { width: number; height: number };
+  try {
+    dimensions = (await sharp(original).metadata()).autoOrient;
+  } catch {
+    throw new Error("That file isn't an image we can read");
+  }
+
+  const upright = sharp(original).autoOrient();
+  const [display, thumbnail] = await Promise.all([
+    upright
+      .clone()
+      .resize(DISPLAY_MAX_SIZE, DISPLAY_MAX_SIZE, { fit: "inside", withoutEnlargement: true })
+      .webp({ quality: 82 })
+      .toBuffer(),
+    upright.clone().resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: "cover" }).webp({ quality: 75 }).toBuffer(),
+  ]);
+
+  const displayPath = await objectStorageService.createObjectEntity(display, "image/webp", "photos");
+  const thumbnailPath = await objectStorageService.createObjectEntity(thumbnail, "image/webp", "photos");
+  return { objectPath, displayPath, thumbnailPath, width: dimensions.width, height: dimensions.height };
+}
+
+/**
+ * Adds an uploaded image to a pet's gallery: checks the caller may attach it,
+ * strips its metadata, generates the variants and stamps all three objects
+ * household-only. If anything fails, the generated variants are removed again.
+ */
+export async function addPetPhoto(req: Request, householdId: number, petId: number, data: CreatePetPhoto): Promise<PetPhoto> {
+  const objectPath = await prepareObjectAttachment(req, data.objectPath, "image");
+  if (!objectPath.startsWith("/objects/")) throw new Error("Photos must be uploaded files");
+  if (!(await storage.getPet(householdId, petId))) throw new Error("Pet not found");
+  await stripImageMetadata(objectPath);
+
+  const files = await generateVariants(objectPath);
+  try {
+    const photo = await storage.createPetPhoto(
+      householdId,
+      petId,
+      { ...files, caption: data.caption || null, takenAt: data.takenAt || null },
+      req.user!.id
+    );
+    for (const path of [photo.objectPath, photo.displayPath, photo.thumbnailPath]) {
+      await grantHouseholdObjectAccess(req, path, householdId);
+    }
+    return photo;
+  } catch (error) {
+    await deleteUnreferencedObjects([files.displayPath, files.thumbnailPath]);
+    throw error;
+  }
+}
+
+// A stored avatar as a small upright JPEG for generated documents; null if it
+// isn't an uploaded object or can't be read as an image.
+export async function loadAvatarImage(avatarUrl: string | null, size = 240): Promise<Buffer | null> {
+  if (!avatarUrl?.startsWith("/objects/")) return null;
+  try {
+    const original = await readObject(await objectStorageService.getObjectEntityFile(avatarUrl));
+    return await sharp(original).autoOrient().resize(size, size, { fit: "cover" }).jpeg({ quality: 85 }).toBuffer();
+  } catch (error) {
+    console.error(`Couldn't load avatar ${avatarUrl}:`, error);
+    return null;
+  }
+}
+
+// Deletes a photo's objects once no record (an avatar, an attachment) still uses them.
+export async function deletePhotoObjects(photos: PetPhoto[]): Promise<void> {
+  await deleteUnreferencedObjects(photos.flatMap((photo) => [photo.objectPath, photo.displayPath, photo.thumbnailPath]));
+}
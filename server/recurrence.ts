@@ -0,0 +1,128 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  addYears,
+  differenceInCalendarDays,
+  format,
+  parseISO,
+  startOfWeek,
+} from "date-fns";
+import { z } from "zod";
+import { eventEditScopes } from "@shared/schema";
+import type { EventOccurrence, EventWithPets, RecurrenceRule } from "@shared/schema";
+
+// How far ahead open-ended series are expanded when no range is requested.
+const DEFAULT_HORIZON_DAYS = 365;
+const MAX_PERIODS = 5000;
+
+export const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a yyyy-MM-dd date");
+
+export const eventRangeSchema = z.object({
+  from: isoDate.optional(),
+  to: isoDate.optional(),
+});
+
+export const eventScopeSchema = z.object({
+  scope: z.enum(eventEditScopes).default("all"),
+  occurrenceDate: isoDate.optional(),
+});
+
+export type EventRange = z.infer<typeof eventRangeSchema>;
+
+export function toDateString(date: Date): string {
+  return format(date, "yyyy-MM-dd");
+}
+
+export function shiftDate(date: string, days: number): string {
+  return toDateString(addDays(parseISO(date), days));
+}
+
+export function daysBetween(from: string, to: string): number {
+  return differenceInCalendarDays(parseISO(to), parseISO(from));
+}
+
+// Candidate dates for the k-th period of a rule, before COUNT / UNTIL are applied.
+// The start date is always the first instance, as with DTSTART in RFC 5545.
+function periodCandidates(rule: RecurrenceRule, start: Date, k: number): Date[] {
+  const interval = rule.interval || 1;
+
+  switch (rule.frequency) {
+    case "daily":
+      return [addDays(start, k * interval)];
+    case "weekly": {
+      if (!rule.byWeekday?.length) return [addWeeks(start, k * interval)];
+      const weekdays = Array.from(new Set(rule.byWeekday)).sort((a, b) => a - b);
+      const weekStart = addWeeks(startOfWeek(start), k * interval);
+      const dates = weekdays.map((weekday) => addDays(weekStart, weekday)).filter((date) => date >= start);
+      return k === 0 && !weekdays.includes(start.getDay()) ? [start, ...dates] : dates;
+    }
+    case "monthly":
+      // Always step from the start so the 31st clamps per month instead of drifting.
+      return [addMonths(start, k * interval)];
+    case "yearly":
+      return [addYears(start, k * interval)];
+  }
+}
+
+export function listOccurrenceDates(
+  rule: RecurrenceRule,
+  startDate: string,
+  range: { from?: string; to: string },
+  exceptions: string[] = []
+): string[] {
+  const start = parseISO(startDate);
+  const dates: string[] = [];
+  let seen = 0;
+
+  for (let k = 0; k < MAX_PERIODS; k++) {
+    for (const candidate of periodCandidates(rule, start, k)) {
+      const date = toDateString(candidate);
+      if ((rule.until && date > rule.until) || date > range.to) return dates;
+      if (rule.count && seen >= rule.count) return dates;
+      seen++;
+
+      if (range.from && date < range.from) continue;
+      if (exceptions.includes(date)) continue;
+      dates.push(date);
+    }
+  }
+
+  return dates;
+}
+
+// Number of instances a series produced before the given date, ignoring exceptions.
+export function countOccurrencesBefore(rule: RecurrenceRule, startDate: string, date: string): number {
+  if (date <= startDate) return 0;
+  return listOccurrenceDates({ ...rule, count: null }, startDate, { to: shiftDate(date, -1) }).length;
+}
+
+export function expandEventOccurrences(events: EventWithPets[], range: EventRange = {}): EventOccurrence[] {
+  const horizon = range.to ?? toDateString(addDays(new Date(), DEFAULT_HORIZON_DAYS));
+  const occurrences: EventOccurrence[] = [];
+
+  for (const event of events) {
+    if (!event.recurrence) {
+      if (range.from && event.eventDate < range.from) continue;
+      if (range.to && event.eventDate > range.to) continue;
+      occurrences.push({ ...event, seriesStartDate: event.eventDate });
+      continue;
+    }
+
+    const dates = listOccurrenceDates(
+      event.recurrence,
+      event.eventDate,
+      { from: range.from, to: horizon },
+      event.recurrenceExceptions ?? []
+    );
+    for (const date of dates) {
+      occurrences.push({
+        ...event,
+        eventDate: date,
+        seriesStartDate: event.eventDate,
+      });
+    }
+  }
+
+  return occurrences.sort((a, b) => b.eventDate.localeCompare(a.eventDate));
+}
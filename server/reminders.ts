@@ -0,0 +1,229 @@
+import { addYears, isValid, parse, parseISO, setYear } from "date-fns";
+import { z } from "zod";
+import { storage } from "./storage";
+import { daysBetween, expandEventOccurrences, isoDate, shiftDate, toDateString } from "./recurrence";
+import { fromZonedTime, todayInTimeZone } from "@shared/timezone";
+import type { Pet, Reminder, ReminderAcknowledgement, ReminderStatus } from "@shared/schema";
+
+const DEFAULT_LOOKBACK_DAYS = 30;
+const DEFAULT_LOOKAHEAD_DAYS = 90;
+const SOON_THRESHOLD_DAYS = 3;
+const VACCINATION_LEAD_DAYS = 30;
+const MEDICATION_LEAD_DAYS = 3;
+
+// Formats accepted for the free-text pets.yearlyVaccinationDate field, e.g. "23 November".
+const YEARLY_DATE_FORMATS = ["d MMMM", "d MMM", "MMMM d", "MMM d", "d/M", "yyyy-MM-dd"];
+
+export const reminderQuerySchema = z.object({
+  from: isoDate.optional(),
+  to: isoDate.optional(),
+  petId: z.coerce.number().int().positive().optional(),
+  includeHandled: z
+    .enum(["true", "false"])
+    .optional()
+    .transform((value) => value === "true"),
+});
+
+export type ReminderQuery = Partial<z.infer<typeof reminderQuerySchema>>;
+
+export function getReminderStatus(daysUntil: number): ReminderStatus {
+  if (daysUntil < 0) return "overdue";
+  if (daysUntil === 0) return "today";
+  if (daysUntil <= SOON_THRESHOLD_DAYS) return "soon";
+  return "upcoming";
+}
+
+function nextYearlyOccurrence(value: string, from: Date): Date | null {
+  for (const fmt of YEARLY_DATE_FORMATS) {
+    const parsed = parse(value.trim(), fmt, from);
+    if (!isValid(parsed)) continue;
+    const occurrence = setYear(parsed, from.getFullYear());
+    return occurrence < from ? addYears(occurrence, 1) : occurrence;
+  }
+  return null;
+}
+
+function acknowledgementKey(source: string, sourceId: number, dueDate: string): string {
+  return `${source}-${sourceId}@${dueDate}`;
+}
+
+// Completed and dismissed reminders stay handled; snoozed ones come back once the snooze lapses.
+function isHandled(acknowledgement: ReminderAcknowledgement | null, today: string): boolean {
+  if (!acknowledgement) return false;
+  if (acknowledgement.action !== "snoozed") return true;
+  return !!acknowledgement.snoozedUntil && acknowledgement.snoozedUntil > today;
+}
+
+// "Today" and reminder times are resolved in the household's timezone, not the server's.
+type ReminderClock = { now: Date; today: string; timeZone: string };
+
+function buildReminder(
+  clock: ReminderClock,
+  fields: Omit<Reminder, "id" | "status" | "daysUntil" | "active" | "acknowledgement" | "remindAt" | "dueTime"> & {
+    dueTime?: string | null;
+    remindAt: Date;
+  }
+): Reminder {
+  const daysUntil = daysBetween(clock.today, fields.dueDate);
+  return {
+    ...fields,
+    id: `${fields.source}-${fields.sourceId}-${fields.dueDate}`,
+    dueTime: fields.dueTime?.slice(0, 5) ?? null,
+    remindAt: fields.remindAt.toISOString(),
+    status: getReminderStatus(daysUntil),
+    daysUntil,
+    active: fields.remindAt <= clock.now,
+    acknowledgement: null,
+  };
+}
+
+// Date-only reminders become active at the start of their day, household time.
+function remindAtStartOf(clock: ReminderClock, date: string): Date {
+  return fromZonedTime(date, null, clock.timeZone);
+}
+
+/**
+ * Collects everything that is due for the household into a single feed:
+ * scheduled events (honouring their reminder offset), vaccination due dates,
+ * medication course start/end dates and each pet's yearly vaccination date.
+ */
+export async function getReminders(householdId: number, query: ReminderQuery = {}): Promise<Reminder[]> {
+  const household = await storage.getHousehold(householdId);
+  if (!household) throw new Error("Household not found");
+  const now = new Date();
+  const clock: ReminderClock = { now, today: todayInTimeZone(household.timezone, now), timeZone: household.timezone };
+  const from = query.from ?? shiftDate(clock.today, -DEFAULT_LOOKBACK_DAYS);
+  const to = query.to ?? shiftDate(clock.today, DEFAULT_LOOKAHEAD_DAYS);
+
+  const [allPets, allEvents, allVaccinations, allMedications, acknowledgements] = await Promise.all([
+    storage.getPets(householdId),
+    storage.getEvents(householdId),
+    storage.getAllVaccinations(householdId),
+    storage.getAllMedications(householdId),
+    storage.getReminderAcknowledgements(householdId),
+  ]);
+
+  const acknowledgementsByKey = new Map(
+    acknowledgements.map((a) => [acknowledgementKey(a.source, a.sourceId, a.dueDate), a])
+  );
+
+  const petsById = new Map<number, Pet>(allPets.map((p) => [p.id, p]));
+  const petRef = (petId: number) => {
+    const pet = petsById.get(petId);
+    return pet ? [{ id: pet.id, name: pet.name }] : [];
+  };
+
+  const reminders: Reminder[] = [];
+
+  const occurrences = expandEventOccurrences(allEvents, { from, to });
+  for (const event of occurrences) {
+    if (event.status !== "scheduled") continue;
+    const startsAt = fromZonedTime(event.eventDate, event.startTime, clock.timeZone);
+    reminders.push(
+      buildReminder(clock, {
+        source: "event",
+        sourceId: event.id,
+        title: event.title,
+        category: event.category,
+        detail: event.location,
+        dueDate: event.eventDate,
+        dueTime: event.startTime,
+        remindAt: new Date(startsAt.getTime() - (event.reminderOffsetMinutes ?? 0) * 60_000),
+        pets: event.pets.map((p) => ({ id: p.id, name: p.name })),
+      })
+    );
+  }
+
+  // Only the most recent dose of a vaccine counts; older records are superseded.
+  const latestDoses = new Set<string>();
+  for (const vax of allVaccinations) {
+    const doseKey = `${vax.petId}:${vax.name.trim().toLowerCase()}`;
+    if (latestDoses.has(doseKey)) continue;
+    latestDoses.add(doseKey);
+    if (!vax.nextDueDate) continue;
+
+    reminders.push(
+      buildReminder(clock, {
+        source: "vaccination",
+        sourceId: vax.id,
+        title: `${vax.name} due`,
+        category: "vaccination",
+        detail: vax.veterinarian,
+        dueDate: vax.nextDueDate,
+        remindAt: remindAtStartOf(clock, shiftDate(vax.nextDueDate, -VACCINATION_LEAD_DAYS)),
+        pets: petRef(vax.petId),
+      })
+    );
+  }
+
+  for (const med of allMedications) {
+    if (!med.active) continue;
+    const detail = [med.dosage, med.frequency].filter(Boolean).join(" · ") || null;
+
+    if (med.startDate > clock.today) {
+      reminders.push(
+        buildReminder(clock, {
+          source: "medication",
+          sourceId: med.id,
+          title: `Start ${med.name}`,
+          category: "medication",
+          detail,
+          dueDate: med.startDate,
+          remindAt: remindAtStartOf(clock, shiftDate(med.startDate, -MEDICATION_LEAD_DAYS)),
+          pets: petRef(med.petId),
+        })
+      );
+    } else if (med.endDate) {
+      reminders.push(
+        buildReminder(clock, {
+          source: "medication",
+          sourceId: med.id,
+          title: `${med.name} course ends`,
+          category: "medication",
+          detail,
+          dueDate: med.endDate,
+          remindAt: remindAtStartOf(clock, shiftDate(med.endDate, -MEDICATION_LEAD_DAYS)),
+          pets: petRef(med.petId),
+        })
+      );
+    }
+  }
+
+  // The yearly date is a fallback for pets without dated vaccination records.
+  const petsWithVaccinationDue = new Set(
+    reminders.filter((r) => r.source === "vaccination").flatMap((r) => r.pets.map((p) => p.id))
+  );
+  for (const pet of allPets) {
+    if (!pet.yearlyVaccinationDate || petsWithVaccinationDue.has(pet.id)) continue;
+    const occurrence = nextYearlyOccurrence(pet.yearlyVaccinationDate, parseISO(from));
+    if (!occurrence) continue;
+    const dueDate = toDateString(occurrence);
+
+    reminders.push(
+      buildReminder(clock, {
+        source: "yearly_vaccination",
+        sourceId: pet.id,
+        title: "Yearly vaccinations",
+        category: "vaccination",
+        detail: pet.vetName,
+        dueDate,
+        remindAt: remindAtStartOf(clock, shiftDate(dueDate, -VACCINATION_LEAD_DAYS)),
+        pets: [{ id: pet.id, name: pet.name }],
+      })
+    );
+  }
+
+  for (const reminder of reminders) {
+    reminder.acknowledgement =
+      acknowledgementsByKey.get(acknowledgementKey(reminder.source, reminder.sourceId, reminder.dueDate)) ?? null;
+    if (reminder.acknowledgement?.action === "snoozed" && !isHandled(reminder.acknowledgement, clock.today)) {
+      reminder.active = true;
+    }
+  }
+
+  return reminders
+    .filter((r) => query.includeHandled || !isHandled(r.acknowledgement, clock.today))
+    .filter((r) => r.dueDate >= from && r.dueDate <= to)
+    .filter((r) => !query.petId || r.pets.some((p) => p.id === query.petId))
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate) || (a.dueTime ?? "").localeCompare(b.dueTime ?? ""));
+}
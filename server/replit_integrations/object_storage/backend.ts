@@ -0,0 +1,59 @@
+import type { Express } from "express";
+import type { Readable } from "stream";
+
+// What downloads need to know about a stored object, plus custom key/value
+// metadata (where the ACL policy lives).
+export interface StoredObjectMetadata {
+  contentType?: string;
+  size?: number;
+  etag?: string;
+  updated?: Date;
+  custom: Record<string, string>;
+}
+
+// A handle to one object in whichever backend is configured. Creating a
+// handle doesn't touch storage; the object may not exist yet.
+export interface StoredObject {
+  readonly name: string;
+  exists(): Promise<boolean>;
+  getMetadata(): Promise<StoredObjectMetadata>;
+  // Merges the given keys into the object's custom metadata.
+  setCustomMetadata(custom: Record<string, string>): Promise<void>;
+  createReadStream(): Readable;
+  // Writes the whole object from the server side, replacing any existing body and metadata.
+  save(data: Buffer, contentType: string): Promise<void>;
+  // Removes the object and its metadata; deleting a missing object is not an error.
+  delete(): Promise<void>;
+}
+
+/**
+ * Where uploaded objects actually live. Private objects are addressed by an
+ * entity id (e.g. `uploads/<uuid>`), which the app exposes as
+ * `/objects/<entity id>`.
+ */
+export interface ObjectStorageBackend {
+  // A short-lived URL the client PUTs the file body to.
+  getUploadURL(entityId: string, ttlSec: number): Promise<string>;
+  // The entity id an upload URL writes to, or null if the URL isn't one of ours.
+  entityIdFromUploadURL(url: string): string | null;
+  getEntity(entityId: string): StoredObject;
+  searchPublicObject(filePath: string): Promise<StoredObject | null>;
+  // Extra routes the backend serves itself, such as the local upload endpoint.
+  registerRoutes?(app: Express): void;
+}
+
+export type ObjectStorageBackendKind = "gcs" | "local";
+
+/**
+ * `OBJECT_STORAGE_BACKEND` picks the backend: `gcs` (Google Cloud Storage via
+ * the Replit sidecar) or `local` (files on disk under `LOCAL_OBJECT_DIR`).
+ * Unset, it is `gcs` on Replit and `local` everywhere else.
+ */
+export function configuredBackendKind(): ObjectStorageBackendKind {
+  const configured = process.env.OBJECT_STORAGE_BACKEND?.trim().toLowerCase();
+  if (configured === "gcs" || configured === "local") return configured;
+  if (configured) {
+    throw new Error(`Unknown OBJECT_STORAGE_BACKEND "${configured}"; use "gcs" or "local"`);
+  }
+  return process.env.REPL_ID ? "gcs" : "local";
+}
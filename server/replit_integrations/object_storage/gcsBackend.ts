@@ -0,0 +1,212 @@
+import { Storage, File } from "@google-cloud/storage";
+import type { Readable } from "stream";
+import type { ObjectStorageBackend, StoredObject, StoredObjectMetadata } from "./backend";
+
+const REPLIT_SIDECAR_ENDPOINT = "http://127.0.0.1:1106";
+const GCS_URL_PREFIX = "https://storage.googleapis.com/";
+
+// The object storage client is used to interact with the object storage service.
+export const objectStorageClient = new Storage({
+  credentials: {
+    audience: "replit",
+    subject_token_type: "access_token",
+    token_url: `${REPLIT_SIDECAR_ENDPOINT}/token`,
+    type: "external_account",
+    credential_source: {
+      url: `${REPLIT_SIDECAR_ENDPOINT}/credential`,
+      format: {
+        type: "json",
+        subject_token_field_name: "access_token",
+      },
+    },
+    universe_domain: "googleapis.com",
+  },
+  projectId: "",
+});
+
+class GcsStoredObject implements StoredObject {
+  constructor(private readonly file: File) {}
+
+  get name(): string {
+    return this.file.name;
+  }
+
+  async exists(): Promise<boolean> {
+    const [exists] = await this.file.exists();
+    return exists;
+  }
+
+  async getMetadata(): Promise<StoredObjectMetadata> {
+    const [metadata] = await this.file.getMetadata();
+    const custom: Record<string, string> = {};
+    for (const [key, value] of Object.entries(metadata.metadata ?? {})) {
+      if (value !== null && value !== undefined) custom[key] = String(value);
+    }
+    return {
+      contentType: metadata.contentType,
+      size: metadata.size === undefined ? undefined : Number(metadata.size),
+      etag: metadata.etag,
+      updated: metadata.updated ? new Date(metadata.updated) : undefined,
+      custom,
+    };
+  }
+
+  async setCustomMetadata(custom: Record<string, string>): Promise<void> {
+    await this.file.setMetadata({ metadata: custom });
+  }
+
+  createReadStream(): Readable {
+    return this.file.createReadStream();
+  }
+
+  async save(data: Buffer, contentType: string): Promise<void> {
+    await this.file.save(data, { contentType, resumable: false });
+  }
+
+  async delete(): Promise<void> {
+    await this.file.delete({ ignoreNotFound: true });
+  }
+}
+
+// Google Cloud Storage through the Replit sidecar, which signs upload URLs.
+export class GcsObjectStorageBackend implements ObjectStorageBackend {
+  // Gets the public object search paths.
+  getPublicObjectSearchPaths(): Array<string> {
+    const pathsStr = process.env.PUBLIC_OBJECT_SEARCH_PATHS || "";
+    const paths = Array.from(
+      new Set(
+        pathsStr
+          .split(",")
+          .map((path) => path.trim())
+          .filter((path) => path.length > 0)
+      )
+    );
+    if (paths.length === 0) {
+      throw new Error(
+        "PUBLIC_OBJECT_SEARCH_PATHS not set. Create a bucket in 'Object Storage' " +
+          "tool and set PUBLIC_OBJECT_SEARCH_PATHS env var (comma-separated paths)."
+      );
+    }
+    return paths;
+  }
+
+  // Gets the private object directory, always with a trailing slash.
+  getPrivateObjectDir(): string {
+    const dir = process.env.PRIVATE_OBJECT_DIR || "";
+    if (!dir) {
+      throw new Error(
+        "PRIVATE_OBJECT_DIR not set. Create a bucket in 'Object Storage' " +
+          "tool and set PRIVATE_OBJECT_DIR env var."
+      );
+    }
+    return dir.endsWith("/") ? dir : `${dir}/`;
+  }
+
+  async searchPublicObject(filePath: string): Promise<StoredObject | null> {
+    for (const searchPath of this.getPublicObjectSearchPaths()) {
+      const fullPath = `${searchPath}/${filePath}`;
+
+      // Full path format: /<bucket_name>/<object_name>
+      const { bucketName, objectName } = parseObjectPath(fullPath);
+      const file = objectStorageClient.bucket(bucketName).file(objectName);
+
+      // Check if file exists
+      const [exists] = await file.exists();
+      if (exists) {
+        return new GcsStoredObject(file);
+      }
+    }
+
+    return null;
+  }
+
+  async getUploadURL(entityId: string, ttlSec: number): Promise<string> {
+    const { bucketName, objectName } = parseObjectPath(`${this.getPrivateObjectDir()}${entityId}`);
+
+    // Sign URL for PUT method with TTL
+    return signObjectURL({
+      bucketName,
+      objectName,
+      method: "PUT",
+      ttlSec,
+    });
+  }
+
+  entityIdFromUploadURL(url: string): string | null {
+    if (!url.startsWith(GCS_URL_PREFIX)) {
+      return null;
+    }
+
+    // Extract the path from the URL by removing query parameters and domain
+    const rawObjectPath = new URL(url).pathname;
+    const objectEntityDir = this.getPrivateObjectDir();
+    if (!rawObjectPath.startsWith(objectEntityDir)) {
+      return null;
+    }
+    return rawObjectPath.slice(objectEntityDir.length);
+  }
+
+  getEntity(entityId: string): StoredObject {
+    const { bucketName, objectName } = parseObjectPath(`${this.getPrivateObjectDir()}${entityId}`);
+    return new GcsStoredObject(objectStorageClient.bucket(bucketName).file(objectName));
+  }
+}
+
+function parseObjectPath(path: string): {
+  bucketName: string;
+  objectName: string;
+} {
+  if (!path.startsWith("/")) {
+    path = `/${path}`;
+  }
+  const pathParts = path.split("/");
+  if (pathParts.length < 3) {
+    throw new Error("Invalid path: must contain at least a bucket name");
+  }
+
+  const bucketName = pathParts[1];
+  const objectName = pathParts.slice(2).join("/");
+
+  return {
+    bucketName,
+    objectName,
+  };
+}
+
+async function signObjectURL({
+  bucketName,
+  objectName,
+  method,
+  ttlSec,
+}: {
+  bucketName: string;
+  objectName: string;
+  method: "GET" | "PUT" | "DELETE" | "HEAD";
+  ttlSec: number;
+}): Promise<string> {
+  const request = {
+    bucket_name: bucketName,
+    object_name: objectName,
+    method,
+    expires_at: new Date(Date.now() + ttlSec * 1000).toISOString(),
+  };
+  const response = await fetch(
+    `${REPLIT_SIDECAR_ENDPOINT}/object-storage/signed-object-url`,
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(request),
+    }
+  );
+  if (!response.ok) {
+    throw new Error(
+      `Failed to sign object URL, errorcode: ${response.status}, ` +
+        `make sure you're running on Replit`
+    );
+  }
+
+  const { signed_url: signedURL } = await response.json();
+  return signedURL;
+}
@@ -1,17 +1,24 @@
 export {
   ObjectStorageService,
   ObjectNotFoundError,
-  objectStorageClient,
+  getObjectStorageBackend,
 } from "./objectStorage";
 
+export { objectStorageClient, GcsObjectStorageBackend } from "./gcsBackend";
+export { LocalObjectStorageBackend } from "./localBackend";
+export { configuredBackendKind } from "./backend";
+export type { ObjectStorageBackend, StoredObject, StoredObjectMetadata } from "./backend";
+
 export type {
   ObjectAclPolicy,
   ObjectAccessGroup,
-  ObjectAccessGroupType,
+  ObjectAccessRequester,
   ObjectAclRule,
 } from "./objectAcl";
 
 export {
+  ObjectAccessGroupType,
+  ObjectPermission,
   canAccessObject,
   getObjectAclPolicy,
   setObjectAclPolicy,
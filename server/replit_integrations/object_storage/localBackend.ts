@@ -0,0 +1,222 @@
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from "crypto";
+import { createReadStream, createWriteStream, promises as fs } from "fs";
+import path from "path";
+import { Readable, Transform } from "stream";
+import { pipeline } from "stream/promises";
+import type { Express, Request, Response } from "express";
+import type { ObjectStorageBackend, StoredObject, StoredObjectMetadata } from "./backend";
+
+export const LOCAL_UPLOAD_ROUTE = "/api/uploads/local";
+const MAX_UPLOAD_BYTES = 25 * 1024 * 1024;
+
+// Upload URLs only live for minutes, so a per-process key is enough; restarting
+// the server simply invalidates any that are outstanding.
+const uploadSigningKey = randomBytes(32);
+
+// Each path segment must start with a letter or digit, which rules out "." and "..".
+const SAFE_RELATIVE_PATH = /^[A-Za-z0-9][A-Za-z0-9._-]*(\/[A-Za-z0-9][A-Za-z0-9._-]*)*$/;
+
+type SidecarMetadata = {
+  contentType?: string;
+  custom: Record<string, string>;
+};
+
+class UploadTooLargeError extends Error {
+  constructor() {
+    super(`Uploads are limited to ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB`);
+    this.name = "UploadTooLargeError";
+  }
+}
+
+function signUpload(entityId: string, expires: number): string {
+  return createHmac("sha256", uploadSigningKey).update(`${entityId}:${expires}`).digest("base64url");
+}
+
+function resolveWithin(baseDir: string, relativePath: string): string | null {
+  if (!SAFE_RELATIVE_PATH.test(relativePath)) return null;
+  return path.join(baseDir, ...relativePath.split("/"));
+}
+
+async function writeFileAtomically(filePath: string, contents: string): Promise<void> {
+  const tmpPath = `${filePath}.${randomUUID()}.tmp`;
+  await fs.writeFile(tmpPath, contents);
+  await fs.rename(tmpPath, filePath);
+}
+
+class LocalStoredObject implements StoredObject {
+  // filePath and metaPath are null for names that could escape the storage root; such objects never exist.
+  constructor(
+    public readonly name: string,
+    private readonly filePath: string | null,
+    private readonly metaPath: string | null,
+  ) {}
+
+  async exists(): Promise<boolean> {
+    if (!this.filePath) return false;
+    try {
+      return (await fs.stat(this.filePath)).isFile();
+    } catch {
+      return false;
+    }
+  }
+
+  // True once a file or an ACL policy is in place; upload URLs may not replace either.
+  async isClaimed(): Promise<boolean> {
+    if (await this.exists()) return true;
+    return Object.keys((await this.readSidecar()).custom).length > 0;
+  }
+
+  private async readSidecar(): Promise<SidecarMetadata> {
+    if (!this.metaPath) return { custom: {} };
+    try {
+      const parsed = JSON.parse(await fs.readFile(this.metaPath, "utf8"));
+      return { contentType: parsed.contentType, custom: parsed.custom ?? {} };
+    } catch (error: any) {
+      if (error.code === "ENOENT") return { custom: {} };
+      throw error;
+    }
+  }
+
+  async writeSidecar(sidecar: SidecarMetadata): Promise<void> {
+    if (!this.metaPath) throw new Error(`Object not found: ${this.name}`);
+    await fs.mkdir(path.dirname(this.metaPath), { recursive: true });
+    await writeFileAtomically(this.metaPath, JSON.stringify(sidecar));
+  }
+
+  async getMetadata(): Promise<StoredObjectMetadata> {
+    if (!this.filePath) throw new Error(`Object not found: ${this.name}`);
+    const [stat, sidecar] = await Promise.all([fs.stat(this.filePath), this.readSidecar()]);
+    return {
+      contentType: sidecar.contentType,
+      size: stat.size,
+      etag: `"${stat.size.toString(16)}-${Math.floor(stat.mtimeMs).toString(16)}"`,
+      updated: stat.mtime,
+      custom: sidecar.custom,
+    };
+  }
+
+  async setCustomMetadata(custom: Record<string, string>): Promise<void> {
+    if (!(await this.exists())) throw new Error(`Object not found: ${this.name}`);
+    const sidecar = await this.readSidecar();
+    await this.writeSidecar({ ...sidecar, custom: { ...sidecar.custom, ...custom } });
+  }
+
+  createReadStream(): Readable {
+    if (!this.filePath) throw new Error(`Object not found: ${this.name}`);
+    return createReadStream(this.filePath);
+  }
+
+  async save(data: Buffer, contentType: string): Promise<void> {
+    if (!this.filePath) throw new Error(`Object not found: ${this.name}`);
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.${randomUUID()}.tmp`;
+    await fs.writeFile(tmpPath, data);
+    await fs.rename(tmpPath, this.filePath);
+    await this.writeSidecar({ contentType, custom: {} });
+  }
+
+  async delete(): Promise<void> {
+    if (!this.filePath) return;
+    await fs.rm(this.filePath, { force: true });
+    if (this.metaPath) await fs.rm(this.metaPath, { force: true });
+  }
+}
+
+/**
+ * Objects on local disk, for self-hosting and development. Layout under
+ * `LOCAL_OBJECT_DIR` (default `.data/objects`):
+ * - `private/<entity id>` - uploaded files
+ * - `meta/<entity id>.json` - their content type and custom metadata (ACL policy)
+ * - `public/<path>` - files served by searchPublicObject
+ *
+ * Upload URLs point back at this server (`PUT /api/uploads/local`) and are
+ * HMAC-signed with an expiry, mirroring presigned cloud storage URLs.
+ */
+export class LocalObjectStorageBackend implements ObjectStorageBackend {
+  private readonly rootDir = path.resolve(process.env.LOCAL_OBJECT_DIR || ".data/objects");
+
+  private entityObject(entityId: string): LocalStoredObject {
+    const filePath = resolveWithin(path.join(this.rootDir, "private"), entityId);
+    const metaPath = filePath && resolveWithin(path.join(this.rootDir, "meta"), `${entityId}.json`);
+    return new LocalStoredObject(entityId, filePath, metaPath);
+  }
+
+  async getUploadURL(entityId: string, ttlSec: number): Promise<string> {
+    const expires = Math.floor(Date.now() / 1000) + ttlSec;
+    const params = new URLSearchParams({ entity: entityId, expires: String(expires), signature: signUpload(entityId, expires) });
+    return `${LOCAL_UPLOAD_ROUTE}?${params}`;
+  }
+
+  entityIdFromUploadURL(url: string): string | null {
+    if (!url.startsWith(`${LOCAL_UPLOAD_ROUTE}?`)) return null;
+    return new URLSearchParams(url.slice(LOCAL_UPLOAD_ROUTE.length + 1)).get("entity");
+  }
+
+  getEntity(entityId: string): StoredObject {
+    return this.entityObject(entityId);
+  }
+
+  async searchPublicObject(filePath: string): Promise<StoredObject | null> {
+    const fullPath = resolveWithin(path.join(this.rootDir, "public"), filePath);
+    const object = new LocalStoredObject(filePath, fullPath, null);
+    return (await object.exists()) ? object : null;
+  }
+
+  registerRoutes(app: Express): void {
+    app.put(LOCAL_UPLOAD_ROUTE, (req, res) => this.handleUpload(req, res));
+  }
+
+  private async handleUpload(req: Request, res: Response) {
+    const { entity, expires, signature } = req.query;
+    if (typeof entity !== "string" || typeof expires !== "string" || typeof signature !== "string") {
+      return res.status(400).json({ error: "Malformed upload URL" });
+    }
+    const expected = Buffer.from(signUpload(entity, parseInt(expires)));
+    const actual = Buffer.from(signature);
+    const valid = expected.length === actual.length && timingSafeEqual(expected, actual);
+    if (!valid || parseInt(expires) * 1000 < Date.now()) {
+      return res.status(403).json({ error: "Upload URL is invalid or has expired" });
+    }
+
+    const filePath = resolveWithin(path.join(this.rootDir, "private"), entity);
+    if (!filePath) return res.status(400).json({ error: "Malformed upload URL" });
+    const object = this.entityObject(entity);
+    // Upload URLs are single-use: a re-PUT would swap the content of an object
+    // that is already attached and reset the ACL policy stamped on it.
+    if (await object.isClaimed()) {
+      return res.status(409).json({ error: "Upload URL has already been used" });
+    }
+
+    // express.json() will already have consumed a JSON file's body.
+    const source = Buffer.isBuffer(req.rawBody) ? Readable.from(req.rawBody) : req;
+    let received = 0;
+    const limit = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        received += chunk.length;
+        callback(received > MAX_UPLOAD_BYTES ? new UploadTooLargeError() : null, chunk);
+      },
+    });
+
+    const tmpPath = `${filePath}.${randomUUID()}.tmp`;
+    try {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await pipeline(source, limit, createWriteStream(tmpPath));
+      // link() fails if the file appeared meanwhile, so concurrent PUTs can't both win.
+      await fs.link(tmpPath, filePath);
+      await fs.rm(tmpPath, { force: true });
+      await object.writeSidecar({ contentType: req.headers["content-type"], custom: {} });
+      // Uppy's S3 uploader waits for an ETag before it treats the PUT as done.
+      const { etag } = await object.getMetadata();
+      if (etag) res.setHeader("ETag", etag);
+      res.status(200).end();
+    } catch (error) {
+      await fs.rm(tmpPath, { force: true });
+      if (error instanceof UploadTooLargeError) return res.status(413).json({ error: error.message });
+      if ((error as NodeJS.ErrnoException).code === "EEXIST") {
+        return res.status(409).json({ error: "Upload URL has already been used" });
+      }
+      console.error("Error storing upload:", error);
+      if (!res.headersSent) res.status(500).json({ error: "Failed to store upload" });
+    }
+  }
+}
@@ -1,18 +1,18 @@
-import { File } from "@google-cloud/storage";
+import type { StoredObject } from "./backend";
+import { storage } from "../../storage";
+import { resolveShareToken } from "../../shares";
 
 const ACL_POLICY_METADATA_KEY = "custom:aclPolicy";
 
 // The type of the access group.
 //
-// Can be flexibly defined according to the use case.
-//
-// Examples:
-// - USER_LIST: the users from a list stored in the database;
-// - EMAIL_DOMAIN: the users whose email is in a specific domain;
-// - GROUP_MEMBER: the users who are members of a specific group;
-// - SUBSCRIBER: the users who are subscribers of a specific service / content
-//   creator.
-export enum ObjectAccessGroupType {}
+// - HOUSEHOLD_MEMBER: the members of a household; the id is the household id.
+// - SHARE_LINK: anyone holding a live sitter share link that includes a pet;
+//   the id is the pet id.
+export enum ObjectAccessGroupType {
+  HOUSEHOLD_MEMBER = "household_member",
+  SHARE_LINK = "share_link",
+}
 
 // The logic user group that can access the object.
 export interface ObjectAccessGroup {
@@ -20,18 +20,7 @@ export interface ObjectAccessGroup {
   type: ObjectAccessGroupType;
   // The logic id that is enough to identify the qualified group members.
   //
-  // It may have different format for different types. For example:
-  // - for USER_LIST, the id could be the user list db entity id, and the
-  //   user list db entity could contain a bunch of user ids. User needs
-  //   to be a member of the user list to be able to access the object.
-  // - for EMAIL_DOMAIN, the id could be the email domain, and the user needs
-  //   to have an email with the domain to be able to access the object.
-  // - for GROUP_MEMBER, the id could be the group db entity id, and the
-  //   group db entity could contain a bunch of user ids. User needs to be
-  //   a member of the group to be able to access the object.
-  // - for SUBSCRIBER, the id could be the subscriber db entity id, and the
-  //   subscriber db entity could contain a bunch of user ids. User needs to
-  //   be a subscriber to be able to access the object.
+  // Its format depends on the type; see ObjectAccessGroupType.
   id: string;
 }
 
@@ -55,6 +44,13 @@ export interface ObjectAclPolicy {
   aclRules?: Array<ObjectAclRule>;
 }
 
+// Who is asking for an object: a signed-in user, someone holding a share
+// link, or both (a signed-in member opening a share link).
+export interface ObjectAccessRequester {
+  userId?: string;
+  shareToken?: string;
+}
+
 // Check if the requested permission is allowed based on the granted permission.
 function isPermissionAllowed(
   requested: ObjectPermission,
@@ -78,25 +74,41 @@ abstract class BaseObjectAccessGroup implements ObjectAccessGroup {
     public readonly id: string,
   ) {}
 
-  // Check if the user is a member of the group.
-  public abstract hasMember(userId: string): Promise<boolean>;
+  // Check if the requester is a member of the group.
+  public abstract hasMember(requester: ObjectAccessRequester): Promise<boolean>;
+}
+
+class HouseholdMemberAccessGroup extends BaseObjectAccessGroup {
+  constructor(id: string) {
+    super(ObjectAccessGroupType.HOUSEHOLD_MEMBER, id);
+  }
+
+  public async hasMember({ userId }: ObjectAccessRequester): Promise<boolean> {
+    if (!userId) return false;
+    return !!(await storage.getHouseholdMember(Number(this.id), Number(userId)));
+  }
+}
+
+class ShareLinkAccessGroup extends BaseObjectAccessGroup {
+  constructor(id: string) {
+    super(ObjectAccessGroupType.SHARE_LINK, id);
+  }
+
+  public async hasMember({ shareToken }: ObjectAccessRequester): Promise<boolean> {
+    if (!shareToken) return false;
+    const share = await resolveShareToken(shareToken);
+    return !!share && share.petIds.includes(Number(this.id));
+  }
 }
 
 function createObjectAccessGroup(
   group: ObjectAccessGroup,
 ): BaseObjectAccessGroup {
   switch (group.type) {
-    // Implement the case for each type of access group to instantiate.
-    //
-    // For example:
-    // case "USER_LIST":
-    //   return new UserListAccessGroup(group.id);
-    // case "EMAIL_DOMAIN":
-    //   return new EmailDomainAccessGroup(group.id);
-    // case "GROUP_MEMBER":
-    //   return new GroupMemberAccessGroup(group.id);
-    // case "SUBSCRIBER":
-    //   return new SubscriberAccessGroup(group.id);
+    case ObjectAccessGroupType.HOUSEHOLD_MEMBER:
+      return new HouseholdMemberAccessGroup(group.id);
+    case ObjectAccessGroupType.SHARE_LINK:
+      return new ShareLinkAccessGroup(group.id);
     default:
       throw new Error(`Unknown access group type: ${group.type}`);
   }
@@ -104,41 +116,38 @@ function createObjectAccessGroup(
 
 // Sets the ACL policy to the object metadata.
 export async function setObjectAclPolicy(
-  objectFile: File,
+  objectFile: StoredObject,
   aclPolicy: ObjectAclPolicy,
 ): Promise<void> {
-  const [exists] = await objectFile.exists();
-  if (!exists) {
+  if (!(await objectFile.exists())) {
     throw new Error(`Object not found: ${objectFile.name}`);
   }
 
-  await objectFile.setMetadata({
-    metadata: {
-      [ACL_POLICY_METADATA_KEY]: JSON.stringify(aclPolicy),
-    },
+  await objectFile.setCustomMetadata({
+    [ACL_POLICY_METADATA_KEY]: JSON.stringify(aclPolicy),
   });
 }
 
 // Gets the ACL policy from the object metadata.
 export async function getObjectAclPolicy(
-  objectFile: File,
+  objectFile: StoredObject,
 ): Promise<ObjectAclPolicy | null> {
-  const [metadata] = await objectFile.getMetadata();
-  const aclPolicy = metadata?.metadata?.[ACL_POLICY_METADATA_KEY];
+  const metadata = await objectFile.getMetadata();
+  const aclPolicy = metadata.custom[ACL_POLICY_METADATA_KEY];
   if (!aclPolicy) {
     return null;
   }
-  return JSON.parse(aclPolicy as string);
+  return JSON.parse(aclPolicy);
 }
 
-// Checks if the user can access the object.
+// Checks if the requester can access the object.
 export async function canAccessObject({
   userId,
+  shareToken,
   objectFile,
   requestedPermission,
-}: {
-  userId?: string;
-  objectFile: File;
+}: ObjectAccessRequester & {
+  objectFile: StoredObject;
   requestedPermission: ObjectPermission;
 }): Promise<boolean> {
   // When this function is called, the acl policy is required.
@@ -155,21 +164,21 @@ export async function canAccessObject({
     return true;
   }
 
-  // Access control requires the user id.
-  if (!userId) {
+  // Access control requires someone to identify.
+  if (!userId && !shareToken) {
     return false;
   }
 
   // The owner of the object can always access it.
-  if (aclPolicy.owner === userId) {
+  if (userId && aclPolicy.owner === userId) {
     return true;
   }
 
-  // Go through the ACL rules to check if the user has the required permission.
+  // Go through the ACL rules to check if the requester has the required permission.
   for (const rule of aclPolicy.aclRules || []) {
     const accessGroup = createObjectAccessGroup(rule.group);
     if (
-      (await accessGroup.hasMember(userId)) &&
+      (await accessGroup.hasMember({ userId, shareToken })) &&
       isPermissionAllowed(requestedPermission, rule.permission)
     ) {
       return true;
@@ -1,34 +1,30 @@
-import { Storage, File } from "@google-cloud/storage";
-import { Response } from "express";
+import type { Express, Response } from "express";
 import { randomUUID } from "crypto";
+import { imageContentTypes } from "@shared/schema";
 import {
+  ObjectAccessRequester,
   ObjectAclPolicy,
   ObjectPermission,
   canAccessObject,
   getObjectAclPolicy,
   setObjectAclPolicy,
 } from "./objectAcl";
+import { configuredBackendKind } from "./backend";
+import type { ObjectStorageBackend, StoredObject } from "./backend";
+import { GcsObjectStorageBackend } from "./gcsBackend";
+import { LocalObjectStorageBackend } from "./localBackend";
 
-const REPLIT_SIDECAR_ENDPOINT = "http://127.0.0.1:1106";
+const UPLOAD_URL_TTL_SEC = 900;
 
-// The object storage client is used to interact with the object storage service.
-export const objectStorageClient = new Storage({
-  credentials: {
-    audience: "replit",
-    subject_token_type: "access_token",
-    token_url: `${REPLIT_SIDECAR_ENDPOINT}/token`,
-    type: "external_account",
-    credential_source: {
-      url: `${REPLIT_SIDECAR_ENDPOINT}/credential`,
-      format: {
-        type: "json",
-        subject_token_field_name: "access_token",
-      },
-    },
-    universe_domain: "googleapis.com",
-  },
-  projectId: "",
-});
+let sharedBackend: ObjectStorageBackend | undefined;
+
+// The backend chosen by configuration, created once and shared by every service instance.
+export function getObjectStorageBackend(): ObjectStorageBackend {
+  if (!sharedBackend) {
+    sharedBackend = configuredBackendKind() === "local" ? new LocalObjectStorageBackend() : new GcsObjectStorageBackend();
+  }
+  return sharedBackend;
+}
 
 export class ObjectNotFoundError extends Error {
   constructor() {
@@ -40,76 +36,43 @@ export class ObjectNotFoundError extends Error {
 
 // The object storage service is used to interact with the object storage service.
 export class ObjectStorageService {
-  constructor() {}
-
-  // Gets the public object search paths.
-  getPublicObjectSearchPaths(): Array<string> {
-    const pathsStr = process.env.PUBLIC_OBJECT_SEARCH_PATHS || "";
-    const paths = Array.from(
-      new Set(
-        pathsStr
-          .split(",")
-          .map((path) => path.trim())
-          .filter((path) => path.length > 0)
-      )
-    );
-    if (paths.length === 0) {
-      throw new Error(
-        "PUBLIC_OBJECT_SEARCH_PATHS not set. Create a bucket in 'Object Storage' " +
-          "tool and set PUBLIC_OBJECT_SEARCH_PATHS env var (comma-separated paths)."
-      );
-    }
-    return paths;
-  }
-
-  // Gets the private object directory.
-  getPrivateObjectDir(): string {
-    const dir = process.env.PRIVATE_OBJECT_DIR || "";
-    if (!dir) {
-      throw new Error(
-        "PRIVATE_OBJECT_DIR not set. Create a bucket in 'Object Storage' " +
-          "tool and set PRIVATE_OBJECT_DIR env var."
-      );
-    }
-    return dir;
-  }
+  constructor(private readonly backend: ObjectStorageBackend = getObjectStorageBackend()) {}
 
   // Search for a public object from the search paths.
-  async searchPublicObject(filePath: string): Promise<File | null> {
-    for (const searchPath of this.getPublicObjectSearchPaths()) {
-      const fullPath = `${searchPath}/${filePath}`;
-
-      // Full path format: /<bucket_name>/<object_name>
-      const { bucketName, objectName } = parseObjectPath(fullPath);
-      const bucket = objectStorageClient.bucket(bucketName);
-      const file = bucket.file(objectName);
-
-      // Check if file exists
-      const [exists] = await file.exists();
-      if (exists) {
-        return file;
-      }
-    }
-
-    return null;
+  async searchPublicObject(filePath: string): Promise<StoredObject | null> {
+    return this.backend.searchPublicObject(filePath);
   }
 
   // Downloads an object to the response.
-  async downloadObject(file: File, res: Response, cacheTtlSec: number = 3600) {
+  async downloadObject(file: StoredObject, res: Response, cacheTtlSec: number = 3600) {
     try {
       // Get file metadata
-      const [metadata] = await file.getMetadata();
+      const metadata = await file.getMetadata();
       // Get the ACL policy for the object.
       const aclPolicy = await getObjectAclPolicy(file);
       const isPublic = aclPolicy?.visibility === "public";
+      const contentType = metadata.contentType || "application/octet-stream";
+      // The content type comes from the uploader, so only images render inline;
+      // anything else (HTML included) is downloaded instead of run on our origin.
+      const isImage = imageContentTypes.includes(contentType.split(";")[0].trim().toLowerCase());
       // Set appropriate headers
       res.set({
-        "Content-Type": metadata.contentType || "application/octet-stream",
-        "Content-Length": metadata.size,
+        "Content-Type": contentType,
         "Cache-Control": `${
           isPublic ? "public" : "private"
         }, max-age=${cacheTtlSec}`,
+        "X-Content-Type-Options": "nosniff",
       });
+      if (!isImage) res.set("Content-Disposition", "attachment");
+      if (metadata.etag) res.set("ETag", metadata.etag);
+      if (metadata.updated) res.set("Last-Modified", metadata.updated.toUTCString());
+
+      // Let the browser reuse its cached copy when nothing has changed.
+      if (res.req.fresh) {
+        res.status(304).end();
+        return;
+      }
+      if (metadata.size !== undefined) res.set("Content-Length", String(metadata.size));
 
       // Stream the file to the response
       const stream = file.createReadStream();
@@ -132,30 +95,11 @@ export class ObjectStorageService {
 
   // Gets the upload URL for an object entity.
   async getObjectEntityUploadURL(): Promise<string> {
-    const privateObjectDir = this.getPrivateObjectDir();
-    if (!privateObjectDir) {
-      throw new Error(
-        "PRIVATE_OBJECT_DIR not set. Create a bucket in 'Object Storage' " +
-          "tool and set PRIVATE_OBJECT_DIR env var."
-      );
-    }
-
-    const objectId = randomUUID();
-    const fullPath = `${privateObjectDir}/uploads/${objectId}`;
-
-    const { bucketName, objectName } = parseObjectPath(fullPath);
-
-    // Sign URL for PUT method with TTL
-    return signObjectURL({
-      bucketName,
-      objectName,
-      method: "PUT",
-      ttlSec: 900,
-    });
+    return this.backend.getUploadURL(`uploads/${randomUUID()}`, UPLOAD_URL_TTL_SEC);
   }
 
   // Gets the object entity file from the object path.
-  async getObjectEntityFile(objectPath: string): Promise<File> {
+  async getObjectEntityFile(objectPath: string): Promise<StoredObject> {
     if (!objectPath.startsWith("/objects/")) {
       throw new ObjectNotFoundError();
     }
@@ -166,46 +110,37 @@ export class ObjectStorageService {
     }
 
     const entityId = parts.slice(1).join("/");
-    let entityDir = this.getPrivateObjectDir();
-    if (!entityDir.endsWith("/")) {
-      entityDir = `${entityDir}/`;
-    }
-    const objectEntityPath = `${entityDir}${entityId}`;
-    const { bucketName, objectName } = parseObjectPath(objectEntityPath);
-    const bucket = objectStorageClient.bucket(bucketName);
-    const objectFile = bucket.file(objectName);
-    const [exists] = await objectFile.exists();
-    if (!exists) {
+    const objectFile = this.backend.getEntity(entityId);
+    if (!(await objectFile.exists())) {
       throw new ObjectNotFoundError();
     }
     return objectFile;
   }
 
-  normalizeObjectEntityPath(
-    rawPath: string,
-  ): string {
-    if (!rawPath.startsWith("https://storage.googleapis.com/")) {
-      return rawPath;
-    }
-  
-    // Extract the path from the URL by removing query parameters and domain
-    const url = new URL(rawPath);
-    const rawObjectPath = url.pathname;
-  
-    let objectEntityDir = this.getPrivateObjectDir();
-    if (!objectEntityDir.endsWith("/")) {
-      objectEntityDir = `${objectEntityDir}/`;
-    }
-  
-    if (!rawObjectPath.startsWith(objectEntityDir)) {
-      return rawObjectPath;
-    }
-  
-    // Extract the entity ID from the path
-    const entityId = rawObjectPath.slice(objectEntityDir.length);
+  // Stores a file the server generated (e.g. a resized image) and returns its `/objects/...` path.
+  async createObjectEntity(data: Buffer, contentType: string, prefix: string = "uploads"): Promise<string> {
+    const entityId = `${prefix}/${randomUUID()}`;
+    await this.backend.getEntity(entityId).save(data, contentType);
     return `/objects/${entityId}`;
   }
 
+  // Deletes the object entity; a path that no longer exists is ignored.
+  async deleteObjectEntity(objectPath: string): Promise<void> {
+    try {
+      const objectFile = await this.getObjectEntityFile(objectPath);
+      await objectFile.delete();
+    } catch (error) {
+      if (error instanceof ObjectNotFoundError) return;
+      throw error;
+    }
+  }
+
+  // Maps an upload URL to the `/objects/...` path the app refers to it by; other paths pass through.
+  normalizeObjectEntityPath(rawPath: string): string {
+    const entityId = this.backend.entityIdFromUploadURL(rawPath);
+    return entityId ? `/objects/${entityId}` : rawPath;
+  }
+
   // Tries to set the ACL policy for the object entity and return the normalized path.
   async trySetObjectEntityAclPolicy(
     rawPath: string,
@@ -221,80 +156,26 @@ export class ObjectStorageService {
     return normalizedPath;
   }
 
-  // Checks if the user can access the object entity.
+  // Checks if the requester can access the object entity.
   async canAccessObjectEntity({
     userId,
+    shareToken,
     objectFile,
     requestedPermission,
-  }: {
-    userId?: string;
-    objectFile: File;
+  }: ObjectAccessRequester & {
+    objectFile: StoredObject;
     requestedPermission?: ObjectPermission;
   }): Promise<boolean> {
     return canAccessObject({
       userId,
+      shareToken,
       objectFile,
       requestedPermission: requestedPermission ?? ObjectPermission.READ,
     });
   }
-}
-
-function parseObjectPath(path: string): {
-  bucketName: string;
-  objectName: string;
-} {
-  if (!path.startsWith("/")) {
-    path = `/${path}`;
-  }
-  const pathParts = path.split("/");
-  if (pathParts.length < 3) {
-    throw new Error("Invalid path: must contain at least a bucket name");
-  }
-
-  const bucketName = pathParts[1];
-  const objectName = pathParts.slice(2).join("/");
 
-  return {
-    bucketName,
-    objectName,
-  };
-}
-
-async function signObjectURL({
-  bucketName,
-  objectName,
-  method,
-  ttlSec,
-}: {
-  bucketName: string;
-  objectName: string;
-  method: "GET" | "PUT" | "DELETE" | "HEAD";
-  ttlSec: number;
-}): Promise<string> {
-  const request = {
-    bucket_name: bucketName,
-    object_name: objectName,
-    method,
-    expires_at: new Date(Date.now() + ttlSec * 1000).toISOString(),
-  };
-  const response = await fetch(
-    `${REPLIT_SIDECAR_ENDPOINT}/object-storage/signed-object-url`,
-    {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(request),
-    }
-  );
-  if (!response.ok) {
-    throw new Error(
-      `Failed to sign object URL, errorcode: ${response.status}, ` +
-        `make sure you're running on Replit`
-    );
+  // Routes the configured backend serves itself (the local backend's upload endpoint).
+  registerBackendRoutes(app: Express): void {
+    this.backend.registerRoutes?.(app);
   }
-
-  const { signed_url: signedURL } = await response.json();
-  return signedURL;
 }
-
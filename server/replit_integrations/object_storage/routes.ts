@@ -1,5 +1,8 @@
 import type { Express } from "express";
+import { ZodError } from "zod";
+import { uploadRequestSchema } from "@shared/schema";
 import { ObjectStorageService, ObjectNotFoundError } from "./objectStorage";
+import { canReadObject, rememberPendingUpload } from "../../object-access";
 
 /**
  * Register object storage routes for file uploads.
@@ -8,13 +11,13 @@ import { ObjectStorageService, ObjectNotFoundError } from "./objectStorage";
  * 1. POST /api/uploads/request-url - Get a presigned URL for uploading
  * 2. The client then uploads directly to the presigned URL
  *
- * IMPORTANT: These are example routes. Customize based on your use case:
- * - Add authentication middleware for protected uploads
- * - Add file metadata storage (save to database after upload)
- * - Add ACL policies for access control
+ * Uploads start out readable only by the session that requested them; routes
+ * that attach an upload to a record stamp it with an ACL policy (see
+ * server/object-access.ts), which GET /objects then enforces.
  */
 export function registerObjectStorageRoutes(app: Express): void {
   const objectStorageService = new ObjectStorageService();
+  objectStorageService.registerBackendRoutes(app);
 
   /**
    * Request a presigned URL for file upload.
@@ -23,12 +26,17 @@ export function registerObjectStorageRoutes(app: Express): void {
    * {
    *   "name": "filename.jpg",
    *   "size": 12345,
-   *   "contentType": "image/jpeg"
+   *   "contentType": "image/jpeg",
+   *   "kind": "image" | "document" (default "image")
    * }
    *
+   * The content type and size are checked against the kind's limits
+   * (`uploadLimits` in shared/schema.ts). They're only what the client claims,
+   * so routes that attach the upload check the stored object again.
+   *
    * Response:
    * {
-   *   "uploadURL": "https://storage.googleapis.com/...",
+   *   "uploadURL": "https://storage.googleapis.com/..." (or "/api/uploads/local?..." with the local backend),
    *   "objectPath": "/objects/uploads/uuid"
    * }
    *
@@ -37,18 +45,13 @@ export function registerObjectStorageRoutes(app: Express): void {
    */
   app.post("/api/uploads/request-url", async (req, res) => {
     try {
-      const { name, size, contentType } = req.body;
-
-      if (!name) {
-        return res.status(400).json({
-          error: "Missing required field: name",
-        });
-      }
+      const { name, size, contentType } = uploadRequestSchema.parse(req.body);
 
       const uploadURL = await objectStorageService.getObjectEntityUploadURL();
 
       // Extract object path from the presigned URL for later reference
       const objectPath = objectStorageService.normalizeObjectEntityPath(uploadURL);
+      rememberPendingUpload(req, objectPath);
 
       res.json({
         uploadURL,
@@ -57,6 +60,7 @@ export function registerObjectStorageRoutes(app: Express): void {
         metadata: { name, size, contentType },
       });
     } catch (error) {
+      if (error instanceof ZodError) return res.status(400).json({ error: error.errors });
       console.error("Error generating upload URL:", error);
       res.status(500).json({ error: "Failed to generate upload URL" });
     }
@@ -67,13 +71,20 @@ export function registerObjectStorageRoutes(app: Express): void {
    *
    * GET /objects/:objectPath(*)
    *
-   * This serves files from object storage. For public files, no auth needed.
-   * For protected files, add authentication middleware and ACL checks.
+   * Requires READ permission under the object's ACL policy. Sitters without an
+   * account pass their share token as `?share=<token>`.
    */
   app.use("/objects", async (req, res, next) => {
     if (req.method !== "GET") return next();
     try {
-      const objectFile = await objectStorageService.getObjectEntityFile(req.originalUrl);
+      // Without the query string, which may carry a share token.
+      const objectPath = req.baseUrl + req.path;
+      const objectFile = await objectStorageService.getObjectEntityFile(objectPath);
+      if (!(await canReadObject(req, objectPath, objectFile))) {
+        // Same answer as a missing object when nobody is signed in, so paths can't be probed.
+        if (!req.user) return res.status(404).json({ error: "Object not found" });
+        return res.status(403).json({ error: "You don't have access to this file" });
+      }
       await objectStorageService.downloadObject(objectFile, res);
     } catch (error) {
       if (error instanceof ObjectNotFoundError) {
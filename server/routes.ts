@@ -1,34 +1,181 @@
-import type { Express } from "express";
+import type { Express, Request } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
+import { setupAuth } from "./auth";
+import { householdId, requireRole } from "./households";
+import { getReminders, reminderQuerySchema } from "./reminders";
+import { buildCalendarFeed } from "./calendar";
+import { previewCalendarImport } from "./calendar-import";
+import { buildPetTimeline, timelineQuerySchema } from "./timeline";
+import { buildHealthReport, healthReportQuerySchema } from "./health-report";
+import { buildVaccinationCertificate } from "./vaccination-certificate";
+import { buildSharedView, toShareLink } from "./shares";
+import { buildDataExport, exportQuerySchema, writeDataExportZip } from "./export";
+import { applyDataImport, previewDataImport } from "./data-import";
+import { importCsv } from "./csv-import";
+import {
+  deleteUnreferencedObjects,
+  grantHouseholdObjectAccess,
+  grantPetObjectAccess,
+  prepareObjectAttachment,
+  removeOrphanedAttachments,
+} from "./object-access";
+import { addPetPhoto, deletePhotoObjects, stripImageMetadata } from "./photos";
+import { eventRangeSchema, eventScopeSchema, expandEventOccurrences } from "./recurrence";
 import { registerObjectStorageRoutes } from "./replit_integrations/object_storage";
-import { insertPetSchema, insertWeightEntrySchema, insertEventSchema, insertVaccinationSchema, insertMedicationSchema } from "@shared/schema";
+import { insertHouseholdSchema, createInvitationSchema, acceptInvitationSchema, updateMemberSchema, switchHouseholdSchema, insertCalendarFeedSchema, createPetShareSchema, insertPetSchema, insertWeightEntrySchema, updateWeightEntrySchema, insertEventSchema, eventPetIdsSchema, calendarImportPreviewSchema, calendarImportSchema, eventStatusUpdateSchema, insertVaccinationSchema, insertMedicationSchema, insertReminderAcknowledgementSchema, createAttachmentSchema, createPetPhotoSchema, updatePetPhotoSchema, dataImportSchema, csvImportKinds, csvImportSchema } from "@shared/schema";
+import type { CsvImportKind, InsertPet, Pet } from "@shared/schema";
 import { ZodError } from "zod";
 
+// Swaps an uploaded avatar for its `/objects` path once the caller is known to be allowed to attach it.
+async function withCheckedAvatar<T>(req: Request, data: T): Promise<T> {
+  const avatarUrl = (data as Partial<Pet>).avatarUrl;
+  if (!avatarUrl) return data;
+  const objectPath = await prepareObjectAttachment(req, avatarUrl, "image");
+  await stripImageMetadata(objectPath);
+  return { ...data, avatarUrl: objectPath };
+}
+
 export async function registerRoutes(
   httpServer: Server,
   app: Express
 ): Promise<Server> {
+  setupAuth(app);
   registerObjectStorageRoutes(app);
 
+  // --- Household ---
+  app.get("/api/household", async (req, res) => {
+    const household = await storage.getHousehold(householdId(req));
+    if (!household) return res.status(404).json({ error: "Household not found" });
+    res.json({ ...household, role: req.household!.role });
+  });
+
+  app.patch("/api/household", requireRole("owner"), async (req, res) => {
+    try {
+      const validatedData = insertHouseholdSchema.partial().parse(req.body);
+      const household = await storage.updateHousehold(householdId(req), validatedData);
+      if (!household) return res.status(404).json({ error: "Household not found" });
+      res.json({ ...household, role: req.household!.role });
+    } catch (error: any) {
+      if (error instanceof ZodError) return res.status(400).json({ error: error.errors });
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/households", async (req, res) => {
+    const memberships = await storage.getHouseholdsForUser(req.user!.id);
+    res.json(memberships.map((m) => ({ ...m, active: m.id === householdId(req) })));
+  });
+
+  app.post("/api/households/active", async (req, res) => {
+    try {
+      const { householdId: targetId } = switchHouseholdSchema.parse(req.body);
+      const member = await storage.getHouseholdMember(targetId, req.user!.id);
+      if (!member) return res.status(404).json({ error: "Household not found" });
+      req.session.householdId = targetId;
+      res.status(204).send();
+    } catch (error: any) {
+      if (error instanceof ZodError) return res.status(400).json({ error: error.errors });
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/household/members", async (req, res) => {
+    const members = await storage.getHouseholdMembers(householdId(req));
+    res.json(members);
+  });
+
+  app.patch("/api/household/members/:id", requireRole("owner"), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) return res.status(400).json({ error: "Invalid member ID" });
+    try {
+      const { role } = updateMemberSchema.parse(req.body);
+      const member = await storage.updateHouseholdMemberRole(householdId(req), id, role);
+      if (!member) return res.status(404).json({ error: "Member not found" });
+      res.json(member);
+    } catch (error: any) {
+      if (error instanceof ZodError) return res.status(400).json({ error: error.errors });
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/household/members/:id", requireRole("owner"), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) return res.status(400).json({ error: "Invalid member ID" });
+    try {
+      await storage.removeHouseholdMember(householdId(req), id);
+      res.status(204).send();
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/household/leave", async (req, res) => {
+    try {
+      const member = await storage.getHouseholdMember(householdId(req), req.user!.id);
+      if (member) await storage.removeHouseholdMember(householdId(req), member.id);
+      req.session.householdId = undefined;
+      res.status(204).send();
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/household/invitations", requireRole("owner"), async (req, res) => {
+    const invitations = await storage.getHouseholdInvitations(householdId(req));
+    res.json(invitations);
+  });
+
+  app.post("/api/household/invitations", requireRole("owner"), async (req, res) => {
+    try {
+      const { role } = createInvitationSchema.parse(req.body);
+      const invitation = await storage.createHouseholdInvitation(householdId(req), role, req.user!.id);
+      res.status(201).json(invitation);
+    } catch (error: any) {
+      if (error instanceof ZodError) return res.status(400).json({ error: error.errors });
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/household/invitations/:id", requireRole("owner"), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) return res.status(400).json({ error: "Invalid invitation ID" });
+    await storage.deleteHouseholdInvitation(householdId(req), id);
+    res.status(204).send();
+  });
+
+  app.post("/api/invitations/accept", async (req, res) => {
+    try {
+      const { code } = acceptInvitationSchema.parse(req.body);
+      const member = await storage.acceptHouseholdInvitation(code, req.user!.id);
+      // Joining switches straight into the new household.
+      req.session.householdId = member.householdId;
+      res.status(201).json(member);
+    } catch (error: any) {
+      if (error instanceof ZodError) return res.status(400).json({ error: error.errors });
+      res.status(400).json({ error: error.message });
+    }
+  });
+
   // --- Pets ---
-  app.get("/api/pets", async (_req, res) => {
-    const pets = await storage.getPets();
+  app.get("/api/pets", async (req, res) => {
+    const pets = await storage.getPets(householdId(req));
     res.json(pets);
   });
 
   app.get("/api/pets/:id", async (req, res) => {
     const id = parseInt(req.params.id);
     if (isNaN(id)) return res.status(400).json({ error: "Invalid pet ID" });
-    const pet = await storage.getPet(id);
+    const pet = await storage.getPet(householdId(req), id);
     if (!pet) return res.status(404).json({ error: "Pet not found" });
     res.json(pet);
   });
 
   app.post("/api/pets", async (req, res) => {
     try {
-      const validatedData = insertPetSchema.parse(req.body);
-      const pet = await storage.createPet(validatedData);
+      const validatedData = await withCheckedAvatar(req, insertPetSchema.parse(req.body));
+      const pet = await storage.createPet(householdId(req), validatedData);
+      if (pet.avatarUrl) await grantPetObjectAccess(req, pet.avatarUrl, householdId(req), pet.id);
       res.status(201).json(pet);
     } catch (error: any) {
       if (error instanceof ZodError) {
@@ -42,9 +189,12 @@ export async function registerRoutes(
     const id = parseInt(req.params.id);
     if (isNaN(id)) return res.status(400).json({ error: "Invalid pet ID" });
     try {
-      const validatedData = insertPetSchema.partial().parse(req.body);
-      const pet = await storage.updatePet(id, validatedData);
+      const validatedData = await withCheckedAvatar(req, insertPetSchema.partial().parse(req.body));
+      const pet = await storage.updatePet(householdId(req), id, validatedData);
       if (!pet) return res.status(404).json({ error: "Pet not found" });
+      if ((validatedData as Partial<Pet>).avatarUrl && pet.avatarUrl) {
+        await grantPetObjectAccess(req, pet.avatarUrl, householdId(req), pet.id);
+      }
       res.json(pet);
     } catch (error: any) {
       if (error instanceof ZodError) {
@@ -54,30 +204,95 @@ export async function registerRoutes(
     }
   });
 
-  app.delete("/api/pets/:id", async (req, res) => {
+  app.delete("/api/pets/:id", requireRole("owner"), async (req, res) => {
     const id = parseInt(req.params.id);
     if (isNaN(id)) return res.status(400).json({ error: "Invalid pet ID" });
-    await storage.deletePet(id);
+    const pet = await storage.getPet(householdId(req), id);
+    const photos = await storage.getPetPhotos(householdId(req), id);
+    await storage.deletePet(householdId(req), id);
+    await removeOrphanedAttachments(householdId(req));
+    await deletePhotoObjects(photos);
+    if (pet?.avatarUrl) await deleteUnreferencedObjects([pet.avatarUrl]);
+    res.status(204).send();
+  });
+
+  // --- Photos ---
+  app.get("/api/pets/:id/photos", async (req, res) => {
+    const petId = parseInt(req.params.id);
+    if (isNaN(petId)) return res.status(400).json({ error: "Invalid pet ID" });
+    const photos = await storage.getPetPhotos(householdId(req), petId);
+    res.json(photos);
+  });
+
+  app.post("/api/pets/:id/photos", async (req, res) => {
+    const petId = parseInt(req.params.id);
+    if (isNaN(petId)) return res.status(400).json({ error: "Invalid pet ID" });
+    try {
+      const validatedData = createPetPhotoSchema.parse(req.body);
+      const photo = await addPetPhoto(req, householdId(req), petId, validatedData);
+      res.status(201).json(photo);
+    } catch (error: any) {
+      if (error instanceof ZodError) return res.status(400).json({ error: error.errors });
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.patch("/api/photos/:id", async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) return res.status(400).json({ error: "Invalid photo ID" });
+    try {
+      const validatedData = updatePetPhotoSchema.parse(req.body);
+      const photo = await storage.updatePetPhoto(householdId(req), id, validatedData);
+      if (!photo) return res.status(404).json({ error: "Photo not found" });
+      res.json(photo);
+    } catch (error: any) {
+      if (error instanceof ZodError) return res.status(400).json({ error: error.errors });
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/photos/:id", async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) return res.status(400).json({ error: "Invalid photo ID" });
+    const deleted = await storage.deletePetPhoto(householdId(req), id);
+    if (!deleted) return res.status(404).json({ error: "Photo not found" });
+    await deletePhotoObjects([deleted]);
     res.status(204).send();
   });
 
+  // Uses the photo's display-size variant as the pet's avatar, which share links may then read.
+  app.post("/api/photos/:id/avatar", async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) return res.status(400).json({ error: "Invalid photo ID" });
+    const photo = await storage.getPetPhoto(householdId(req), id);
+    if (!photo) return res.status(404).json({ error: "Photo not found" });
+    const previous = await storage.getPet(householdId(req), photo.petId);
+    const pet = await storage.updatePet(householdId(req), photo.petId, { avatarUrl: photo.displayPath } as Partial<InsertPet>);
+    if (!pet) return res.status(404).json({ error: "Pet not found" });
+    await grantPetObjectAccess(req, photo.displayPath, householdId(req), pet.id);
+    if (previous?.avatarUrl && previous.avatarUrl !== photo.displayPath) {
+      await deleteUnreferencedObjects([previous.avatarUrl]);
+    }
+    res.json(pet);
+  });
+
   // --- Weight Entries ---
   app.get("/api/pets/:id/weights", async (req, res) => {
     const petId = parseInt(req.params.id);
     if (isNaN(petId)) return res.status(400).json({ error: "Invalid pet ID" });
-    const entries = await storage.getWeightEntries(petId);
+    const entries = await storage.getWeightEntries(householdId(req), petId);
     res.json(entries);
   });
 
-  app.get("/api/weight-entries", async (_req, res) => {
-    const entries = await storage.getAllWeightEntries();
+  app.get("/api/weight-entries", async (req, res) => {
+    const entries = await storage.getAllWeightEntries(householdId(req));
     res.json(entries);
   });
 
   app.post("/api/weight-entries", async (req, res) => {
     try {
       const validatedData = insertWeightEntrySchema.parse(req.body);
-      const entry = await storage.createWeightEntry(validatedData);
+      const entry = await storage.createWeightEntry(householdId(req), validatedData);
       res.status(201).json(entry);
     } catch (error: any) {
       if (error instanceof ZodError) {
@@ -87,27 +302,138 @@ export async function registerRoutes(
     }
   });
 
+  app.patch("/api/weight-entries/:id", async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) return res.status(400).json({ error: "Invalid weight entry ID" });
+    try {
+      const validatedData = updateWeightEntrySchema.parse(req.body);
+      const entry = await storage.updateWeightEntry(householdId(req), id, validatedData);
+      if (!entry) return res.status(404).json({ error: "Weight entry not found" });
+      res.json(entry);
+    } catch (error: any) {
+      if (error instanceof ZodError) return res.status(400).json({ error: error.errors });
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/weight-entries/:id", async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) return res.status(400).json({ error: "Invalid weight entry ID" });
+    await storage.deleteWeightEntry(householdId(req), id);
+    res.status(204).send();
+  });
+
+  // Spreadsheet import of weight or vaccination history; dry runs only report what would be added.
+  app.post("/api/pets/:id/import/:kind", async (req, res) => {
+    const petId = parseInt(req.params.id);
+    if (isNaN(petId)) return res.status(400).json({ error: "Invalid pet ID" });
+    const kind = req.params.kind as CsvImportKind;
+    if (!csvImportKinds.includes(kind)) return res.status(404).json({ error: "Unknown import type" });
+    try {
+      const input = csvImportSchema.parse(req.body);
+      const result = await importCsv(householdId(req), petId, kind, input);
+      if (!result) return res.status(404).json({ error: "Pet not found" });
+      res.status(input.dryRun ? 200 : 201).json(result);
+    } catch (error: any) {
+      if (error instanceof ZodError) return res.status(400).json({ error: error.errors });
+      res.status(400).json({ error: error.message });
+    }
+  });
+
   // --- Events ---
-  app.get("/api/events", async (_req, res) => {
-    const events = await storage.getEvents();
-    res.json(events);
+  app.get("/api/events", async (req, res) => {
+    try {
+      const range = eventRangeSchema.parse(req.query);
+      const events = await storage.getEvents(householdId(req));
+      res.json(expandEventOccurrences(events, range));
+    } catch (error: any) {
+      if (error instanceof ZodError) return res.status(400).json({ error: error.errors });
+      res.status(400).json({ error: error.message });
+    }
   });
 
   app.get("/api/pets/:id/events", async (req, res) => {
     const petId = parseInt(req.params.id);
     if (isNaN(petId)) return res.status(400).json({ error: "Invalid pet ID" });
-    const events = await storage.getEventsByPet(petId);
-    res.json(events);
+    try {
+      const range = eventRangeSchema.parse(req.query);
+      const events = await storage.getEventsByPet(householdId(req), petId);
+      res.json(expandEventOccurrences(events, range));
+    } catch (error: any) {
+      if (error instanceof ZodError) return res.status(400).json({ error: error.errors });
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/pets/:id/timeline", async (req, res) => {
+    const petId = parseInt(req.params.id);
+    if (isNaN(petId)) return res.status(400).json({ error: "Invalid pet ID" });
+    try {
+      const query = timelineQuerySchema.parse(req.query);
+      const pet = await storage.getPet(householdId(req), petId);
+      if (!pet) return res.status(404).json({ error: "Pet not found" });
+      res.json(await buildPetTimeline(householdId(req), petId, query));
+    } catch (error: any) {
+      if (error instanceof ZodError) return res.status(400).json({ error: error.errors });
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/pets/:id/report.pdf", async (req, res) => {
+    const petId = parseInt(req.params.id);
+    if (isNaN(petId)) return res.status(400).json({ error: "Invalid pet ID" });
+    try {
+      const query = healthReportQuerySchema.parse(req.query);
+      const report = await buildHealthReport(householdId(req), petId, query);
+      if (!report) return res.status(404).json({ error: "Pet not found" });
+      const slug = report.pet.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "pet";
+      res.type("application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${slug}-health-report.pdf"`);
+      res.setHeader("Cache-Control", "no-store");
+      res.send(report.pdf);
+    } catch (error: any) {
+      if (error instanceof ZodError) return res.status(400).json({ error: error.errors });
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/pets/:id/vaccination-certificate.pdf", async (req, res) => {
+    const petId = parseInt(req.params.id);
+    if (isNaN(petId)) return res.status(400).json({ error: "Invalid pet ID" });
+    try {
+      const certificate = await buildVaccinationCertificate(householdId(req), petId, "pdf");
+      if (!certificate) return res.status(404).json({ error: "Pet not found" });
+      const slug = certificate.pet.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "pet";
+      res.type("application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${slug}-vaccination-certificate.pdf"`);
+      res.setHeader("Cache-Control", "no-store");
+      res.send(certificate.body);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Printable version, opened in a new tab and printed from the browser.
+  app.get("/api/pets/:id/vaccination-certificate.html", async (req, res) => {
+    const petId = parseInt(req.params.id);
+    if (isNaN(petId)) return res.status(400).json({ error: "Invalid pet ID" });
+    try {
+      const certificate = await buildVaccinationCertificate(householdId(req), petId, "html");
+      if (!certificate) return res.status(404).json({ error: "Pet not found" });
+      res.type("html");
+      res.setHeader("Cache-Control", "no-store");
+      res.send(certificate.body);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
   });
 
   app.post("/api/events", async (req, res) => {
     try {
-      const { petIds, ...eventData } = req.body;
-      if (!petIds || !Array.isArray(petIds) || petIds.length === 0) {
-        return res.status(400).json({ error: "At least one pet must be selected" });
-      }
+      const { petIds: rawPetIds, ...eventData } = req.body;
+      const { petIds } = eventPetIdsSchema.parse({ petIds: rawPetIds });
       const validatedData = insertEventSchema.parse(eventData);
-      const event = await storage.createEvent(validatedData, petIds);
+      const event = await storage.createEvent(householdId(req), validatedData, petIds);
       res.status(201).json(event);
     } catch (error: any) {
       if (error instanceof ZodError) {
@@ -117,18 +443,198 @@ export async function registerRoutes(
     }
   });
 
+  app.post("/api/events/import/preview", async (req, res) => {
+    try {
+      const { ics } = calendarImportPreviewSchema.parse(req.body);
+      const candidates = await previewCalendarImport(householdId(req), ics);
+      res.json(candidates);
+    } catch (error: any) {
+      if (error instanceof ZodError) return res.status(400).json({ error: error.errors });
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/events/import", async (req, res) => {
+    try {
+      const validatedData = calendarImportSchema.parse(req.body);
+      const created = [];
+      for (const { petIds, ...event } of validatedData.events) {
+        created.push(await storage.createEvent(householdId(req), event, petIds));
+      }
+      res.status(201).json(created);
+    } catch (error: any) {
+      if (error instanceof ZodError) return res.status(400).json({ error: error.errors });
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.patch("/api/events/:id", async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) return res.status(400).json({ error: "Invalid event ID" });
+    try {
+      const { petIds: rawPetIds, scope, occurrenceDate, ...eventData } = req.body;
+      const { petIds } = eventPetIdsSchema.partial().parse({ petIds: rawPetIds });
+      if (eventData.status !== undefined) {
+        return res.status(400).json({ error: "Use POST /api/events/:id/status to change an event's status" });
+      }
+      const target = eventScopeSchema.parse({ scope, occurrenceDate });
+      const validatedData = insertEventSchema.partial().parse(eventData);
+      const event = target.occurrenceDate
+        ? await storage.updateEventOccurrence(householdId(req), id, target.occurrenceDate, target.scope, validatedData, petIds)
+        : await storage.updateEvent(householdId(req), id, validatedData, petIds);
+      if (!event) return res.status(404).json({ error: "Event not found" });
+      res.json(event);
+    } catch (error: any) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/events/:id/status", async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) return res.status(400).json({ error: "Invalid event ID" });
+    try {
+      const validatedData = eventStatusUpdateSchema.parse(req.body);
+      const event = await storage.updateEventStatus(householdId(req), id, validatedData);
+      if (!event) return res.status(404).json({ error: "Event not found" });
+      res.json(event);
+    } catch (error: any) {
+      if (error instanceof ZodError) return res.status(400).json({ error: error.errors });
+      res.status(400).json({ error: error.message });
+    }
+  });
+
   app.delete("/api/events/:id", async (req, res) => {
     const id = parseInt(req.params.id);
     if (isNaN(id)) return res.status(400).json({ error: "Invalid event ID" });
-    await storage.deleteEvent(id);
+    try {
+      const target = eventScopeSchema.parse(req.query);
+      if (target.occurrenceDate) {
+        await storage.deleteEventOccurrence(householdId(req), id, target.occurrenceDate, target.scope);
+      } else {
+        await storage.deleteEvent(householdId(req), id);
+      }
+      await removeOrphanedAttachments(householdId(req));
+      res.status(204).send();
+    } catch (error: any) {
+      if (error instanceof ZodError) return res.status(400).json({ error: error.errors });
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // --- Reminders ---
+  app.get("/api/reminders", async (req, res) => {
+    try {
+      const query = reminderQuerySchema.parse(req.query);
+      const reminders = await getReminders(householdId(req), query);
+      res.json(reminders);
+    } catch (error: any) {
+      if (error instanceof ZodError) return res.status(400).json({ error: error.errors });
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/reminder-acknowledgements", async (req, res) => {
+    try {
+      const validatedData = insertReminderAcknowledgementSchema.parse(req.body);
+      const acknowledgement = await storage.upsertReminderAcknowledgement(householdId(req), validatedData, req.user?.displayName || req.user?.username);
+      res.status(201).json(acknowledgement);
+    } catch (error: any) {
+      if (error instanceof ZodError) return res.status(400).json({ error: error.errors });
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/reminder-acknowledgements/:id", async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) return res.status(400).json({ error: "Invalid acknowledgement ID" });
+    await storage.deleteReminderAcknowledgement(householdId(req), id);
     res.status(204).send();
   });
 
+  // --- Calendar feeds ---
+  app.get("/api/calendar-feeds", async (req, res) => {
+    const feeds = await storage.getCalendarFeeds(householdId(req));
+    res.json(feeds);
+  });
+
+  app.post("/api/calendar-feeds", requireRole("owner"), async (req, res) => {
+    try {
+      const { petId } = insertCalendarFeedSchema.parse(req.body);
+      if (petId && !(await storage.getPet(householdId(req), petId))) {
+        return res.status(404).json({ error: "Pet not found" });
+      }
+      const feed = await storage.createCalendarFeed(householdId(req), petId ?? null);
+      res.status(201).json(feed);
+    } catch (error: any) {
+      if (error instanceof ZodError) return res.status(400).json({ error: error.errors });
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/calendar-feeds/:id", requireRole("owner"), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) return res.status(400).json({ error: "Invalid feed ID" });
+    await storage.deleteCalendarFeed(householdId(req), id);
+    res.status(204).send();
+  });
+
+  // Calendar apps fetch this without credentials; the unguessable token is the access check.
+  app.get("/api/calendar/:token.ics", async (req, res) => {
+    const feed = await storage.getCalendarFeedByToken(req.params.token);
+    if (!feed) return res.status(404).json({ error: "Calendar feed not found" });
+    const calendar = await buildCalendarFeed(feed);
+    if (!calendar) return res.status(404).json({ error: "Calendar feed not found" });
+    res.type("text/calendar; charset=utf-8");
+    res.setHeader("Content-Disposition", `inline; filename="petcare.ics"`);
+    res.send(calendar);
+  });
+
+  // --- Sitter share links ---
+  app.get("/api/shares", async (req, res) => {
+    const shares = await storage.getActivePetShares(householdId(req));
+    res.json(shares.map(toShareLink));
+  });
+
+  app.post("/api/shares", async (req, res) => {
+    try {
+      const validatedData = createPetShareSchema.parse(req.body);
+      const share = await storage.createPetShare(householdId(req), validatedData, req.user!.id);
+      res.status(201).json(toShareLink(share));
+    } catch (error: any) {
+      if (error instanceof ZodError) return res.status(400).json({ error: error.errors });
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/shares/:id", async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) return res.status(400).json({ error: "Invalid share ID" });
+    const revoked = await storage.revokePetShare(householdId(req), id);
+    if (!revoked) return res.status(404).json({ error: "Share not found" });
+    res.status(204).send();
+  });
+
+  // Public: the signed token is the access check, as with calendar feeds.
+  app.get("/api/share/:token", async (req, res) => {
+    const view = await buildSharedView(req.params.token);
+    if (!view) return res.status(404).json({ error: "This link has expired or been revoked" });
+    res.setHeader("Cache-Control", "no-store");
+    res.json(view);
+  });
+
   // --- Vaccinations ---
+  app.get("/api/vaccinations", async (req, res) => {
+    const vaccinations = await storage.getAllVaccinations(householdId(req));
+    res.json(vaccinations);
+  });
+
   app.get("/api/pets/:id/vaccinations", async (req, res) => {
     const petId = parseInt(req.params.id);
     if (isNaN(petId)) return res.status(400).json({ error: "Invalid pet ID" });
-    const records = await storage.getVaccinationsByPet(petId);
+    const records = await storage.getVaccinationsByPet(householdId(req), petId);
     res.json(records);
   });
 
@@ -137,7 +643,7 @@ export async function registerRoutes(
     if (isNaN(petId)) return res.status(400).json({ error: "Invalid pet ID" });
     try {
       const validatedData = insertVaccinationSchema.parse({ ...req.body, petId });
-      const record = await storage.createVaccination(validatedData);
+      const record = await storage.createVaccination(householdId(req), validatedData);
       res.status(201).json(record);
     } catch (error: any) {
       if (error instanceof ZodError) return res.status(400).json({ error: error.errors });
@@ -150,7 +656,7 @@ export async function registerRoutes(
     if (isNaN(id)) return res.status(400).json({ error: "Invalid vaccination ID" });
     try {
       const validatedData = insertVaccinationSchema.partial().parse(req.body);
-      const record = await storage.updateVaccination(id, validatedData);
+      const record = await storage.updateVaccination(householdId(req), id, validatedData);
       if (!record) return res.status(404).json({ error: "Vaccination not found" });
       res.json(record);
     } catch (error: any) {
@@ -162,15 +668,21 @@ export async function registerRoutes(
   app.delete("/api/vaccinations/:id", async (req, res) => {
     const id = parseInt(req.params.id);
     if (isNaN(id)) return res.status(400).json({ error: "Invalid vaccination ID" });
-    await storage.deleteVaccination(id);
+    await storage.deleteVaccination(householdId(req), id);
+    await removeOrphanedAttachments(householdId(req));
     res.status(204).send();
   });
 
   // --- Medications ---
+  app.get("/api/medications", async (req, res) => {
+    const medications = await storage.getAllMedications(householdId(req));
+    res.json(medications);
+  });
+
   app.get("/api/pets/:id/medications", async (req, res) => {
     const petId = parseInt(req.params.id);
     if (isNaN(petId)) return res.status(400).json({ error: "Invalid pet ID" });
-    const records = await storage.getMedicationsByPet(petId);
+    const records = await storage.getMedicationsByPet(householdId(req), petId);
     res.json(records);
   });
 
@@ -179,7 +691,7 @@ export async function registerRoutes(
     if (isNaN(petId)) return res.status(400).json({ error: "Invalid pet ID" });
     try {
       const validatedData = insertMedicationSchema.parse({ ...req.body, petId });
-      const record = await storage.createMedication(validatedData);
+      const record = await storage.createMedication(householdId(req), validatedData);
       res.status(201).json(record);
     } catch (error: any) {
       if (error instanceof ZodError) return res.status(400).json({ error: error.errors });
@@ -192,7 +704,7 @@ export async function registerRoutes(
     if (isNaN(id)) return res.status(400).json({ error: "Invalid medication ID" });
     try {
       const validatedData = insertMedicationSchema.partial().parse(req.body);
-      const record = await storage.updateMedication(id, validatedData);
+      const record = await storage.updateMedication(householdId(req), id, validatedData);
       if (!record) return res.status(404).json({ error: "Medication not found" });
       res.json(record);
     } catch (error: any) {
@@ -204,9 +716,85 @@ export async function registerRoutes(
   app.delete("/api/medications/:id", async (req, res) => {
     const id = parseInt(req.params.id);
     if (isNaN(id)) return res.status(400).json({ error: "Invalid medication ID" });
-    await storage.deleteMedication(id);
+    await storage.deleteMedication(householdId(req), id);
+    await removeOrphanedAttachments(householdId(req));
     res.status(204).send();
   });
 
+  // --- Attachments ---
+  app.get("/api/pets/:id/attachments", async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) return res.status(400).json({ error: "Invalid pet ID" });
+    const attachments = await storage.getAttachmentsForPet(householdId(req), id);
+    res.json(attachments);
+  });
+
+  app.post("/api/attachments", async (req, res) => {
+    try {
+      const validatedData = createAttachmentSchema.parse(req.body);
+      const objectPath = await prepareObjectAttachment(req, validatedData.objectPath, "document");
+      if (!objectPath.startsWith("/objects/")) throw new Error("Attachments must be uploaded files");
+      const attachment = await storage.createAttachment(householdId(req), { ...validatedData, objectPath }, req.user!.id);
+      await grantHouseholdObjectAccess(req, objectPath, householdId(req));
+      res.status(201).json(attachment);
+    } catch (error: any) {
+      if (error instanceof ZodError) return res.status(400).json({ error: error.errors });
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/attachments/:id", async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) return res.status(400).json({ error: "Invalid attachment ID" });
+    const deleted = await storage.deleteAttachment(householdId(req), id);
+    if (!deleted) return res.status(404).json({ error: "Attachment not found" });
+    await deleteUnreferencedObjects([deleted.objectPath]);
+    res.status(204).send();
+  });
+
+  // --- Data export and restore ---
+  app.get("/api/export", async (req, res) => {
+    try {
+      const query = exportQuerySchema.parse(req.query);
+      const data = await buildDataExport(householdId(req));
+      const filename = `petcare-export-${data.exportedAt.slice(0, 10)}`;
+      res.setHeader("Cache-Control", "no-store");
+      if (query.format === "csv") {
+        res.type("application/zip");
+        res.setHeader("Content-Disposition", `attachment; filename="${filename}.zip"`);
+        return await writeDataExportZip(data, res);
+      }
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}.json"`);
+      res.json(data);
+    } catch (error: any) {
+      if (error instanceof ZodError) return res.status(400).json({ error: error.errors });
+      console.error("Error exporting data:", error);
+      // Part of the ZIP may already be on its way; cutting the connection
+      // keeps the client from saving a truncated archive as complete.
+      if (res.headersSent) return res.destroy(error);
+      res.status(500).json({ error: "Failed to export data" });
+    }
+  });
+
+  app.post("/api/import/preview", requireRole("owner"), async (req, res) => {
+    try {
+      const input = dataImportSchema.parse(req.body);
+      res.json(await previewDataImport(householdId(req), input));
+    } catch (error: any) {
+      if (error instanceof ZodError) return res.status(400).json({ error: error.errors });
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/import", requireRole("owner"), async (req, res) => {
+    try {
+      const input = dataImportSchema.parse(req.body);
+      res.json(await applyDataImport(req, householdId(req), input));
+    } catch (error: any) {
+      if (error instanceof ZodError) return res.status(400).json({ error: error.errors });
+      res.status(400).json({ error: error.message });
+    }
+  });
+
   return httpServer;
 }
@@ -1,5 +1,5 @@
 import { db } from "./db";
-import { pets, weightEntries, events, petEvents } from "@shared/schema";
+import { households, pets, weightEntries, events, petEvents } from "@shared/schema";
 import { sql } from "drizzle-orm";
 import { log } from "./index";
 
@@ -13,10 +13,14 @@ export async function seedDatabase() {
 
   log("Seeding database with sample data...", "seed");
 
+  // Left without members; the first account to register claims it.
+  const [household] = await db.insert(households).values({}).returning();
+
   const [buddy, luna, max] = await db
     .insert(pets)
     .values([
       {
+        householdId: household.id,
         name: "Buddy",
         breed: "Pug",
         species: "dog",
@@ -25,6 +29,7 @@ export async function seedDatabase() {
         color: "Fawn",
       },
       {
+        householdId: household.id,
         name: "Luna",
         breed: "Puggle",
         species: "dog",
@@ -33,6 +38,7 @@ export async function seedDatabase() {
         color: "Black & Tan",
       },
       {
+        householdId: household.id,
         name: "Max",
         breed: "French Bulldog",
         species: "dog",
@@ -69,48 +75,63 @@ export async function seedDatabase() {
       .insert(events)
       .values([
         {
+          householdId: household.id,
           title: "Annual Wellness Exam",
           category: "vet_visit",
           notes: "<p>Routine annual checkup. <strong>All vitals normal.</strong> Vet recommended dental cleaning next quarter.</p>",
           eventDate: "2025-12-10",
           location: "City Vet Clinic",
+          status: "completed",
         },
         {
+          householdId: household.id,
           title: "Rabies Vaccination",
           category: "vaccination",
           notes: "<p>3-year rabies booster administered. Next due <strong>December 2028</strong>.</p>",
           eventDate: "2025-12-10",
           location: "City Vet Clinic",
+          status: "completed",
         },
         {
+          householdId: household.id,
           title: "Heartworm Prevention",
           category: "medication",
           notes: "<p>Monthly heartworm prevention given. Brand: <em>Heartgard Plus</em>. Next dose due February 1.</p>",
           eventDate: "2026-01-01",
-          reminderDate: "2026-01-28",
+          status: "completed",
         },
         {
+          householdId: household.id,
           title: "Dental Cleaning",
           category: "appointment",
           notes: "<p>Scheduled dental cleaning procedure. <strong>Fasting required</strong> 12 hours before appointment.</p>",
           eventDate: "2026-03-15",
-          reminderDate: "2026-03-10",
+          startTime: "09:00",
+          durationMinutes: 90,
+          reminderOffsetMinutes: 5 * 24 * 60,
           location: "City Vet Clinic",
+          status: "scheduled",
         },
         {
+          householdId: household.id,
           title: "Skin Allergy Checkup",
           category: "vet_visit",
           notes: "<p>Follow-up for seasonal allergies. Prescribed <em>Apoquel</em> for 2 weeks.</p><ul><li>Monitor scratching frequency</li><li>Return if symptoms persist</li></ul>",
           eventDate: "2026-01-20",
           location: "PetCare Specialists",
+          status: "completed",
         },
         {
+          householdId: household.id,
           title: "DHPP Booster",
           category: "vaccination",
           notes: "<p>Distemper/Parvo combination vaccine booster. Records updated.</p>",
           eventDate: "2026-02-14",
-          reminderDate: "2026-02-10",
+          startTime: "10:30",
+          durationMinutes: 30,
+          reminderOffsetMinutes: 4 * 24 * 60,
           location: "City Vet Clinic",
+          status: "completed",
         },
       ])
       .returning();
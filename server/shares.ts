@@ -0,0 +1,103 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { storage } from "./storage";
+import { todayInTimeZone } from "@shared/timezone";
+import type { PetShare, PetShareLink, SharedView } from "@shared/schema";
+
+function resolveShareSecret(): string {
+  const secret = process.env.SHARE_LINK_SECRET || process.env.SESSION_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SHARE_LINK_SECRET or SESSION_SECRET must be set in production");
+  }
+  // Development fallback: share links stop working when the server restarts.
+  return randomBytes(32).toString("hex");
+}
+
+const shareSecret = resolveShareSecret();
+
+function sign(payload: string): string {
+  return createHmac("sha256", shareSecret).update(payload).digest("base64url");
+}
+
+/**
+ * Tokens look like `<shareId>.<expiry in unix seconds>.<signature>`. The
+ * signature means ids can't be guessed or expiries extended by editing the
+ * URL; revocation is still checked against the stored share.
+ */
+export function signShareToken(share: Pick<PetShare, "id" | "expiresAt">): string {
+  const payload = `${share.id}.${Math.floor(share.expiresAt.getTime() / 1000)}`;
+  return `${payload}.${sign(payload)}`;
+}
+
+export function toShareLink(share: PetShare): PetShareLink {
+  return { ...share, token: signShareToken(share) };
+}
+
+function verifyShareToken(token: string): number | undefined {
+  const match = /^(\d+)\.(\d+)\.([A-Za-z0-9_-]+)$/.exec(token);
+  if (!match) return undefined;
+  const [, id, expiry, signature] = match;
+  const expected = Buffer.from(sign(`${id}.${expiry}`));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return undefined;
+  if (parseInt(expiry) * 1000 <= Date.now()) return undefined;
+  return parseInt(id);
+}
+
+// The live share behind a token, or undefined if it is malformed, expired or revoked.
+export async function resolveShareToken(token: string): Promise<PetShare | undefined> {
+  const shareId = verifyShareToken(token);
+  if (shareId === undefined) return undefined;
+  const share = await storage.getPetShare(shareId);
+  if (!share || share.revokedAt || share.expiresAt.getTime() <= Date.now()) return undefined;
+  // The expiry baked into the token has to be the one on record.
+  if (signShareToken(share) !== token) return undefined;
+  return share;
+}
+
+/**
+ * Resolves a share token to the sitter's read-only view: feeding details, vet
+ * and the medications currently being given for each shared pet. Returns
+ * undefined for bad, expired or revoked tokens alike so the response doesn't
+ * reveal which.
+ */
+export async function buildSharedView(token: string): Promise<SharedView | undefined> {
+  const share = await resolveShareToken(token);
+  if (!share) return undefined;
+
+  const household = await storage.getHousehold(share.householdId);
+  if (!household) return undefined;
+  const today = todayInTimeZone(household.timezone);
+
+  const pets = (await storage.getPets(share.householdId)).filter((pet) => share.petIds.includes(pet.id));
+  const sharedPets = await Promise.all(
+    pets.map(async (pet) => {
+      const medications = await storage.getMedicationsByPet(share.householdId, pet.id);
+      return {
+        id: pet.id,
+        name: pet.name,
+        breed: pet.breed,
+        species: pet.species,
+        dateOfBirth: pet.dateOfBirth,
+        avatarUrl: pet.avatarUrl,
+        vetName: pet.vetName,
+        foodBrand: pet.foodBrand,
+        perMealAmount: pet.perMealAmount,
+        mealsPerDay: pet.mealsPerDay,
+        foodBowlColour: pet.foodBowlColour,
+        traits: pet.traits,
+        medications: medications
+          .filter((med) => med.active && med.startDate <= today && (!med.endDate || med.endDate >= today))
+          .map(({ id, name, dosage, frequency, notes, endDate }) => ({ id, name, dosage, frequency, notes, endDate })),
+      };
+    })
+  );
+
+  return {
+    label: share.label,
+    householdName: household.name,
+    emergencyContacts: share.emergencyContacts,
+    expiresAt: share.expiresAt.toISOString(),
+    pets: sharedPets,
+  };
+}
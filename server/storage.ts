@@ -1,10 +1,27 @@
 import {
+  users,
+  households,
+  householdMembers,
+  householdInvitations,
   pets,
   weightEntries,
   events,
   petEvents,
   vaccinations,
   medications,
+  reminderAcknowledgements,
+  calendarFeeds,
+  petProfileChanges,
+  petShares,
+  attachments,
+  petPhotos,
+  type User,
+  type Household,
+  type InsertHousehold,
+  type HouseholdRole,
+  type HouseholdMember,
+  type HouseholdMemberWithUser,
+  type HouseholdInvitation,
   type Pet,
   type InsertPet,
   type WeightEntry,
@@ -16,70 +33,418 @@ import {
   type InsertVaccination,
   type Medication,
   type InsertMedication,
+  type ReminderAcknowledgement,
+  type InsertReminderAcknowledgement,
+  type CalendarFeed,
+  type PetProfileChange,
+  type PetShare,
+  type CreatePetShare,
+  type PetPhoto,
+  type UpdatePetPhoto,
+  type Attachment,
+  type AttachmentParentType,
+  type CreateAttachment,
+  type ReminderSource,
+  type EventEditScope,
+  type EventStatusUpdate,
+  eventStatusTransitions,
 } from "@shared/schema";
+import { randomBytes, randomInt } from "crypto";
 import { db } from "./db";
-import { eq, desc, asc } from "drizzle-orm";
+import { countOccurrencesBefore, daysBetween, shiftDate } from "./recurrence";
+import { eq, desc, asc, and, gt, inArray, isNull, notExists, or, sql } from "drizzle-orm";
 
+const INVITATION_TTL_DAYS = 7;
+// No 0/O or 1/I so codes survive being read aloud or copied by hand.
+const INVITATION_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+// A stored photo and its generated variants, as produced by server/photos.ts.
+export type NewPetPhoto = Omit<typeof petPhotos.$inferInsert, "id" | "petId" | "uploadedBy" | "createdAt">;
+
+// A restore from a data export, as planned by server/data-import.ts. Pet and
+// event ids in the rows are the backup's own; existingPetIds/existingEventIds
+// map backup ids that merge into records the household already has.
+export type DataImportPlan = {
+  replace: boolean;
+  existingPetIds: Map<number, number>;
+  existingEventIds: Map<number, number>;
+  pets: { sourceId: number; values: Omit<typeof pets.$inferInsert, "id" | "householdId"> }[];
+  events: { sourceId: number; petIds: number[]; values: Omit<typeof events.$inferInsert, "id" | "householdId" | "createdAt"> }[];
+  weightEntries: Omit<typeof weightEntries.$inferInsert, "id">[];
+  vaccinations: Omit<typeof vaccinations.$inferInsert, "id" | "createdAt">[];
+  medications: Omit<typeof medications.$inferInsert, "id" | "createdAt">[];
+};
+
+export type HouseholdSummary = Pick<Household, "id" | "name"> & { role: HouseholdRole };
+
+/**
+ * Everything a household owns is reached through its id: pets and events
+ * carry it directly, while weights, vaccinations, medications and profile
+ * history are scoped through their pet. Records in another household behave
+ * as if they did not exist.
+ */
 export interface IStorage {
-  getPets(): Promise<Pet[]>;
-  getPet(id: number): Promise<Pet | undefined>;
-  createPet(pet: InsertPet): Promise<Pet>;
-  updatePet(id: number, pet: Partial<InsertPet>): Promise<Pet | undefined>;
-  deletePet(id: number): Promise<void>;
-
-  getWeightEntries(petId: number): Promise<WeightEntry[]>;
-  getAllWeightEntries(): Promise<(WeightEntry & { petName: string })[]>;
-  createWeightEntry(entry: InsertWeightEntry): Promise<WeightEntry>;
-
-  getEvents(): Promise<EventWithPets[]>;
-  getEventsByPet(petId: number): Promise<EventWithPets[]>;
-  createEvent(event: InsertEvent, petIds: number[]): Promise<Event>;
-  deleteEvent(id: number): Promise<void>;
-
-  getVaccinationsByPet(petId: number): Promise<Vaccination[]>;
-  createVaccination(data: InsertVaccination): Promise<Vaccination>;
-  updateVaccination(id: number, data: Partial<InsertVaccination>): Promise<Vaccination | undefined>;
-  deleteVaccination(id: number): Promise<void>;
-
-  getMedicationsByPet(petId: number): Promise<Medication[]>;
-  createMedication(data: InsertMedication): Promise<Medication>;
-  updateMedication(id: number, data: Partial<InsertMedication>): Promise<Medication | undefined>;
-  deleteMedication(id: number): Promise<void>;
+  getUser(id: number): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  createUser(data: Pick<User, "username" | "passwordHash" | "displayName">): Promise<User>;
+  countUsers(): Promise<number>;
+
+  getHousehold(householdId: number): Promise<Household | undefined>;
+  updateHousehold(householdId: number, data: Partial<InsertHousehold>): Promise<Household | undefined>;
+  createHousehold(ownerId: number, name: string): Promise<Household>;
+  claimUnownedHousehold(ownerId: number): Promise<Household | undefined>;
+  getHouseholdsForUser(userId: number): Promise<HouseholdSummary[]>;
+  getHouseholdMember(householdId: number, userId: number): Promise<HouseholdMember | undefined>;
+  getHouseholdMembers(householdId: number): Promise<HouseholdMemberWithUser[]>;
+  updateHouseholdMemberRole(householdId: number, memberId: number, role: HouseholdRole): Promise<HouseholdMember | undefined>;
+  removeHouseholdMember(householdId: number, memberId: number): Promise<void>;
+  getHouseholdInvitations(householdId: number): Promise<HouseholdInvitation[]>;
+  createHouseholdInvitation(householdId: number, role: HouseholdRole, createdBy: number): Promise<HouseholdInvitation>;
+  deleteHouseholdInvitation(householdId: number, id: number): Promise<void>;
+  acceptHouseholdInvitation(code: string, userId: number): Promise<HouseholdMember>;
+
+  getPets(householdId: number): Promise<Pet[]>;
+  getPet(householdId: number, id: number): Promise<Pet | undefined>;
+  getPetByAvatarUrl(householdId: number, avatarUrl: string): Promise<Pet | undefined>;
+  createPet(householdId: number, pet: InsertPet): Promise<Pet>;
+  updatePet(householdId: number, id: number, pet: Partial<InsertPet>): Promise<Pet | undefined>;
+  deletePet(householdId: number, id: number): Promise<void>;
+  getPetProfileChanges(householdId: number, petId: number): Promise<PetProfileChange[]>;
+
+  getWeightEntries(householdId: number, petId: number): Promise<WeightEntry[]>;
+  getAllWeightEntries(householdId: number): Promise<(WeightEntry & { petName: string })[]>;
+  createWeightEntry(householdId: number, entry: InsertWeightEntry): Promise<WeightEntry>;
+  createWeightEntries(householdId: number, entries: InsertWeightEntry[]): Promise<number>;
+  updateWeightEntry(householdId: number, id: number, data: Partial<InsertWeightEntry>): Promise<WeightEntry | undefined>;
+  deleteWeightEntry(householdId: number, id: number): Promise<void>;
+
+  getEvents(householdId: number): Promise<EventWithPets[]>;
+  getEventsByPet(householdId: number, petId: number): Promise<EventWithPets[]>;
+  createEvent(householdId: number, event: InsertEvent, petIds: number[]): Promise<Event>;
+  updateEvent(householdId: number, id: number, event: Partial<InsertEvent>, petIds?: number[]): Promise<Event | undefined>;
+  updateEventOccurrence(
+    householdId: number,
+    id: number,
+    occurrenceDate: string,
+    scope: EventEditScope,
+    event: Partial<InsertEvent>,
+    petIds?: number[]
+  ): Promise<Event | undefined>;
+  updateEventStatus(householdId: number, id: number, update: EventStatusUpdate): Promise<Event | undefined>;
+  deleteEvent(householdId: number, id: number): Promise<void>;
+  deleteEventOccurrence(householdId: number, id: number, occurrenceDate: string, scope: EventEditScope): Promise<void>;
+
+  getAllVaccinations(householdId: number): Promise<Vaccination[]>;
+  getVaccinationsByPet(householdId: number, petId: number): Promise<Vaccination[]>;
+  createVaccination(householdId: number, data: InsertVaccination): Promise<Vaccination>;
+  createVaccinations(householdId: number, records: InsertVaccination[]): Promise<number>;
+  updateVaccination(householdId: number, id: number, data: Partial<InsertVaccination>): Promise<Vaccination | undefined>;
+  deleteVaccination(householdId: number, id: number): Promise<void>;
+
+  getAllMedications(householdId: number): Promise<Medication[]>;
+  getMedicationsByPet(householdId: number, petId: number): Promise<Medication[]>;
+  createMedication(householdId: number, data: InsertMedication): Promise<Medication>;
+  updateMedication(householdId: number, id: number, data: Partial<InsertMedication>): Promise<Medication | undefined>;
+  deleteMedication(householdId: number, id: number): Promise<void>;
+
+  getReminderAcknowledgements(householdId: number): Promise<ReminderAcknowledgement[]>;
+  upsertReminderAcknowledgement(
+    householdId: number,
+    data: InsertReminderAcknowledgement,
+    actedBy?: string | null
+  ): Promise<ReminderAcknowledgement>;
+  deleteReminderAcknowledgement(householdId: number, id: number): Promise<void>;
+
+  getCalendarFeeds(householdId: number): Promise<CalendarFeed[]>;
+  getCalendarFeedByToken(token: string): Promise<CalendarFeed | undefined>;
+  createCalendarFeed(householdId: number, petId: number | null): Promise<CalendarFeed>;
+  deleteCalendarFeed(householdId: number, id: number): Promise<void>;
+
+  getActivePetShares(householdId: number): Promise<PetShare[]>;
+  getPetShare(id: number): Promise<PetShare | undefined>;
+  createPetShare(householdId: number, data: CreatePetShare, createdBy: number): Promise<PetShare>;
+  revokePetShare(householdId: number, id: number): Promise<PetShare | undefined>;
+
+  getPetPhotos(householdId: number, petId: number): Promise<PetPhoto[]>;
+  getPetPhoto(householdId: number, id: number): Promise<PetPhoto | undefined>;
+  createPetPhoto(householdId: number, petId: number, data: NewPetPhoto, uploadedBy: number): Promise<PetPhoto>;
+  updatePetPhoto(householdId: number, id: number, data: UpdatePetPhoto): Promise<PetPhoto | undefined>;
+  deletePetPhoto(householdId: number, id: number): Promise<PetPhoto | undefined>;
+
+  // A pet's own attachments plus those on its events, vaccinations and medications.
+  getAttachmentsForPet(householdId: number, petId: number): Promise<Attachment[]>;
+  createAttachment(householdId: number, data: CreateAttachment, uploadedBy: number): Promise<Attachment>;
+  deleteAttachment(householdId: number, id: number): Promise<Attachment | undefined>;
+  // Removes attachments whose parent record is gone and returns them so their objects can be deleted.
+  deleteOrphanedAttachments(householdId: number): Promise<Attachment[]>;
+  // Whether any household still points at the object, as an attachment, a gallery photo or a pet avatar.
+  isObjectReferenced(objectPath: string): Promise<boolean>;
+
+  // Writes a planned restore in one transaction and returns the pets it created.
+  importHouseholdData(householdId: number, plan: DataImportPlan): Promise<Pet[]>;
+}
+
+function householdPetIds(householdId: number) {
+  return db.select({ id: pets.id }).from(pets).where(eq(pets.householdId, householdId));
+}
+
+// Keeps bulk inserts well under Postgres' bind parameter limit.
+function chunked<T>(rows: T[], size = 500): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < rows.length; i += size) chunks.push(rows.slice(i, i + size));
+  return chunks;
+}
+
+function generateInvitationCode(): string {
+  const chars = Array.from({ length: 8 }, () => INVITATION_ALPHABET[randomInt(INVITATION_ALPHABET.length)]);
+  return `${chars.slice(0, 4).join("")}-${chars.slice(4).join("")}`;
+}
+
+// Accepts codes typed with or without the dash, in any case.
+function normalizeInvitationCode(code: string): string {
+  const compact = code.toUpperCase().replace(/[^A-Z0-9]/g, "");
+  return `${compact.slice(0, 4)}-${compact.slice(4)}`;
 }
 
 export class DatabaseStorage implements IStorage {
-  async getPets(): Promise<Pet[]> {
-    return db.select().from(pets).orderBy(asc(pets.name));
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user || undefined;
   }
 
-  async getPet(id: number): Promise<Pet | undefined> {
-    const [pet] = await db.select().from(pets).where(eq(pets.id, id));
-    return pet || undefined;
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.username, username));
+    return user || undefined;
   }
 
-  async createPet(pet: InsertPet): Promise<Pet> {
-    const [created] = await db.insert(pets).values(pet).returning();
+  async createUser(data: Pick<User, "username" | "passwordHash" | "displayName">): Promise<User> {
+    const [created] = await db.insert(users).values(data).returning();
     return created;
   }
 
-  async updatePet(id: number, data: Partial<InsertPet>): Promise<Pet | undefined> {
-    const [updated] = await db.update(pets).set(data).where(eq(pets.id, id)).returning();
+  async countUsers(): Promise<number> {
+    const [{ count }] = await db.select({ count: sql<number>`count(*)` }).from(users);
+    return Number(count);
+  }
+
+  async getHousehold(householdId: number): Promise<Household | undefined> {
+    const [household] = await db.select().from(households).where(eq(households.id, householdId));
+    return household || undefined;
+  }
+
+  async updateHousehold(householdId: number, data: Partial<InsertHousehold>): Promise<Household | undefined> {
+    const [updated] = await db.update(households).set(data).where(eq(households.id, householdId)).returning();
     return updated || undefined;
   }
 
-  async deletePet(id: number): Promise<void> {
-    await db.delete(pets).where(eq(pets.id, id));
+  async createHousehold(ownerId: number, name: string): Promise<Household> {
+    return db.transaction(async (tx) => {
+      const [created] = await tx.insert(households).values({ name }).returning();
+      await tx.insert(householdMembers).values({ householdId: created.id, userId: ownerId, role: "owner" });
+      return created;
+    });
+  }
+
+  // Hands the household that predates accounts (and holds the seed data) to its first user.
+  async claimUnownedHousehold(ownerId: number): Promise<Household | undefined> {
+    const [unowned] = await db
+      .select()
+      .from(households)
+      .where(notExists(db.select().from(householdMembers).where(eq(householdMembers.householdId, households.id))))
+      .orderBy(asc(households.id))
+      .limit(1);
+    if (!unowned) return undefined;
+    await db.insert(householdMembers).values({ householdId: unowned.id, userId: ownerId, role: "owner" });
+    return unowned;
+  }
+
+  async getHouseholdsForUser(userId: number): Promise<HouseholdSummary[]> {
+    return db
+      .select({ id: households.id, name: households.name, role: householdMembers.role })
+      .from(householdMembers)
+      .innerJoin(households, eq(householdMembers.householdId, households.id))
+      .where(eq(householdMembers.userId, userId))
+      .orderBy(asc(householdMembers.createdAt), asc(householdMembers.id));
+  }
+
+  async getHouseholdMember(householdId: number, userId: number): Promise<HouseholdMember | undefined> {
+    const [member] = await db
+      .select()
+      .from(householdMembers)
+      .where(and(eq(householdMembers.householdId, householdId), eq(householdMembers.userId, userId)));
+    return member || undefined;
+  }
+
+  async getHouseholdMembers(householdId: number): Promise<HouseholdMemberWithUser[]> {
+    const rows = await db
+      .select({ member: householdMembers, username: users.username, displayName: users.displayName })
+      .from(householdMembers)
+      .innerJoin(users, eq(householdMembers.userId, users.id))
+      .where(eq(householdMembers.householdId, householdId))
+      .orderBy(asc(householdMembers.createdAt), asc(householdMembers.id));
+    return rows.map((row) => ({ ...row.member, username: row.username, displayName: row.displayName }));
+  }
+
+  async updateHouseholdMemberRole(
+    householdId: number,
+    memberId: number,
+    role: HouseholdRole
+  ): Promise<HouseholdMember | undefined> {
+    return db.transaction(async (tx) => {
+      const members = await tx.select().from(householdMembers).where(eq(householdMembers.householdId, householdId));
+      const member = members.find((m) => m.id === memberId);
+      if (!member) return undefined;
+      if (member.role === "owner" && role !== "owner" && members.filter((m) => m.role === "owner").length === 1) {
+        throw new Error("A household needs at least one owner");
+      }
+      const [updated] = await tx
+        .update(householdMembers)
+        .set({ role })
+        .where(eq(householdMembers.id, memberId))
+        .returning();
+      return updated;
+    });
+  }
+
+  async removeHouseholdMember(householdId: number, memberId: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      const members = await tx.select().from(householdMembers).where(eq(householdMembers.householdId, householdId));
+      const member = members.find((m) => m.id === memberId);
+      if (!member) return;
+      if (member.role === "owner" && members.filter((m) => m.role === "owner").length === 1) {
+        throw new Error("A household needs at least one owner");
+      }
+      await tx.delete(householdMembers).where(eq(householdMembers.id, memberId));
+    });
+  }
+
+  async getHouseholdInvitations(householdId: number): Promise<HouseholdInvitation[]> {
+    return db
+      .select()
+      .from(householdInvitations)
+      .where(
+        and(
+          eq(householdInvitations.householdId, householdId),
+          isNull(householdInvitations.usedAt),
+          gt(householdInvitations.expiresAt, new Date())
+        )
+      )
+      .orderBy(desc(householdInvitations.createdAt));
+  }
+
+  async createHouseholdInvitation(householdId: number, role: HouseholdRole, createdBy: number): Promise<HouseholdInvitation> {
+    const [created] = await db
+      .insert(householdInvitations)
+      .values({
+        householdId,
+        role,
+        createdBy,
+        code: generateInvitationCode(),
+        expiresAt: new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000),
+      })
+      .returning();
+    return created;
+  }
+
+  async deleteHouseholdInvitation(householdId: number, id: number): Promise<void> {
+    await db
+      .delete(householdInvitations)
+      .where(and(eq(householdInvitations.id, id), eq(householdInvitations.householdId, householdId)));
+  }
+
+  async acceptHouseholdInvitation(code: string, userId: number): Promise<HouseholdMember> {
+    return db.transaction(async (tx) => {
+      // Spending the code and checking it are one statement, so a code can't be used twice.
+      const [invitation] = await tx
+        .update(householdInvitations)
+        .set({ usedAt: new Date(), usedBy: userId })
+        .where(
+          and(
+            eq(householdInvitations.code, normalizeInvitationCode(code)),
+            isNull(householdInvitations.usedAt),
+            gt(householdInvitations.expiresAt, new Date())
+          )
+        )
+        .returning();
+      if (!invitation) throw new Error("That invitation code is invalid or has expired");
+
+      const [existing] = await tx
+        .select()
+        .from(householdMembers)
+        .where(and(eq(householdMembers.householdId, invitation.householdId), eq(householdMembers.userId, userId)));
+      if (existing) throw new Error("You are already a member of that household");
+
+      const [member] = await tx
+        .insert(householdMembers)
+        .values({ householdId: invitation.householdId, userId, role: invitation.role })
+        .returning();
+      return member;
+    });
+  }
+
+  async getPets(householdId: number): Promise<Pet[]> {
+    return db.select().from(pets).where(eq(pets.householdId, householdId)).orderBy(asc(pets.name));
+  }
+
+  async getPet(householdId: number, id: number): Promise<Pet | undefined> {
+    const [pet] = await db.select().from(pets).where(and(eq(pets.id, id), eq(pets.householdId, householdId)));
+    return pet || undefined;
+  }
+
+  async getPetByAvatarUrl(householdId: number, avatarUrl: string): Promise<Pet | undefined> {
+    const [pet] = await db
+      .select()
+      .from(pets)
+      .where(and(eq(pets.avatarUrl, avatarUrl), eq(pets.householdId, householdId)));
+    return pet || undefined;
+  }
+
+  async createPet(householdId: number, pet: InsertPet): Promise<Pet> {
+    const [created] = await db.insert(pets).values({ ...pet, householdId }).returning();
+    return created;
+  }
+
+  // Records one history row per field whose value actually changed.
+  async updatePet(householdId: number, id: number, data: Partial<InsertPet>): Promise<Pet | undefined> {
+    return db.transaction(async (tx) => {
+      const [current] = await tx.select().from(pets).where(and(eq(pets.id, id), eq(pets.householdId, householdId)));
+      if (!current) return undefined;
+      const [updated] = await tx.update(pets).set(data).where(eq(pets.id, id)).returning();
+
+      const changes = (Object.keys(data) as (keyof Pet)[])
+        .filter((field) => field !== "id" && (current[field] ?? null) !== (updated[field] ?? null))
+        .map((field) => ({
+          petId: id,
+          field,
+          previousValue: current[field] == null ? null : String(current[field]),
+          newValue: updated[field] == null ? null : String(updated[field]),
+        }));
+      if (changes.length > 0) await tx.insert(petProfileChanges).values(changes);
+      return updated;
+    });
+  }
+
+  async deletePet(householdId: number, id: number): Promise<void> {
+    await db.delete(pets).where(and(eq(pets.id, id), eq(pets.householdId, householdId)));
   }
 
-  async getWeightEntries(petId: number): Promise<WeightEntry[]> {
+  async getPetProfileChanges(householdId: number, petId: number): Promise<PetProfileChange[]> {
+    return db
+      .select()
+      .from(petProfileChanges)
+      .where(and(eq(petProfileChanges.petId, petId), inArray(petProfileChanges.petId, householdPetIds(householdId))))
+      .orderBy(desc(petProfileChanges.changedAt));
+  }
+
+  async getWeightEntries(householdId: number, petId: number): Promise<WeightEntry[]> {
     return db
       .select()
       .from(weightEntries)
-      .where(eq(weightEntries.petId, petId))
+      .where(and(eq(weightEntries.petId, petId), inArray(weightEntries.petId, householdPetIds(householdId))))
       .orderBy(asc(weightEntries.recordedAt));
   }
 
-  async getAllWeightEntries(): Promise<(WeightEntry & { petName: string })[]> {
+  async getAllWeightEntries(householdId: number): Promise<(WeightEntry & { petName: string })[]> {
     const result = await db
       .select({
         id: weightEntries.id,
@@ -91,19 +456,52 @@ export class DatabaseStorage implements IStorage {
       })
       .from(weightEntries)
       .innerJoin(pets, eq(weightEntries.petId, pets.id))
+      .where(eq(pets.householdId, householdId))
       .orderBy(asc(weightEntries.recordedAt));
     return result;
   }
 
-  async createWeightEntry(entry: InsertWeightEntry): Promise<WeightEntry> {
+  async createWeightEntry(householdId: number, entry: InsertWeightEntry): Promise<WeightEntry> {
+    await this.checkPetsInHousehold(householdId, [(entry as WeightEntry).petId]);
     const [created] = await db.insert(weightEntries).values(entry).returning();
     return created;
   }
 
-  async getEvents(): Promise<EventWithPets[]> {
+  async createWeightEntries(householdId: number, entries: InsertWeightEntry[]): Promise<number> {
+    const rows = entries as (typeof weightEntries.$inferInsert)[];
+    await this.checkPetsInHousehold(householdId, rows.map((row) => row.petId));
+    await db.transaction(async (tx) => {
+      for (const chunk of chunked(rows)) await tx.insert(weightEntries).values(chunk);
+    });
+    return rows.length;
+  }
+
+  async updateWeightEntry(
+    householdId: number,
+    id: number,
+    data: Partial<InsertWeightEntry>
+  ): Promise<WeightEntry | undefined> {
+    const petId = (data as Partial<WeightEntry>).petId;
+    if (petId !== undefined) await this.checkPetsInHousehold(householdId, [petId]);
+    const [updated] = await db
+      .update(weightEntries)
+      .set(data)
+      .where(and(eq(weightEntries.id, id), inArray(weightEntries.petId, householdPetIds(householdId))))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteWeightEntry(householdId: number, id: number): Promise<void> {
+    await db
+      .delete(weightEntries)
+      .where(and(eq(weightEntries.id, id), inArray(weightEntries.petId, householdPetIds(householdId))));
+  }
+
+  async getEvents(householdId: number): Promise<EventWithPets[]> {
     const allEvents = await db
       .select()
       .from(events)
+      .where(eq(events.householdId, householdId))
       .orderBy(desc(events.eventDate));
 
     const result: EventWithPets[] = [];
@@ -122,7 +520,7 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
 
-  async getEventsByPet(petId: number): Promise<EventWithPets[]> {
+  async getEventsByPet(householdId: number, petId: number): Promise<EventWithPets[]> {
     const petEventLinks = await db
       .select({ eventId: petEvents.eventId })
       .from(petEvents)
@@ -131,12 +529,13 @@ export class DatabaseStorage implements IStorage {
     const eventIds = petEventLinks.map((l) => l.eventId);
     if (eventIds.length === 0) return [];
 
-    const allEvents = await this.getEvents();
+    const allEvents = await this.getEvents(householdId);
     return allEvents.filter((e) => eventIds.includes(e.id));
   }
 
-  async createEvent(event: InsertEvent, petIds: number[]): Promise<Event> {
-    const [created] = await db.insert(events).values(event).returning();
+  async createEvent(householdId: number, event: InsertEvent, petIds: number[]): Promise<Event> {
+    await this.checkPetsInHousehold(householdId, petIds);
+    const [created] = await db.insert(events).values({ ...event, householdId }).returning();
 
     if (petIds.length > 0) {
       await db.insert(petEvents).values(
@@ -150,53 +549,613 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
-  async deleteEvent(id: number): Promise<void> {
+  async updateEvent(
+    householdId: number,
+    id: number,
+    data: Partial<InsertEvent>,
+    petIds?: number[]
+  ): Promise<Event | undefined> {
+    if (petIds) await this.checkPetsInHousehold(householdId, petIds);
+    const scope = and(eq(events.id, id), eq(events.householdId, householdId));
+    return db.transaction(async (tx) => {
+      const [updated] =
+        Object.keys(data).length > 0
+          ? await tx.update(events).set(data).where(scope).returning()
+          : await tx.select().from(events).where(scope);
+      if (!updated) return undefined;
+
+      if (petIds) {
+        await tx.delete(petEvents).where(eq(petEvents.eventId, id));
+        if (petIds.length > 0) {
+          await tx.insert(petEvents).values(
+            petIds.map((petId) => ({
+              petId,
+              eventId: id,
+            }))
+          );
+        }
+      }
+
+      return updated;
+    });
+  }
+
+  /**
+   * Edits one occurrence of a recurring event. "occurrence" detaches it into a
+   * standalone event, "following" splits the series at that date, and "all"
+   * edits the whole series with dates taken relative to the chosen occurrence.
+   */
+  async updateEventOccurrence(
+    householdId: number,
+    id: number,
+    occurrenceDate: string,
+    scope: EventEditScope,
+    data: Partial<InsertEvent>,
+    petIds?: number[]
+  ): Promise<Event | undefined> {
+    const series = await this.getHouseholdEvent(householdId, id);
+    if (!series?.recurrence) return this.updateEvent(householdId, id, data, petIds);
+
+    const changes: Partial<Event> = { ...data };
+    const exceptions = series.recurrenceExceptions ?? [];
+    const priorCount = countOccurrencesBefore(series.recurrence, series.eventDate, occurrenceDate);
+
+    if (scope === "all" || (scope === "following" && priorCount === 0)) {
+      const offset = daysBetween(occurrenceDate, series.eventDate);
+      if (changes.eventDate) changes.eventDate = shiftDate(changes.eventDate, offset);
+      return this.updateEvent(householdId, id, changes, petIds);
+    }
+
+    if (petIds) await this.checkPetsInHousehold(householdId, petIds);
+    return db.transaction(async (tx) => {
+      const links = petIds ?? (
+        await tx.select({ petId: petEvents.petId }).from(petEvents).where(eq(petEvents.eventId, id))
+      ).map((l) => l.petId);
+      const { id: _id, createdAt: _createdAt, ...seriesFields } = series;
+      const newStart = changes.eventDate ?? occurrenceDate;
+      const base = { ...seriesFields, eventDate: occurrenceDate };
+
+      let values: typeof base;
+      if (scope === "occurrence") {
+        await tx
+          .update(events)
+          .set({ recurrenceExceptions: [...exceptions, occurrenceDate] })
+          .where(eq(events.id, id));
+        values = { ...base, ...changes, recurrence: null, recurrenceExceptions: null };
+      } else {
+        await tx
+          .update(events)
+          .set({
+            recurrence: { ...series.recurrence!, count: null, until: shiftDate(occurrenceDate, -1) },
+            recurrenceExceptions: exceptions.filter((d) => d < occurrenceDate),
+          })
+          .where(eq(events.id, id));
+        const remainingRule = series.recurrence!.count
+          ? { ...series.recurrence!, count: Math.max(series.recurrence!.count - priorCount, 1) }
+          : series.recurrence;
+        const offset = daysBetween(occurrenceDate, newStart);
+        values = {
+          ...base,
+          recurrence: remainingRule,
+          ...changes,
+          recurrenceExceptions: exceptions.filter((d) => d >= occurrenceDate).map((d) => shiftDate(d, offset)),
+        };
+      }
+
+      const [created] = await tx.insert(events).values(values).returning();
+      if (links.length > 0) {
+        await tx.insert(petEvents).values(links.map((petId) => ({ petId, eventId: created.id })));
+      }
+      return created;
+    });
+  }
+
+  /**
+   * Moves an event along its status lifecycle. The outcome note is only kept
+   * for completed events. Changing one occurrence of a recurring event
+   * detaches that occurrence so the rest of the series keeps its status.
+   */
+  async updateEventStatus(householdId: number, id: number, update: EventStatusUpdate): Promise<Event | undefined> {
+    const event = await this.getHouseholdEvent(householdId, id);
+    if (!event) return undefined;
+
+    if (!eventStatusTransitions[event.status].includes(update.status)) {
+      throw new Error(`Cannot change a ${event.status} event to ${update.status}`);
+    }
+
+    const changes = {
+      status: update.status,
+      outcome: update.status === "completed" ? update.outcome || null : null,
+    };
+    if (event.recurrence && update.occurrenceDate) {
+      return this.updateEventOccurrence(householdId, id, update.occurrenceDate, "occurrence", changes);
+    }
+    const [updated] = await db.update(events).set(changes).where(eq(events.id, id)).returning();
+    return updated;
+  }
+
+  async deleteEvent(householdId: number, id: number): Promise<void> {
+    if (!(await this.getHouseholdEvent(householdId, id))) return;
     await db.delete(petEvents).where(eq(petEvents.eventId, id));
     await db.delete(events).where(eq(events.id, id));
+    await this.deleteReminderAcknowledgementsFor(householdId, "event", id);
   }
 
-  async getVaccinationsByPet(petId: number): Promise<Vaccination[]> {
+  async deleteEventOccurrence(
+    householdId: number,
+    id: number,
+    occurrenceDate: string,
+    scope: EventEditScope
+  ): Promise<void> {
+    const series = await this.getHouseholdEvent(householdId, id);
+    if (!series) return;
+    if (!series.recurrence || scope === "all") return this.deleteEvent(householdId, id);
+
+    const exceptions = series.recurrenceExceptions ?? [];
+    if (scope === "occurrence") {
+      await db
+        .update(events)
+        .set({ recurrenceExceptions: [...exceptions, occurrenceDate] })
+        .where(eq(events.id, id));
+      return;
+    }
+
+    if (countOccurrencesBefore(series.recurrence, series.eventDate, occurrenceDate) === 0) {
+      return this.deleteEvent(householdId, id);
+    }
+    await db
+      .update(events)
+      .set({
+        recurrence: { ...series.recurrence, count: null, until: shiftDate(occurrenceDate, -1) },
+        recurrenceExceptions: exceptions.filter((d) => d < occurrenceDate),
+      })
+      .where(eq(events.id, id));
+  }
+
+  async getAllVaccinations(householdId: number): Promise<Vaccination[]> {
     return db
       .select()
       .from(vaccinations)
-      .where(eq(vaccinations.petId, petId))
+      .where(inArray(vaccinations.petId, householdPetIds(householdId)))
       .orderBy(desc(vaccinations.dateAdministered));
   }
 
-  async createVaccination(data: InsertVaccination): Promise<Vaccination> {
+  async getVaccinationsByPet(householdId: number, petId: number): Promise<Vaccination[]> {
+    return db
+      .select()
+      .from(vaccinations)
+      .where(and(eq(vaccinations.petId, petId), inArray(vaccinations.petId, householdPetIds(householdId))))
+      .orderBy(desc(vaccinations.dateAdministered));
+  }
+
+  async createVaccination(householdId: number, data: InsertVaccination): Promise<Vaccination> {
+    await this.checkPetsInHousehold(householdId, [(data as Vaccination).petId]);
     const [created] = await db.insert(vaccinations).values(data).returning();
     return created;
   }
 
-  async updateVaccination(id: number, data: Partial<InsertVaccination>): Promise<Vaccination | undefined> {
-    const [updated] = await db.update(vaccinations).set(data).where(eq(vaccinations.id, id)).returning();
+  async createVaccinations(householdId: number, records: InsertVaccination[]): Promise<number> {
+    const rows = records as (typeof vaccinations.$inferInsert)[];
+    await this.checkPetsInHousehold(householdId, rows.map((row) => row.petId));
+    await db.transaction(async (tx) => {
+      for (const chunk of chunked(rows)) await tx.insert(vaccinations).values(chunk);
+    });
+    return rows.length;
+  }
+
+  async updateVaccination(
+    householdId: number,
+    id: number,
+    data: Partial<InsertVaccination>
+  ): Promise<Vaccination | undefined> {
+    const petId = (data as Partial<Vaccination>).petId;
+    if (petId !== undefined) await this.checkPetsInHousehold(householdId, [petId]);
+    const [updated] = await db
+      .update(vaccinations)
+      .set(data)
+      .where(and(eq(vaccinations.id, id), inArray(vaccinations.petId, householdPetIds(householdId))))
+      .returning();
     return updated || undefined;
   }
 
-  async deleteVaccination(id: number): Promise<void> {
-    await db.delete(vaccinations).where(eq(vaccinations.id, id));
+  async deleteVaccination(householdId: number, id: number): Promise<void> {
+    const deleted = await db
+      .delete(vaccinations)
+      .where(and(eq(vaccinations.id, id), inArray(vaccinations.petId, householdPetIds(householdId))))
+      .returning({ id: vaccinations.id });
+    if (deleted.length > 0) await this.deleteReminderAcknowledgementsFor(householdId, "vaccination", id);
+  }
+
+  async getAllMedications(householdId: number): Promise<Medication[]> {
+    return db
+      .select()
+      .from(medications)
+      .where(inArray(medications.petId, householdPetIds(householdId)))
+      .orderBy(desc(medications.startDate));
   }
 
-  async getMedicationsByPet(petId: number): Promise<Medication[]> {
+  async getMedicationsByPet(householdId: number, petId: number): Promise<Medication[]> {
     return db
       .select()
       .from(medications)
-      .where(eq(medications.petId, petId))
+      .where(and(eq(medications.petId, petId), inArray(medications.petId, householdPetIds(householdId))))
       .orderBy(desc(medications.startDate));
   }
 
-  async createMedication(data: InsertMedication): Promise<Medication> {
+  async createMedication(householdId: number, data: InsertMedication): Promise<Medication> {
+    await this.checkPetsInHousehold(householdId, [(data as Medication).petId]);
     const [created] = await db.insert(medications).values(data).returning();
     return created;
   }
 
-  async updateMedication(id: number, data: Partial<InsertMedication>): Promise<Medication | undefined> {
-    const [updated] = await db.update(medications).set(data).where(eq(medications.id, id)).returning();
+  async updateMedication(
+    householdId: number,
+    id: number,
+    data: Partial<InsertMedication>
+  ): Promise<Medication | undefined> {
+    const petId = (data as Partial<Medication>).petId;
+    if (petId !== undefined) await this.checkPetsInHousehold(householdId, [petId]);
+    const [updated] = await db
+      .update(medications)
+      .set(data)
+      .where(and(eq(medications.id, id), inArray(medications.petId, householdPetIds(householdId))))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteMedication(householdId: number, id: number): Promise<void> {
+    const deleted = await db
+      .delete(medications)
+      .where(and(eq(medications.id, id), inArray(medications.petId, householdPetIds(householdId))))
+      .returning({ id: medications.id });
+    if (deleted.length > 0) await this.deleteReminderAcknowledgementsFor(householdId, "medication", id);
+  }
+
+  async getReminderAcknowledgements(householdId: number): Promise<ReminderAcknowledgement[]> {
+    return db.select().from(reminderAcknowledgements).where(eq(reminderAcknowledgements.householdId, householdId));
+  }
+
+  async upsertReminderAcknowledgement(
+    householdId: number,
+    data: InsertReminderAcknowledgement,
+    actedBy: string | null = null
+  ): Promise<ReminderAcknowledgement> {
+    const values = {
+      ...data,
+      householdId,
+      snoozedUntil: data.action === "snoozed" ? data.snoozedUntil : null,
+      actedBy,
+      actedAt: new Date(),
+    };
+    const [saved] = await db
+      .insert(reminderAcknowledgements)
+      .values(values)
+      .onConflictDoUpdate({
+        target: [
+          reminderAcknowledgements.householdId,
+          reminderAcknowledgements.source,
+          reminderAcknowledgements.sourceId,
+          reminderAcknowledgements.dueDate,
+        ],
+        set: {
+          action: values.action,
+          snoozedUntil: values.snoozedUntil,
+          actedBy: values.actedBy,
+          actedAt: values.actedAt,
+        },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteReminderAcknowledgement(householdId: number, id: number): Promise<void> {
+    await db
+      .delete(reminderAcknowledgements)
+      .where(and(eq(reminderAcknowledgements.id, id), eq(reminderAcknowledgements.householdId, householdId)));
+  }
+
+  async getCalendarFeeds(householdId: number): Promise<CalendarFeed[]> {
+    return db
+      .select()
+      .from(calendarFeeds)
+      .where(eq(calendarFeeds.householdId, householdId))
+      .orderBy(asc(calendarFeeds.id));
+  }
+
+  // Deliberately unscoped: the token alone identifies the feed (and its household).
+  async getCalendarFeedByToken(token: string): Promise<CalendarFeed | undefined> {
+    const [feed] = await db.select().from(calendarFeeds).where(eq(calendarFeeds.token, token));
+    return feed || undefined;
+  }
+
+  async createCalendarFeed(householdId: number, petId: number | null): Promise<CalendarFeed> {
+    if (petId !== null) await this.checkPetsInHousehold(householdId, [petId]);
+    const [created] = await db
+      .insert(calendarFeeds)
+      .values({ householdId, token: randomBytes(24).toString("base64url"), petId })
+      .returning();
+    return created;
+  }
+
+  async deleteCalendarFeed(householdId: number, id: number): Promise<void> {
+    await db.delete(calendarFeeds).where(and(eq(calendarFeeds.id, id), eq(calendarFeeds.householdId, householdId)));
+  }
+
+  async getActivePetShares(householdId: number): Promise<PetShare[]> {
+    return db
+      .select()
+      .from(petShares)
+      .where(and(eq(petShares.householdId, householdId), isNull(petShares.revokedAt), gt(petShares.expiresAt, new Date())))
+      .orderBy(asc(petShares.expiresAt));
+  }
+
+  // Unscoped like getCalendarFeedByToken: callers reach it through a verified share token.
+  async getPetShare(id: number): Promise<PetShare | undefined> {
+    const [share] = await db.select().from(petShares).where(eq(petShares.id, id));
+    return share || undefined;
+  }
+
+  async createPetShare(householdId: number, data: CreatePetShare, createdBy: number): Promise<PetShare> {
+    const petIds = Array.from(new Set(data.petIds));
+    await this.checkPetsInHousehold(householdId, petIds);
+    const [created] = await db
+      .insert(petShares)
+      .values({
+        householdId,
+        label: data.label || null,
+        petIds,
+        emergencyContacts: data.emergencyContacts || null,
+        expiresAt: data.expiresAt,
+        createdBy,
+      })
+      .returning();
+    return created;
+  }
+
+  async revokePetShare(householdId: number, id: number): Promise<PetShare | undefined> {
+    const [revoked] = await db
+      .update(petShares)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(petShares.id, id), eq(petShares.householdId, householdId), isNull(petShares.revokedAt)))
+      .returning();
+    return revoked || undefined;
+  }
+
+  // Photos with a taken-at date come first, newest first; undated ones follow by upload time.
+  async getPetPhotos(householdId: number, petId: number): Promise<PetPhoto[]> {
+    return db
+      .select()
+      .from(petPhotos)
+      .where(and(eq(petPhotos.petId, petId), inArray(petPhotos.petId, householdPetIds(householdId))))
+      .orderBy(sql`${petPhotos.takenAt} desc nulls last`, desc(petPhotos.createdAt));
+  }
+
+  async getPetPhoto(householdId: number, id: number): Promise<PetPhoto | undefined> {
+    const [photo] = await db
+      .select()
+      .from(petPhotos)
+      .where(and(eq(petPhotos.id, id), inArray(petPhotos.petId, householdPetIds(householdId))));
+    return photo || undefined;
+  }
+
+  async createPetPhoto(householdId: number, petId: number, data: NewPetPhoto, uploadedBy: number): Promise<PetPhoto> {
+    await this.checkPetsInHousehold(householdId, [petId]);
+    const [created] = await db.insert(petPhotos).values({ ...data, petId, uploadedBy }).returning();
+    return created;
+  }
+
+  async updatePetPhoto(householdId: number, id: number, data: UpdatePetPhoto): Promise<PetPhoto | undefined> {
+    const changes: Partial<PetPhoto> = {};
+    if (data.caption !== undefined) changes.caption = data.caption || null;
+    if (data.takenAt !== undefined) changes.takenAt = data.takenAt || null;
+    if (Object.keys(changes).length === 0) return this.getPetPhoto(householdId, id);
+    const [updated] = await db
+      .update(petPhotos)
+      .set(changes)
+      .where(and(eq(petPhotos.id, id), inArray(petPhotos.petId, householdPetIds(householdId))))
+      .returning();
     return updated || undefined;
   }
 
-  async deleteMedication(id: number): Promise<void> {
-    await db.delete(medications).where(eq(medications.id, id));
+  async deletePetPhoto(householdId: number, id: number): Promise<PetPhoto | undefined> {
+    const [deleted] = await db
+      .delete(petPhotos)
+      .where(and(eq(petPhotos.id, id), inArray(petPhotos.petId, householdPetIds(householdId))))
+      .returning();
+    return deleted || undefined;
+  }
+
+  async getAttachmentsForPet(householdId: number, petId: number): Promise<Attachment[]> {
+    const eventIds = db.select({ id: petEvents.eventId }).from(petEvents).where(eq(petEvents.petId, petId));
+    const vaccinationIds = db.select({ id: vaccinations.id }).from(vaccinations).where(eq(vaccinations.petId, petId));
+    const medicationIds = db.select({ id: medications.id }).from(medications).where(eq(medications.petId, petId));
+    return db
+      .select()
+      .from(attachments)
+      .where(
+        and(
+          eq(attachments.householdId, householdId),
+          or(
+            and(eq(attachments.parentType, "pet"), eq(attachments.parentId, petId)),
+            and(eq(attachments.parentType, "event"), inArray(attachments.parentId, eventIds)),
+            and(eq(attachments.parentType, "vaccination"), inArray(attachments.parentId, vaccinationIds)),
+            and(eq(attachments.parentType, "medication"), inArray(attachments.parentId, medicationIds))
+          )
+        )
+      )
+      .orderBy(desc(attachments.createdAt));
+  }
+
+  async createAttachment(householdId: number, data: CreateAttachment, uploadedBy: number): Promise<Attachment> {
+    await this.checkAttachmentParent(householdId, data.parentType, data.parentId);
+    const [created] = await db
+      .insert(attachments)
+      .values({
+        householdId,
+        parentType: data.parentType,
+        parentId: data.parentId,
+        objectPath: data.objectPath,
+        fileName: data.fileName,
+        contentType: data.contentType || null,
+        size: data.size ?? null,
+        uploadedBy,
+      })
+      .returning();
+    return created;
+  }
+
+  async deleteAttachment(householdId: number, id: number): Promise<Attachment | undefined> {
+    const [deleted] = await db
+      .delete(attachments)
+      .where(and(eq(attachments.id, id), eq(attachments.householdId, householdId)))
+      .returning();
+    return deleted || undefined;
+  }
+
+  // Parents cascade in several ways (a pet takes its vaccinations with it, an
+  // event may lose its last pet), so orphans are found rather than tracked.
+  async deleteOrphanedAttachments(householdId: number): Promise<Attachment[]> {
+    const parentExists = (table: typeof pets | typeof events | typeof vaccinations | typeof medications) =>
+      db.select({ id: table.id }).from(table).where(eq(table.id, attachments.parentId));
+    return db
+      .delete(attachments)
+      .where(
+        and(
+          eq(attachments.householdId, householdId),
+          or(
+            and(eq(attachments.parentType, "pet"), notExists(parentExists(pets))),
+            and(eq(attachments.parentType, "event"), notExists(parentExists(events))),
+            and(eq(attachments.parentType, "vaccination"), notExists(parentExists(vaccinations))),
+            and(eq(attachments.parentType, "medication"), notExists(parentExists(medications)))
+          )
+        )
+      )
+      .returning();
+  }
+
+  async isObjectReferenced(objectPath: string): Promise<boolean> {
+    const [attachment] = await db
+      .select({ id: attachments.id })
+      .from(attachments)
+      .where(eq(attachments.objectPath, objectPath))
+      .limit(1);
+    if (attachment) return true;
+    const [photo] = await db
+      .select({ id: petPhotos.id })
+      .from(petPhotos)
+      .where(
+        or(
+          eq(petPhotos.objectPath, objectPath),
+          eq(petPhotos.displayPath, objectPath),
+          eq(petPhotos.thumbnailPath, objectPath)
+        )
+      )
+      .limit(1);
+    if (photo) return true;
+    const [pet] = await db.select({ id: pets.id }).from(pets).where(eq(pets.avatarUrl, objectPath)).limit(1);
+    return !!pet;
+  }
+
+  private async checkAttachmentParent(householdId: number, parentType: AttachmentParentType, parentId: number): Promise<void> {
+    switch (parentType) {
+      case "pet":
+        return this.checkPetsInHousehold(householdId, [parentId]);
+      case "event":
+        if (!(await this.getHouseholdEvent(householdId, parentId))) throw new Error("Event not found");
+        return;
+      case "vaccination": {
+        const [vaccination] = await db
+          .select({ id: vaccinations.id })
+          .from(vaccinations)
+          .where(and(eq(vaccinations.id, parentId), inArray(vaccinations.petId, householdPetIds(householdId))));
+        if (!vaccination) throw new Error("Vaccination not found");
+        return;
+      }
+      case "medication": {
+        const [medication] = await db
+          .select({ id: medications.id })
+          .from(medications)
+          .where(and(eq(medications.id, parentId), inArray(medications.petId, householdPetIds(householdId))));
+        if (!medication) throw new Error("Medication not found");
+        return;
+      }
+    }
+  }
+
+  async importHouseholdData(householdId: number, plan: DataImportPlan): Promise<Pet[]> {
+    return db.transaction(async (tx) => {
+      if (plan.replace) {
+        // Weights, health records, event links, photos and profile history cascade from pets.
+        await tx.delete(pets).where(eq(pets.householdId, householdId));
+        await tx.delete(events).where(eq(events.householdId, householdId));
+        await tx.delete(reminderAcknowledgements).where(eq(reminderAcknowledgements.householdId, householdId));
+      }
+
+      const petIds = new Map(plan.existingPetIds);
+      const created: Pet[] = [];
+      for (const pet of plan.pets) {
+        const [row] = await tx.insert(pets).values({ ...pet.values, householdId }).returning();
+        petIds.set(pet.sourceId, row.id);
+        created.push(row);
+      }
+      const toPetId = (sourceId: number) => {
+        const id = petIds.get(sourceId);
+        if (id === undefined) throw new Error("Pet not found");
+        return id;
+      };
+
+      const eventIds = new Map(plan.existingEventIds);
+      for (const event of plan.events) {
+        const [row] = await tx.insert(events).values({ ...event.values, householdId }).returning({ id: events.id });
+        eventIds.set(event.sourceId, row.id);
+        if (event.petIds.length > 0) {
+          await tx.insert(petEvents).values(event.petIds.map((petId) => ({ petId: toPetId(petId), eventId: row.id })));
+        }
+      }
+      const toEventId = (sourceId: number | null | undefined) => (sourceId == null ? null : (eventIds.get(sourceId) ?? null));
+
+      for (const rows of chunked(plan.weightEntries)) {
+        await tx.insert(weightEntries).values(rows.map((entry) => ({ ...entry, petId: toPetId(entry.petId) })));
+      }
+      for (const rows of chunked(plan.vaccinations)) {
+        await tx.insert(vaccinations).values(
+          rows.map((record) => ({ ...record, petId: toPetId(record.petId), sourceEventId: toEventId(record.sourceEventId) }))
+        );
+      }
+      for (const rows of chunked(plan.medications)) {
+        await tx.insert(medications).values(
+          rows.map((record) => ({ ...record, petId: toPetId(record.petId), sourceEventId: toEventId(record.sourceEventId) }))
+        );
+      }
+      return created;
+    });
+  }
+
+  private async getHouseholdEvent(householdId: number, id: number): Promise<Event | undefined> {
+    const [event] = await db.select().from(events).where(and(eq(events.id, id), eq(events.householdId, householdId)));
+    return event || undefined;
+  }
+
+  private async checkPetsInHousehold(householdId: number, petIds: number[]): Promise<void> {
+    const unique = Array.from(new Set(petIds));
+    if (unique.length === 0) return;
+    const found = await db
+      .select({ id: pets.id })
+      .from(pets)
+      .where(and(eq(pets.householdId, householdId), inArray(pets.id, unique)));
+    if (found.length !== unique.length) throw new Error("Pet not found");
+  }
+
+  private async deleteReminderAcknowledgementsFor(householdId: number, source: ReminderSource, sourceId: number): Promise<void> {
+    await db
+      .delete(reminderAcknowledgements)
+      .where(
+        and(
+          eq(reminderAcknowledgements.householdId, householdId),
+          eq(reminderAcknowledgements.source, source),
+          eq(reminderAcknowledgements.sourceId, sourceId)
+        )
+      );
   }
 }
 
@@ -0,0 +1,193 @@
+import { z } from "zod";
+import { storage } from "./storage";
+import { expandEventOccurrences } from "./recurrence";
+import { todayInTimeZone, toZonedParts } from "@shared/timezone";
+import { convertWeight, formatWeight, roundWeight } from "@shared/weight";
+import type { WeightUnit } from "@shared/weight";
+import { timelineItemTypes } from "@shared/schema";
+import type { TimelineItem, TimelineItemType, TimelinePage } from "@shared/schema";
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+const profileFieldLabels: Record<string, string> = {
+  name: "Name",
+  breed: "Breed",
+  species: "Species",
+  dateOfBirth: "Date of birth",
+  avatarUrl: "Photo",
+  color: "Hair colour",
+  gender: "Gender",
+  microchipNumber: "Microchip #",
+  microchipLocation: "Microchip location",
+  vetName: "Vet name",
+  fatherName: "Father's name",
+  motherName: "Mother's name",
+  hairLength: "Hair length",
+  desexed: "Desexed",
+  foodBrand: "Food brand",
+  perMealAmount: "Per meal amount",
+  mealsPerDay: "Meals per day",
+  yearlyVaccinationDate: "Yearly vaccination date",
+  foodBowlColour: "Food bowl colour",
+  traits: "Traits",
+};
+
+export const timelineQuerySchema = z.object({
+  // Comma-separated list, e.g. "weight,event"; omitted means every type.
+  types: z
+    .string()
+    .optional()
+    .transform((value) => (value ? value.split(",").filter(Boolean) : [...timelineItemTypes]))
+    .pipe(z.array(z.enum(timelineItemTypes))),
+  offset: z.coerce.number().int().min(0).default(0),
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+});
+
+export type TimelineQuery = z.infer<typeof timelineQuerySchema>;
+
+function describeValue(value: string | null): string {
+  return value ? `"${value}"` : "empty";
+}
+
+async function collectItems(
+  householdId: number,
+  petId: number,
+  types: TimelineItemType[],
+  today: string,
+  timeZone: string,
+  weightUnit: WeightUnit
+): Promise<TimelineItem[]> {
+  const items: TimelineItem[] = [];
+
+  if (types.includes("weight")) {
+    const weights = await storage.getWeightEntries(householdId, petId);
+    // Shown in the household's unit so changes between kg and lbs entries still add up.
+    const converted = weights.map((entry) => convertWeight(entry.weight, entry.unit, weightUnit));
+    weights.forEach((entry, index) => {
+      const previous = weights[index - 1];
+      const delta = previous ? roundWeight(converted[index] - converted[index - 1]) : null;
+      const entered = entry.unit === weightUnit ? null : `entered as ${formatWeight(entry.weight, entry.unit)}`;
+      const change = delta ? `${delta > 0 ? "+" : "−"}${formatWeight(Math.abs(delta), weightUnit)} since ${previous.recordedAt}` : null;
+      items.push({
+        id: `weight-${entry.id}`,
+        type: "weight",
+        sourceId: entry.id,
+        date: entry.recordedAt,
+        time: null,
+        title: `Weighed ${formatWeight(converted[index], weightUnit)}`,
+        detail: [change, entered].filter(Boolean).join(" · ") || null,
+        category: null,
+        status: null,
+      });
+    });
+  }
+
+  if (types.includes("event")) {
+    // Recurring series only contribute the occurrences that have already come round.
+    const occurrences = expandEventOccurrences(await storage.getEventsByPet(householdId, petId), { to: today });
+    for (const event of occurrences) {
+      items.push({
+        id: `event-${event.id}-${event.eventDate}`,
+        type: "event",
+        sourceId: event.id,
+        date: event.eventDate,
+        time: event.startTime ? event.startTime.slice(0, 5) : null,
+        title: event.title,
+        detail: [event.location, event.outcome].filter(Boolean).join(" · ") || null,
+        category: event.category,
+        status: event.status,
+      });
+    }
+  }
+
+  if (types.includes("vaccination")) {
+    for (const vax of await storage.getVaccinationsByPet(householdId, petId)) {
+      if (vax.dateAdministered > today) continue;
+      items.push({
+        id: `vaccination-${vax.id}`,
+        type: "vaccination",
+        sourceId: vax.id,
+        date: vax.dateAdministered,
+        time: null,
+        title: `${vax.name} vaccination`,
+        detail: [vax.veterinarian, vax.nextDueDate && `next due ${vax.nextDueDate}`].filter(Boolean).join(" · ") || null,
+        category: "vaccination",
+        status: null,
+      });
+    }
+  }
+
+  if (types.includes("medication")) {
+    for (const med of await storage.getMedicationsByPet(householdId, petId)) {
+      if (med.startDate <= today) {
+        items.push({
+          id: `medication-${med.id}-start`,
+          type: "medication",
+          sourceId: med.id,
+          date: med.startDate,
+          time: null,
+          title: `Started ${med.name}`,
+          detail: [med.dosage, med.frequency, med.prescribedBy && `prescribed by ${med.prescribedBy}`].filter(Boolean).join(" · ") || null,
+          category: "medication",
+          status: null,
+        });
+      }
+      if (med.endDate && med.endDate <= today) {
+        items.push({
+          id: `medication-${med.id}-stop`,
+          type: "medication",
+          sourceId: med.id,
+          date: med.endDate,
+          time: null,
+          title: `Stopped ${med.name}`,
+          detail: null,
+          category: "medication",
+          status: null,
+        });
+      }
+    }
+  }
+
+  if (types.includes("profile")) {
+    for (const change of await storage.getPetProfileChanges(householdId, petId)) {
+      const { date, time } = toZonedParts(change.changedAt, timeZone);
+      const label = profileFieldLabels[change.field] || change.field;
+      items.push({
+        id: `profile-${change.id}`,
+        type: "profile",
+        sourceId: change.id,
+        date,
+        time,
+        title: `${label} updated`,
+        detail: change.field === "avatarUrl" ? null : `${describeValue(change.previousValue)} → ${describeValue(change.newValue)}`,
+        category: null,
+        status: null,
+      });
+    }
+  }
+
+  return items;
+}
+
+/**
+ * Merges a pet's weights, events, vaccinations, medication starts/stops and
+ * profile edits into one newest-first history up to today (household time),
+ * returning the requested page. Future scheduled items are left to the
+ * reminders feed.
+ */
+export async function buildPetTimeline(householdId: number, petId: number, query: TimelineQuery): Promise<TimelinePage> {
+  const household = await storage.getHousehold(householdId);
+  if (!household) throw new Error("Household not found");
+  const today = todayInTimeZone(household.timezone);
+  const items = await collectItems(householdId, petId, query.types, today, household.timezone, household.weightUnit);
+
+  items.sort((a, b) => b.date.localeCompare(a.date) || (b.time ?? "").localeCompare(a.time ?? ""));
+
+  const end = query.offset + query.limit;
+  return {
+    items: items.slice(query.offset, end),
+    total: items.length,
+    nextOffset: end < items.length ? end : null,
+  };
+}
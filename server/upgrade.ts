@@ -0,0 +1,30 @@
+import { db } from "./db";
+import { weightEntries } from "@shared/schema";
+import { parseWeightUnit, weightUnits } from "@shared/weight";
+import { eq, notInArray } from "drizzle-orm";
+import { log } from "./index";
+
+// Weight units used to be free text ("lb", "KG", "pounds"); the app now only
+// reads "kg" and "lbs". Anything unrecognisable becomes "lbs", the old default.
+async function normalizeWeightUnits() {
+  const legacy = await db
+    .selectDistinct({ unit: weightEntries.unit })
+    .from(weightEntries)
+    .where(notInArray(weightEntries.unit, [...weightUnits]));
+
+  for (const { unit } of legacy) {
+    const normalized = parseWeightUnit(unit);
+    if (!normalized) log(`Unknown weight unit "${unit}", treating it as lbs`, "upgrade");
+    const updated = await db
+      .update(weightEntries)
+      .set({ unit: normalized ?? "lbs" })
+      .where(eq(weightEntries.unit, unit))
+      .returning({ id: weightEntries.id });
+    log(`Converted ${updated.length} weight entries from "${unit}" to "${normalized ?? "lbs"}"`, "upgrade");
+  }
+}
+
+// Data fixes that are safe to run on every start; each is a no-op once applied.
+export async function upgradeDatabase() {
+  await normalizeWeightUnits();
+}
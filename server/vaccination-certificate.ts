@@ -0,0 +1,319 @@
+import { storage } from "./storage";
+import { loadAvatarImage } from "./photos";
+import { MARGIN, colors, contentWidth, createPdf, ensureSpace, formatDate, pageFooters, sectionHeading, table } from "./pdf-layout";
+import type { Doc, TableCell } from "./pdf-layout";
+import { daysBetween } from "./recurrence";
+import { todayInTimeZone } from "@shared/timezone";
+import type { Pet, Vaccination } from "@shared/schema";
+
+const DUE_SOON_DAYS = 30;
+
+export type VaccinationValidity = "current" | "due_soon" | "overdue" | "no_due_date";
+
+export function vaccinationValidity(nextDueDate: string | null, today: string): VaccinationValidity {
+  if (!nextDueDate) return "no_due_date";
+  const days = daysBetween(today, nextDueDate);
+  if (days < 0) return "overdue";
+  return days <= DUE_SOON_DAYS ? "due_soon" : "current";
+}
+
+// Older doses of a vaccine that has since been given again are "renewed".
+type CertificateEntry = Vaccination & { validity: VaccinationValidity | "renewed" };
+
+type CertificateData = {
+  pet: Pet;
+  householdName: string;
+  today: string;
+  photo: Buffer | null;
+  entries: CertificateEntry[];
+  summary: { tone: "valid" | "attention" | "overdue"; headline: string; details: string[] };
+};
+
+const validityLabels: Record<CertificateEntry["validity"], string> = {
+  current: "Current",
+  due_soon: "Due soon",
+  overdue: "Overdue",
+  no_due_date: "No expiry recorded",
+  renewed: "Renewed",
+};
+
+const validityColors: Record<CertificateEntry["validity"], string> = {
+  current: "#15803d",
+  due_soon: colors.warning,
+  overdue: colors.danger,
+  no_due_date: colors.muted,
+  renewed: colors.muted,
+};
+
+const toneColors: Record<CertificateData["summary"]["tone"], string> = {
+  valid: "#15803d",
+  attention: colors.warning,
+  overdue: colors.danger,
+};
+
+function summarize(entries: CertificateEntry[], today: string): CertificateData["summary"] {
+  const latest = entries.filter((entry) => entry.validity !== "renewed");
+  if (latest.length === 0) {
+    return { tone: "attention", headline: "No vaccinations recorded", details: [] };
+  }
+  const overdue = latest.filter((entry) => entry.validity === "overdue");
+  const dueSoon = latest.filter((entry) => entry.validity === "due_soon");
+  const details = [
+    ...overdue.map((entry) => `${entry.name} expired on ${formatDate(entry.nextDueDate!)}`),
+    ...dueSoon.map((entry) => `${entry.name} is due on ${formatDate(entry.nextDueDate!)}`),
+  ];
+  if (overdue.length > 0) {
+    return {
+      tone: "overdue",
+      headline: `${overdue.length} of ${latest.length} vaccination${latest.length === 1 ? "" : "s"} overdue`,
+      details,
+    };
+  }
+  return {
+    tone: dueSoon.length > 0 ? "attention" : "valid",
+    headline: `All ${latest.length} vaccination${latest.length === 1 ? "" : "s"} current as of ${formatDate(today)}`,
+    details,
+  };
+}
+
+async function loadCertificate(householdId: number, petId: number): Promise<CertificateData | undefined> {
+  const pet = await storage.getPet(householdId, petId);
+  if (!pet) return undefined;
+  const household = await storage.getHousehold(householdId);
+  if (!household) throw new Error("Household not found");
+  const today = todayInTimeZone(household.timezone);
+
+  const vaccinations = (await storage.getVaccinationsByPet(householdId, petId)).sort(
+    (a, b) => b.dateAdministered.localeCompare(a.dateAdministered) || b.id - a.id
+  );
+  const seen = new Set<string>();
+  const entries = vaccinations.map((vaccination): CertificateEntry => {
+    const key = vaccination.name.trim().toLowerCase();
+    const renewed = seen.has(key);
+    seen.add(key);
+    return { ...vaccination, validity: renewed ? "renewed" : vaccinationValidity(vaccination.nextDueDate, today) };
+  });
+
+  return {
+    pet,
+    householdName: household.name,
+    today,
+    photo: await loadAvatarImage(pet.avatarUrl),
+    entries,
+    summary: summarize(entries, today),
+  };
+}
+
+function identityFields(pet: Pet): [string, string][] {
+  const fields: [string, string | null][] = [
+    ["Name", pet.name],
+    ["Species", pet.species],
+    ["Breed", pet.breed],
+    ["Sex", [pet.gender, pet.desexed && `desexed: ${pet.desexed}`].filter(Boolean).join(", ") || null],
+    ["Date of birth", pet.dateOfBirth ? formatDate(pet.dateOfBirth) : null],
+    ["Colour", pet.color],
+    ["Microchip #", pet.microchipNumber],
+    ["Microchip location", pet.microchipLocation],
+    ["Usual vet", pet.vetName],
+  ];
+  return fields.map(([label, value]) => [label, value || "—"]);
+}
+
+// --- PDF ---
+
+function renderPdf(data: CertificateData): Promise<Buffer> {
+  const { pet } = data;
+  const { doc, done } = createPdf({ title: `${pet.name} – Vaccination certificate`, author: data.householdName });
+
+  doc.font("Helvetica-Bold").fontSize(22).fillColor(colors.text).text("Vaccination Certificate", MARGIN, MARGIN);
+  doc.font("Helvetica").fontSize(9).fillColor(colors.muted).text(`Issued ${formatDate(data.today)} by ${data.householdName}`);
+
+  sectionHeading(doc, "Pet");
+  const top = doc.y;
+  const photoSize = 100;
+  let x = MARGIN;
+  if (data.photo) {
+    doc.image(data.photo, MARGIN, top, { width: photoSize, height: photoSize });
+    x += photoSize + 16;
+  }
+  const labelWidth = 95;
+  const valueWidth = MARGIN + contentWidth(doc) - x - labelWidth;
+  doc.y = top;
+  for (const [label, value] of identityFields(pet)) {
+    const y = doc.y;
+    doc.font("Helvetica").fontSize(9).fillColor(colors.muted).text(label, x, y, { width: labelWidth });
+    doc.font(label === "Name" || label === "Microchip #" ? "Helvetica-Bold" : "Helvetica").fillColor(colors.text);
+    doc.text(value, x + labelWidth, y, { width: valueWidth });
+    doc.y += 3;
+  }
+  doc.x = MARGIN;
+  doc.y = Math.max(doc.y, data.photo ? top + photoSize : 0);
+
+  sectionHeading(doc, "Validity");
+  const boxHeight = 28 + data.summary.details.length * 13;
+  ensureSpace(doc, boxHeight);
+  const boxTop = doc.y;
+  const tone = toneColors[data.summary.tone];
+  doc.roundedRect(MARGIN, boxTop, contentWidth(doc), boxHeight, 4).lineWidth(1.25).strokeColor(tone).stroke();
+  doc.font("Helvetica-Bold").fontSize(11).fillColor(tone).text(data.summary.headline, MARGIN + 12, boxTop + 9);
+  doc.font("Helvetica").fontSize(9).fillColor(colors.text);
+  for (const detail of data.summary.details) doc.text(detail, MARGIN + 12, doc.y + 2);
+  doc.x = MARGIN;
+  doc.y = boxTop + boxHeight;
+
+  sectionHeading(doc, "Vaccinations");
+  if (data.entries.length > 0) {
+    table(
+      doc,
+      [
+        { header: "Vaccine", width: 0.24 },
+        { header: "Given", width: 0.16 },
+        { header: "Valid until", width: 0.16 },
+        { header: "Veterinarian", width: 0.26 },
+        { header: "Status", width: 0.18 },
+      ],
+      data.entries.map((entry): TableCell[] => {
+        const muted = entry.validity === "renewed" ? colors.muted : undefined;
+        return [
+          { text: entry.name, bold: !muted, color: muted },
+          { text: formatDate(entry.dateAdministered), color: muted },
+          { text: entry.nextDueDate ? formatDate(entry.nextDueDate) : "—", color: muted },
+          { text: entry.veterinarian ?? "—", color: muted },
+          { text: validityLabels[entry.validity], color: validityColors[entry.validity], bold: entry.validity === "overdue" },
+        ];
+      })
+    );
+  }
+
+  signatureBlock(doc);
+  pageFooters(doc, `${pet.name} · Vaccination certificate`);
+  doc.end();
+  return done;
+}
+
+function signatureBlock(doc: Doc): void {
+  ensureSpace(doc, 110);
+  doc.moveDown(2.5);
+  doc
+    .font("Helvetica-Oblique")
+    .fontSize(8)
+    .fillColor(colors.muted)
+    .text(
+      "Compiled from the owner's health records. A veterinarian may confirm these details by signing below or attaching the original records.",
+      MARGIN,
+      doc.y,
+      { width: contentWidth(doc) }
+    );
+  const y = doc.y + 40;
+  const width = (contentWidth(doc) - 30) / 2;
+  ["Veterinarian signature and clinic stamp", "Date"].forEach((label, i) => {
+    const x = MARGIN + i * (width + 30);
+    doc.moveTo(x, y).lineTo(x + width, y).lineWidth(0.75).strokeColor(colors.muted).stroke();
+    doc.font("Helvetica").fontSize(8).fillColor(colors.muted).text(label, x, y + 4, { width });
+  });
+  doc.x = MARGIN;
+}
+
+// --- Printable HTML ---
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+function renderHtml(data: CertificateData): string {
+  const { pet } = data;
+  const photo = data.photo
+    ? `<img class="photo" src="data:image/jpeg;base64,${data.photo.toString("base64")}" alt="${escapeHtml(pet.name)}">`
+    : "";
+  const identity = identityFields(pet)
+    .map(([label, value]) => `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value)}</dd>`)
+    .join("");
+  const rows = data.entries
+    .map(
+      (entry) => `<tr class="${entry.validity}">
+        <td class="name">${escapeHtml(entry.name)}</td>
+        <td>${formatDate(entry.dateAdministered)}</td>
+        <td>${entry.nextDueDate ? formatDate(entry.nextDueDate) : "—"}</td>
+        <td>${escapeHtml(entry.veterinarian ?? "—")}</td>
+        <td class="status" style="color:${validityColors[entry.validity]}">${validityLabels[entry.validity]}</td>
+      </tr>`
+    )
+    .join("");
+  const details = data.summary.details.map((detail) => `<li>${escapeHtml(detail)}</li>`).join("");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(pet.name)} – Vaccination certificate</title>
+<style>
+  * { box-sizing: border-box; }
+  body { font-family: Helvetica, Arial, sans-serif; color: ${colors.text}; margin: 0; padding: 32px; font-size: 14px; }
+  main { max-width: 760px; margin: 0 auto; }
+  h1 { font-size: 28px; margin: 0; }
+  h2 { font-size: 17px; margin: 28px 0 10px; padding-bottom: 4px; border-bottom: 1px solid ${colors.rule}; }
+  .muted { color: ${colors.muted}; font-size: 12px; }
+  .pet { display: flex; gap: 20px; align-items: flex-start; }
+  .photo { width: 120px; height: 120px; object-fit: cover; border-radius: 6px; }
+  dl { display: grid; grid-template-columns: 140px 1fr; gap: 4px 8px; margin: 0; }
+  dt { color: ${colors.muted}; }
+  dd { margin: 0; }
+  .validity { border: 2px solid ${toneColors[data.summary.tone]}; border-radius: 6px; padding: 12px 16px; }
+  .validity strong { color: ${toneColors[data.summary.tone]}; font-size: 16px; }
+  .validity ul { margin: 6px 0 0; padding-left: 18px; }
+  table { width: 100%; border-collapse: collapse; }
+  th { text-align: left; font-size: 12px; color: ${colors.muted}; }
+  th, td { padding: 6px 8px; border-bottom: 1px solid ${colors.rule}; vertical-align: top; }
+  td.name { font-weight: bold; }
+  tr.renewed td { color: ${colors.muted}; font-weight: normal; }
+  tr.overdue td.status { font-weight: bold; }
+  .signatures { display: flex; gap: 32px; margin-top: 56px; }
+  .signatures div { flex: 1; border-top: 1px solid ${colors.muted}; padding-top: 4px; }
+  .toolbar { text-align: right; margin-bottom: 16px; }
+  .toolbar button { font: inherit; padding: 6px 14px; cursor: pointer; }
+  @media print {
+    body { padding: 0; }
+    .toolbar { display: none; }
+    @page { size: A4; margin: 18mm; }
+  }
+</style>
+</head>
+<body>
+<main>
+  <div class="toolbar"><button type="button" onclick="window.print()">Print</button></div>
+  <h1>Vaccination Certificate</h1>
+  <p class="muted">Issued ${formatDate(data.today)} by ${escapeHtml(data.householdName)}</p>
+  <h2>Pet</h2>
+  <div class="pet">${photo}<dl>${identity}</dl></div>
+  <h2>Validity</h2>
+  <div class="validity"><strong>${escapeHtml(data.summary.headline)}</strong>${details ? `<ul>${details}</ul>` : ""}</div>
+  <h2>Vaccinations</h2>
+  ${
+    rows
+      ? `<table><thead><tr><th>Vaccine</th><th>Given</th><th>Valid until</th><th>Veterinarian</th><th>Status</th></tr></thead><tbody>${rows}</tbody></table>`
+      : `<p class="muted">No vaccinations recorded</p>`
+  }
+  <p class="muted" style="margin-top:32px">Compiled from the owner's health records. A veterinarian may confirm these details by signing below or attaching the original records.</p>
+  <div class="signatures"><div class="muted">Veterinarian signature and clinic stamp</div><div class="muted">Date</div></div>
+</main>
+</body>
+</html>
+`;
+}
+
+/**
+ * Proof of vaccination for a boarding kennel or new vet: the pet's identity
+ * (with photo and microchip), each vaccination with its validity, and an
+ * overall current/overdue summary based on the latest dose of each vaccine.
+ * Undefined if the pet doesn't exist.
+ */
+export async function buildVaccinationCertificate(
+  householdId: number,
+  petId: number,
+  format: "pdf" | "html"
+): Promise<{ pet: Pet; body: Buffer | string } | undefined> {
+  const data = await loadCertificate(householdId, petId);
+  if (!data) return undefined;
+  return { pet: data.pet, body: format === "pdf" ? await renderPdf(data) : renderHtml(data) };
+}
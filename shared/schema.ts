@@ -1,8 +1,10 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, timestamp, date, real, pgEnum, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, timestamp, date, time, real, pgEnum, boolean, unique, jsonb } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { isValidTimeZone } from "./timezone";
+import { parseWeightUnit, weightUnits, type WeightUnit } from "./weight";
 
 export const eventCategoryEnum = pgEnum("event_category", [
   "vet_visit",
@@ -11,8 +13,98 @@ export const eventCategoryEnum = pgEnum("event_category", [
   "appointment",
 ]);
 
+export const eventStatusEnum = pgEnum("event_status", [
+  "scheduled",
+  "completed",
+  "cancelled",
+  "missed",
+]);
+
+export const recurrenceFrequencies = ["daily", "weekly", "monthly", "yearly"] as const;
+
+// RRULE-style recurrence: FREQ, INTERVAL, COUNT or UNTIL, and BYDAY (0 = Sunday) for weekly rules.
+export const recurrenceRuleSchema = z
+  .object({
+    frequency: z.enum(recurrenceFrequencies),
+    interval: z.number().int().min(1).max(99).default(1),
+    count: z.number().int().min(1).max(500).nullish(),
+    until: z.string().nullish(),
+    byWeekday: z.array(z.number().int().min(0).max(6)).nullish(),
+  })
+  .refine((rule) => !(rule.count && rule.until), {
+    message: "Use either an occurrence count or an end date, not both",
+  });
+
+export type RecurrenceRule = z.infer<typeof recurrenceRuleSchema>;
+
+export const reminderSourceEnum = pgEnum("reminder_source", [
+  "event",
+  "vaccination",
+  "medication",
+  "yearly_vaccination",
+]);
+
+export const reminderActionEnum = pgEnum("reminder_action", [
+  "completed",
+  "snoozed",
+  "dismissed",
+]);
+
+export const householdRoleEnum = pgEnum("household_role", ["owner", "caretaker", "viewer"]);
+
+export const attachmentParentEnum = pgEnum("attachment_parent", [
+  "pet",
+  "event",
+  "vaccination",
+  "medication",
+]);
+
+export const households = pgTable("households", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  name: text("name").notNull().default("My Household"),
+  timezone: text("timezone").notNull().default("UTC"),
+  // Unit weights are shown in; each entry keeps the unit it was recorded in.
+  weightUnit: text("weight_unit").$type<WeightUnit>().notNull().default("lbs"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const users = pgTable("users", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  username: text("username").notNull().unique(),
+  // scrypt hash with its salt, "<salt>:<hash>" in hex; never sent to the client.
+  passwordHash: text("password_hash").notNull(),
+  displayName: text("display_name"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const householdMembers = pgTable(
+  "household_members",
+  {
+    id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+    householdId: integer("household_id").notNull().references(() => households.id, { onDelete: "cascade" }),
+    userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    role: householdRoleEnum("role").notNull().default("caretaker"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [unique().on(table.householdId, table.userId)]
+);
+
+// One-time join codes; a code is spent once usedAt is set.
+export const householdInvitations = pgTable("household_invitations", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  householdId: integer("household_id").notNull().references(() => households.id, { onDelete: "cascade" }),
+  code: text("code").notNull().unique(),
+  role: householdRoleEnum("role").notNull().default("caretaker"),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  usedBy: integer("used_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 export const pets = pgTable("pets", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  householdId: integer("household_id").notNull().references(() => households.id, { onDelete: "cascade" }),
   name: text("name").notNull(),
   breed: text("breed").notNull(),
   species: text("species").notNull().default("dog"),
@@ -44,7 +136,7 @@ export const weightEntries = pgTable("weight_entries", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
   petId: integer("pet_id").notNull().references(() => pets.id, { onDelete: "cascade" }),
   weight: real("weight").notNull(),
-  unit: text("unit").notNull().default("lbs"),
+  unit: text("unit").$type<WeightUnit>().notNull().default("lbs"),
   recordedAt: date("recorded_at").notNull(),
 });
 
@@ -54,12 +146,23 @@ export const weightEntryRelations = relations(weightEntries, ({ one }) => ({
 
 export const events = pgTable("events", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  householdId: integer("household_id").notNull().references(() => households.id, { onDelete: "cascade" }),
   title: text("title").notNull(),
   category: eventCategoryEnum("category").notNull(),
   notes: text("notes"),
   eventDate: date("event_date").notNull(),
-  reminderDate: date("reminder_date"),
+  // Wall-clock time in the household timezone; null for all-day events.
+  startTime: time("start_time"),
+  durationMinutes: integer("duration_minutes"),
+  // How long before the start to remind; null reminds at the start itself.
+  reminderOffsetMinutes: integer("reminder_offset_minutes"),
   location: text("location"),
+  status: eventStatusEnum("status").notNull().default("scheduled"),
+  outcome: text("outcome"),
+  recurrence: jsonb("recurrence").$type<RecurrenceRule>(),
+  recurrenceExceptions: date("recurrence_exceptions").array(),
+  // UID of the iCalendar VEVENT this event was imported from, used to spot re-imports.
+  externalUid: text("external_uid"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -115,13 +218,245 @@ export const medicationRelations = relations(medications, ({ one }) => ({
   sourceEvent: one(events, { fields: [medications.sourceEventId], references: [events.id] }),
 }));
 
-export const insertPetSchema = createInsertSchema(pets).omit({ id: true });
-export const insertWeightEntrySchema = createInsertSchema(weightEntries).omit({ id: true });
-export const insertEventSchema = createInsertSchema(events).omit({ id: true, createdAt: true });
+// Acknowledgements are keyed by due date so that a handled occurrence does not
+// silence the next one (e.g. next year's vaccination, or an edited due date).
+export const reminderAcknowledgements = pgTable(
+  "reminder_acknowledgements",
+  {
+    id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+    householdId: integer("household_id").notNull().references(() => households.id, { onDelete: "cascade" }),
+    source: reminderSourceEnum("source").notNull(),
+    sourceId: integer("source_id").notNull(),
+    dueDate: date("due_date").notNull(),
+    action: reminderActionEnum("action").notNull(),
+    snoozedUntil: date("snoozed_until"),
+    actedBy: text("acted_by"),
+    actedAt: timestamp("acted_at").notNull().defaultNow(),
+  },
+  (table) => [unique().on(table.householdId, table.source, table.sourceId, table.dueDate)]
+);
+
+// Secret feed URLs for calendar apps; petId null means the whole household.
+export const calendarFeeds = pgTable("calendar_feeds", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  householdId: integer("household_id").notNull().references(() => households.id, { onDelete: "cascade" }),
+  token: text("token").notNull().unique(),
+  petId: integer("pet_id").references(() => pets.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Read-only links for pet sitters. The URL carries a signed token (see
+// server/shares.ts); the row is what lets a link be revoked early.
+export const petShares = pgTable("pet_shares", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  householdId: integer("household_id").notNull().references(() => households.id, { onDelete: "cascade" }),
+  label: text("label"),
+  petIds: integer("pet_ids").array().notNull(),
+  emergencyContacts: text("emergency_contacts"),
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Gallery photos. The original upload is kept alongside two generated
+// variants: a square thumbnail for the grid and a display size for viewing.
+export const petPhotos = pgTable("pet_photos", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  petId: integer("pet_id").notNull().references(() => pets.id, { onDelete: "cascade" }),
+  objectPath: text("object_path").notNull(),
+  displayPath: text("display_path").notNull(),
+  thumbnailPath: text("thumbnail_path").notNull(),
+  width: integer("width"),
+  height: integer("height"),
+  caption: text("caption"),
+  takenAt: date("taken_at"),
+  uploadedBy: integer("uploaded_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Uploaded documents (invoices, lab results, certificates) attached to a pet
+// or one of its records. parentId points into the table named by parentType.
+export const attachments = pgTable("attachments", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  householdId: integer("household_id").notNull().references(() => households.id, { onDelete: "cascade" }),
+  parentType: attachmentParentEnum("parent_type").notNull(),
+  parentId: integer("parent_id").notNull(),
+  objectPath: text("object_path").notNull(),
+  fileName: text("file_name").notNull(),
+  contentType: text("content_type"),
+  size: integer("size"),
+  uploadedBy: integer("uploaded_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Field-level history of pet profile edits, surfaced on the pet timeline.
+export const petProfileChanges = pgTable("pet_profile_changes", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  petId: integer("pet_id").notNull().references(() => pets.id, { onDelete: "cascade" }),
+  field: text("field").notNull(),
+  previousValue: text("previous_value"),
+  newValue: text("new_value"),
+  changedAt: timestamp("changed_at").notNull().defaultNow(),
+});
+
+export const insertHouseholdSchema = z.object({
+  name: z.string().trim().min(1),
+  timezone: z.string().refine(isValidTimeZone, { message: "Unknown timezone" }),
+  weightUnit: z.enum(weightUnits),
+});
+export const loginSchema = z.object({
+  username: z.string().trim().toLowerCase().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+});
+export const registerUserSchema = z.object({
+  username: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .regex(/^[a-z0-9._-]{3,32}$/, "Use 3–32 letters, numbers, dots, dashes or underscores"),
+  password: z.string().min(8, "Password must be at least 8 characters").max(128),
+  displayName: z.string().trim().max(64).nullish(),
+});
+export const householdRoles = householdRoleEnum.enumValues;
+export const createInvitationSchema = z.object({
+  role: z.enum(householdRoles).default("caretaker"),
+});
+export const acceptInvitationSchema = z.object({
+  code: z.string().trim().toUpperCase().min(1, "Enter an invitation code"),
+});
+export const updateMemberSchema = z.object({
+  role: z.enum(householdRoles),
+});
+export const switchHouseholdSchema = z.object({
+  householdId: z.number().int(),
+});
+export const insertPetSchema = createInsertSchema(pets).omit({ id: true, householdId: true });
+export const insertWeightEntrySchema = createInsertSchema(weightEntries, {
+  unit: z.enum(weightUnits).optional(),
+}).omit({ id: true });
+export const updateWeightEntrySchema = insertWeightEntrySchema
+  .partial()
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: "Provide a weight, unit or date to update",
+  });
+export const insertEventSchema = createInsertSchema(events, {
+  startTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/, "Expected an HH:mm time").nullish(),
+  durationMinutes: z.number().int().min(1).max(7 * 24 * 60).nullish(),
+  reminderOffsetMinutes: z.number().int().min(0).max(60 * 24 * 60).nullish(),
+  recurrence: recurrenceRuleSchema.nullish(),
+}).omit({ id: true, householdId: true, createdAt: true, recurrenceExceptions: true, outcome: true });
 export const insertPetEventSchema = createInsertSchema(petEvents).omit({ id: true });
+// The pets an event is linked to, sent alongside the event's fields.
+export const eventPetIdsSchema = z.object({
+  petIds: z.array(z.number().int()).min(1, "Select at least one pet"),
+});
 export const insertVaccinationSchema = createInsertSchema(vaccinations).omit({ id: true, createdAt: true });
 export const insertMedicationSchema = createInsertSchema(medications).omit({ id: true, createdAt: true });
+export const insertCalendarFeedSchema = z.object({
+  petId: z.number().int().positive().nullish(),
+});
+export const MAX_SHARE_DAYS = 90;
+export const createPetShareSchema = z.object({
+  label: z.string().trim().max(80).nullish(),
+  petIds: z.array(z.number().int()).min(1, "Select at least one pet"),
+  emergencyContacts: z.string().trim().max(1000).nullish(),
+  expiresAt: z.coerce
+    .date()
+    .refine((date) => date.getTime() > Date.now(), { message: "Expiry must be in the future" })
+    .refine((date) => date.getTime() <= Date.now() + MAX_SHARE_DAYS * 24 * 60 * 60 * 1000, {
+      message: `Links can last at most ${MAX_SHARE_DAYS} days`,
+    }),
+});
+// Avatars and gallery photos go through sharp, so only formats it reads are
+// accepted; attachments may also be PDFs or plain text.
+export const uploadKinds = ["image", "document"] as const;
+export const imageContentTypes = ["image/jpeg", "image/png", "image/webp", "image/gif"];
+export const uploadLimits: Record<(typeof uploadKinds)[number], { contentTypes: string[]; maxBytes: number; typeMessage: string }> = {
+  image: {
+    contentTypes: imageContentTypes,
+    maxBytes: 10 * 1024 * 1024,
+    typeMessage: "Photos must be JPEG, PNG, WebP or GIF images",
+  },
+  document: {
+    contentTypes: [...imageContentTypes, "application/pdf", "text/plain"],
+    maxBytes: 20 * 1024 * 1024,
+    typeMessage: "Attach images, PDFs or plain text files",
+  },
+};
+export const uploadRequestSchema = z
+  .object({
+    name: z.string({ required_error: "Missing required field: name" }).trim().min(1, "Missing required field: name").max(255),
+    size: z.number().int().positive("The file is empty"),
+    contentType: z.string().trim().toLowerCase(),
+    kind: z.enum(uploadKinds).default("image"),
+  })
+  .superRefine((data, ctx) => {
+    const limits = uploadLimits[data.kind];
+    if (!limits.contentTypes.includes(data.contentType)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["contentType"], message: limits.typeMessage });
+    }
+    if (data.size > limits.maxBytes) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["size"],
+        message: `Files can be at most ${limits.maxBytes / (1024 * 1024)} MB`,
+      });
+    }
+  });
+export const updatePetPhotoSchema = z.object({
+  caption: z.string().trim().max(500).nullish(),
+  takenAt: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a YYYY-MM-DD date").nullish(),
+});
+export const createPetPhotoSchema = updatePetPhotoSchema.extend({
+  objectPath: z.string().min(1),
+});
+export const createAttachmentSchema = z.object({
+  parentType: z.enum(attachmentParentEnum.enumValues),
+  parentId: z.number().int(),
+  objectPath: z.string().min(1),
+  fileName: z.string().trim().min(1).max(255),
+  contentType: z.string().max(255).nullish(),
+  size: z.number().int().nonnegative().nullish(),
+});
+export const calendarImportPreviewSchema = z.object({
+  ics: z.string().min(1, "The calendar file is empty"),
+});
+export const calendarImportSchema = z.object({
+  events: z
+    .array(insertEventSchema.and(eventPetIdsSchema))
+    .min(1, "Select at least one event to import"),
+});
+export const eventStatusUpdateSchema = z.object({
+  status: z.enum(eventStatusEnum.enumValues),
+  outcome: z.string().nullish(),
+  occurrenceDate: z.string().optional(),
+});
+export const insertReminderAcknowledgementSchema = z
+  .object({
+    source: z.enum(reminderSourceEnum.enumValues),
+    sourceId: z.number().int(),
+    dueDate: z.string(),
+    action: z.enum(reminderActionEnum.enumValues),
+    snoozedUntil: z.string().nullish(),
+  })
+  .refine((data) => data.action !== "snoozed" || !!data.snoozedUntil, {
+    message: "A snooze date is required when snoozing a reminder",
+    path: ["snoozedUntil"],
+  });
 
+export type Household = typeof households.$inferSelect;
+export type InsertHousehold = z.infer<typeof insertHouseholdSchema>;
+export type HouseholdRole = (typeof householdRoles)[number];
+export type HouseholdMember = typeof householdMembers.$inferSelect;
+export type HouseholdInvitation = typeof householdInvitations.$inferSelect;
+// The signed-in user's active household, with their role in it.
+export type CurrentHousehold = Household & { role: HouseholdRole };
+export type HouseholdMembership = Pick<Household, "id" | "name"> & { role: HouseholdRole; active: boolean };
+export type HouseholdMemberWithUser = HouseholdMember & Pick<User, "username" | "displayName">;
+export type User = typeof users.$inferSelect;
+export type PublicUser = Omit<User, "passwordHash">;
+export type RegisterUser = z.infer<typeof registerUserSchema>;
 export type Pet = typeof pets.$inferSelect;
 export type InsertPet = z.infer<typeof insertPetSchema>;
 export type WeightEntry = typeof weightEntries.$inferSelect;
@@ -134,5 +469,264 @@ export type Vaccination = typeof vaccinations.$inferSelect;
 export type InsertVaccination = z.infer<typeof insertVaccinationSchema>;
 export type Medication = typeof medications.$inferSelect;
 export type InsertMedication = z.infer<typeof insertMedicationSchema>;
+export type CalendarFeed = typeof calendarFeeds.$inferSelect;
+export type PetProfileChange = typeof petProfileChanges.$inferSelect;
+export type PetShare = typeof petShares.$inferSelect;
+export type CreatePetShare = z.infer<typeof createPetShareSchema>;
+// A share as listed to the household, with the token needed to build its URL.
+export type PetShareLink = PetShare & { token: string };
+export type SharedPet = Pick<
+  Pet,
+  "id" | "name" | "breed" | "species" | "dateOfBirth" | "avatarUrl" | "vetName" | "foodBrand" | "perMealAmount" | "mealsPerDay" | "foodBowlColour" | "traits"
+> & { medications: Pick<Medication, "id" | "name" | "dosage" | "frequency" | "notes" | "endDate">[] };
+// What a sitter sees at /share/:token.
+export type SharedView = {
+  label: string | null;
+  householdName: string;
+  emergencyContacts: string | null;
+  expiresAt: string;
+  pets: SharedPet[];
+};
+export type UploadKind = (typeof uploadKinds)[number];
+export type UploadRequest = z.infer<typeof uploadRequestSchema>;
+export type PetPhoto = typeof petPhotos.$inferSelect;
+export type CreatePetPhoto = z.infer<typeof createPetPhotoSchema>;
+export type UpdatePetPhoto = z.infer<typeof updatePetPhotoSchema>;
+export type Attachment = typeof attachments.$inferSelect;
+export type AttachmentParentType = (typeof attachmentParentEnum.enumValues)[number];
+export type CreateAttachment = z.infer<typeof createAttachmentSchema>;
+export type ReminderAcknowledgement = typeof reminderAcknowledgements.$inferSelect;
+export type InsertReminderAcknowledgement = z.infer<typeof insertReminderAcknowledgementSchema>;
 
 export type EventWithPets = Event & { pets: Pet[] };
+
+// A single dated instance of an event; recurring events are expanded into one per occurrence.
+export type EventOccurrence = EventWithPets & { seriesStartDate: string };
+
+export type EventStatus = (typeof eventStatusEnum.enumValues)[number];
+export type EventStatusUpdate = z.infer<typeof eventStatusUpdateSchema>;
+
+// Statuses an event may move to from each status; reopening returns it to "scheduled".
+export const eventStatusTransitions: Record<EventStatus, EventStatus[]> = {
+  scheduled: ["completed", "cancelled", "missed"],
+  completed: ["scheduled"],
+  cancelled: ["scheduled"],
+  missed: ["completed", "scheduled"],
+};
+
+export const eventEditScopes = ["occurrence", "following", "all"] as const;
+export type EventEditScope = (typeof eventEditScopes)[number];
+
+// A VEVENT parsed from an uploaded .ics file, with times converted to the household timezone.
+export type CalendarImportCandidate = {
+  uid: string | null;
+  title: string;
+  eventDate: string;
+  startTime: string | null;
+  durationMinutes: number | null;
+  reminderOffsetMinutes: number | null;
+  location: string | null;
+  notes: string | null;
+  recurrence: RecurrenceRule | null;
+  status: EventStatus;
+  suggestedCategory: Event["category"];
+  suggestedPetIds: number[];
+  duplicateOf: Pick<Event, "id" | "title" | "eventDate"> | null;
+  warnings: string[];
+};
+
+export type ReminderSource = (typeof reminderSourceEnum.enumValues)[number];
+export type ReminderAction = (typeof reminderActionEnum.enumValues)[number];
+export type ReminderStatus = "overdue" | "today" | "soon" | "upcoming";
+
+export type Reminder = {
+  id: string;
+  source: ReminderSource;
+  sourceId: number;
+  title: string;
+  category: Event["category"];
+  detail: string | null;
+  dueDate: string;
+  // Household-local start time for timed events, otherwise null.
+  dueTime: string | null;
+  // ISO instant at which the reminder becomes active.
+  remindAt: string;
+  status: ReminderStatus;
+  daysUntil: number;
+  active: boolean;
+  acknowledgement: ReminderAcknowledgement | null;
+  pets: Pick<Pet, "id" | "name">[];
+};
+
+export const timelineItemTypes = ["weight", "event", "vaccination", "medication", "profile"] as const;
+export type TimelineItemType = (typeof timelineItemTypes)[number];
+
+// One entry in a pet's merged health history, newest first.
+export type TimelineItem = {
+  id: string;
+  type: TimelineItemType;
+  sourceId: number;
+  date: string;
+  // Household-local time where the source has one (timed events, profile edits).
+  time: string | null;
+  title: string;
+  detail: string | null;
+  category: Event["category"] | null;
+  status: EventStatus | null;
+};
+
+export type TimelinePage = {
+  items: TimelineItem[];
+  total: number;
+  nextOffset: number | null;
+};
+
+export const dataExportVersion = 1;
+
+// Household backup served by GET /api/export. Record ids are only meaningful
+// within the document (they link weights, events and health records to pets),
+// so household ids are left out.
+export type DataExport = {
+  format: "petcare-export";
+  version: number;
+  exportedAt: string;
+  household: Pick<Household, "name" | "timezone" | "weightUnit">;
+  pets: Omit<Pet, "householdId">[];
+  weightEntries: WeightEntry[];
+  events: (Omit<Event, "householdId"> & { petIds: number[] })[];
+  vaccinations: Vaccination[];
+  medications: Medication[];
+};
+
+export const dataImportModes = ["merge", "replace"] as const;
+const backupRecordId = z.number().int().positive();
+// Backups made while the unit was free text may say "lb" or "KG".
+const backupWeightUnit = z
+  .preprocess((value) => (typeof value === "string" ? parseWeightUnit(value) ?? value : value), z.enum(weightUnits))
+  .optional();
+
+// An uploaded DataExport. Each record must pass the matching insert schema;
+// ids (and the pet and event ids records refer to) only need to resolve
+// within the document, since the server assigns new ones on restore.
+export const dataImportDocumentSchema = z
+  .object({
+    format: z.literal("petcare-export", { errorMap: () => ({ message: "This file isn't a data export from this app" }) }),
+    version: z.number().int().min(1).max(dataExportVersion, "This backup was made by a newer version of the app"),
+    exportedAt: z.string(),
+    pets: z.array(insertPetSchema.and(z.object({ id: backupRecordId }))),
+    weightEntries: z.array(insertWeightEntrySchema.extend({ id: backupRecordId, petId: backupRecordId, unit: backupWeightUnit })),
+    events: z.array(
+      insertEventSchema.and(
+        z.object({
+          id: backupRecordId,
+          petIds: z.array(backupRecordId),
+          outcome: z.string().nullish(),
+          recurrenceExceptions: z.array(z.string().regex(/^\d{4}-\d{2}-\d{2}$/)).nullish(),
+        })
+      )
+    ),
+    vaccinations: z.array(
+      insertVaccinationSchema.and(z.object({ id: backupRecordId, petId: backupRecordId, sourceEventId: backupRecordId.nullish() }))
+    ),
+    medications: z.array(
+      insertMedicationSchema.and(z.object({ id: backupRecordId, petId: backupRecordId, sourceEventId: backupRecordId.nullish() }))
+    ),
+  })
+  .superRefine((data, ctx) => {
+    const petIds = new Set(data.pets.map((pet) => pet.id));
+    const eventIds = new Set(data.events.map((event) => event.id));
+    const addIssue = (path: (string | number)[], message: string) =>
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path, message });
+
+    if (petIds.size !== data.pets.length) addIssue(["pets"], "The backup lists the same pet id twice");
+    if (eventIds.size !== data.events.length) addIssue(["events"], "The backup lists the same event id twice");
+    data.weightEntries.forEach((entry, i) => {
+      if (!petIds.has(entry.petId)) {
+        addIssue(["weightEntries", i, "petId"], `Weight entry ${entry.id} refers to pet ${entry.petId}, which isn't in the backup`);
+      }
+    });
+    data.events.forEach((event, i) => {
+      const unknown = event.petIds.find((petId) => !petIds.has(petId));
+      if (unknown !== undefined) {
+        addIssue(["events", i, "petIds"], `Event ${event.id} refers to pet ${unknown}, which isn't in the backup`);
+      }
+    });
+    for (const table of ["vaccinations", "medications"] as const) {
+      data[table].forEach((record, i) => {
+        const label = table === "vaccinations" ? "Vaccination" : "Medication";
+        if (!petIds.has(record.petId)) {
+          addIssue([table, i, "petId"], `${label} ${record.id} refers to pet ${record.petId}, which isn't in the backup`);
+        }
+        if (record.sourceEventId != null && !eventIds.has(record.sourceEventId)) {
+          addIssue([table, i, "sourceEventId"], `${label} ${record.id} refers to event ${record.sourceEventId}, which isn't in the backup`);
+        }
+      });
+    }
+  });
+export const dataImportSchema = z.object({
+  mode: z.enum(dataImportModes).default("merge"),
+  data: dataImportDocumentSchema,
+});
+
+export type DataImportMode = (typeof dataImportModes)[number];
+export type DataImportDocument = z.infer<typeof dataImportDocumentSchema>;
+export type DataImport = z.infer<typeof dataImportSchema>;
+export type DataImportTable = "pets" | "weightEntries" | "events" | "vaccinations" | "medications";
+
+// What a restore adds, skips and removes; returned both by the preview and by the restore itself.
+export type DataImportSummary = {
+  mode: DataImportMode;
+  exportedAt: string;
+  tables: Record<DataImportTable, {
+    added: number;
+    // Already in the household (merge only); pets are merged into the existing one, other records skipped.
+    conflicting: number;
+    // Existing records a replace deletes.
+    removed: number;
+  }>;
+  conflicts: { table: DataImportTable; description: string }[];
+};
+
+export const csvImportKinds = ["weights", "vaccinations"] as const;
+// Record fields a CSV column can be mapped to, in the order the mapping UI lists them.
+export const csvImportFields = {
+  weights: ["recordedAt", "weight", "unit"],
+  vaccinations: ["name", "dateAdministered", "nextDueDate", "veterinarian", "notes"],
+} as const;
+// Separators are interchangeable: "dd/MM/yyyy" also reads 05-01-2024 and 5.1.24.
+export const csvDateFormats = ["yyyy-MM-dd", "dd/MM/yyyy", "MM/dd/yyyy"] as const;
+
+export const csvImportSchema = z.object({
+  csv: z.string().trim().min(1, "The file is empty"),
+  // Column index per field; omitted fields are guessed from the header row, null leaves a field unmapped.
+  mapping: z.record(z.string(), z.number().int().min(0).nullable()).optional(),
+  dateFormat: z.enum(csvDateFormats).optional(),
+  // Unit for weights that don't state one; detected from the file when omitted.
+  unit: z.enum(weightUnits).optional(),
+  dryRun: z.boolean().default(true),
+});
+
+export type CsvImportKind = (typeof csvImportKinds)[number];
+export type CsvDateFormat = (typeof csvDateFormats)[number];
+export type CsvImport = z.infer<typeof csvImportSchema>;
+export type CsvImportRow = {
+  // Line in the file, counting the header as line 1.
+  line: number;
+  status: "valid" | "invalid" | "duplicate";
+  values: Record<string, string | number | null>;
+  errors: string[];
+};
+// Returned by the dry run and by the import itself, which only adds the valid rows.
+export type CsvImportResult = {
+  kind: CsvImportKind;
+  headers: string[];
+  mapping: Record<string, number | null>;
+  missingFields: string[];
+  dateFormat: CsvDateFormat;
+  dateFormatAmbiguous: boolean;
+  unit: WeightUnit | null;
+  unitDetected: boolean;
+  rows: CsvImportRow[];
+  counts: { valid: number; invalid: number; duplicate: number };
+  imported: number;
+};
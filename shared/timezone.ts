@@ -0,0 +1,65 @@
+// Timezone helpers built on Intl so server and client agree on household-local dates and times.
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function zonedFields(instant: Date, timeZone: string): Record<string, string> {
+  const fields: Record<string, string> = {};
+  for (const part of getFormatter(timeZone).formatToParts(instant)) {
+    fields[part.type] = part.value;
+  }
+  return fields;
+}
+
+/** Wall-clock date ("yyyy-MM-dd") and time ("HH:mm") of an instant in the given zone. */
+export function toZonedParts(instant: Date, timeZone: string): { date: string; time: string } {
+  const f = zonedFields(instant, timeZone);
+  return { date: `${f.year}-${f.month}-${f.day}`, time: `${f.hour}:${f.minute}` };
+}
+
+function zoneOffsetMs(instant: number, timeZone: string): number {
+  const f = zonedFields(new Date(instant), timeZone);
+  const asUtc = Date.UTC(+f.year, +f.month - 1, +f.day, +f.hour, +f.minute, +f.second);
+  return asUtc - Math.floor(instant / 1000) * 1000;
+}
+
+/** The instant at which a household-local date and optional "HH:mm" time occurs. */
+export function fromZonedTime(date: string, time: string | null | undefined, timeZone: string): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  const [hour, minute] = (time || "00:00").split(":").map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+  // Re-check the offset at the first guess so times next to a DST switch land correctly.
+  const firstGuess = wallClock - zoneOffsetMs(wallClock, timeZone);
+  return new Date(wallClock - zoneOffsetMs(firstGuess, timeZone));
+}
+
+export function todayInTimeZone(timeZone: string, now: Date = new Date()): string {
+  return toZonedParts(now, timeZone).date;
+}
@@ -0,0 +1,31 @@
+// Weight unit conversion shared by the charts, timeline, reports and exports.
+// Entries keep the unit they were recorded in; they are converted on read to
+// the household's display unit.
+
+export const weightUnits = ["kg", "lbs"] as const;
+export type WeightUnit = (typeof weightUnits)[number];
+
+const LBS_PER_KG = 2.20462262;
+const kgPerUnit: Record<WeightUnit, number> = { kg: 1, lbs: 1 / LBS_PER_KG };
+
+// "kg", "KGs", "kilograms", "lb", "Pounds"... as typed into a CSV or an older row.
+export function parseWeightUnit(value: string): WeightUnit | null {
+  const unit = value.trim();
+  if (/^(kgs?|kilos?|kilograms?)$/i.test(unit)) return "kg";
+  if (/^(lbs?|pounds?)$/i.test(unit)) return "lbs";
+  return null;
+}
+
+export function convertWeight(weight: number, from: WeightUnit, to: WeightUnit): number {
+  if (from === to) return weight;
+  return (weight * kgPerUnit[from]) / kgPerUnit[to];
+}
+
+// Two decimals keep what was typed (12.35 kg) while hiding conversion noise.
+export function roundWeight(weight: number): number {
+  return Number(weight.toFixed(2));
+}
+
+export function formatWeight(weight: number, unit: string): string {
+  return `${roundWeight(weight)} ${unit}`;
+}